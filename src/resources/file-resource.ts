@@ -6,28 +6,14 @@
 
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import path from "path";
 import fs from "fs/promises";
 import { ResourceResponse } from "../types/index.js";
-import { file as fileUtils, logger } from "../utils/index.js";
-
-/**
- * Validate a file path for safety and accessibility
- * @param {string} filePath - The file path to validate
- * @throws {Error} If the path is invalid or unsafe
- */
-function validateFilePath(filePath: string): void {
-  // Check if path is empty
-  if (!filePath || filePath.trim() === '') {
-    throw new Error('File path cannot be empty');
-  }
-  
-  // Check for suspicious path patterns (basic security check)
-  const suspiciousPatterns = /(\.\.|\/\.\.|\.\.\/|~|^\/(?!Users|tmp|var|opt|home))/;
-  if (suspiciousPatterns.test(filePath)) {
-    throw new Error(`File path contains potentially unsafe patterns: ${filePath}`);
-  }
-}
+import {
+  file as fileUtils,
+  logger,
+  pathPolicy,
+  tree as treeUtils,
+} from "../utils/index.js";
 
 /**
  * Register the file resource with the MCP server
@@ -41,21 +27,17 @@ export function registerFileResource(server: McpServer): void {
     new ResourceTemplate("file://{path}", { list: undefined }),
     async (
       uri: URL,
-      variables: Record<string, unknown>
+      variables: Record<string, unknown>,
+      extra
     ): Promise<ResourceResponse> => {
       // Properly decode URI path components and normalize
       let filePath = decodeURIComponent(String(variables.path));
       
-      // If path starts with a drive letter in Windows (C:/) or / in Unix, use as-is
-      // Otherwise, treat as a relative path
-      if (!path.isAbsolute(filePath)) {
-        logger.debug(`Converting relative path to absolute: ${filePath}`);
-        filePath = path.resolve(process.cwd(), filePath);
-      }
-      
       try {
-        // Validate the file path for safety
-        validateFilePath(filePath);
+        // Resolve against the workspace roots and enforce the path policy
+        filePath = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
         
         logger.debug(`Reading resource: ${filePath}`);
         const fileStats = await fs.stat(filePath);
@@ -75,7 +57,9 @@ export function registerFileResource(server: McpServer): void {
         });
         
         // More descriptive error messages based on error type
-        if (errorCode === 'ENOENT') {
+        if (pathPolicy.isPathPolicyError(error)) {
+          throw new Error(`Access denied: ${err.message}`);
+        } else if (errorCode === 'ENOENT') {
           throw new Error(`File or directory not found at path: ${filePath}. Please check that the path exists and is accessible.`);
         } else if (errorCode === 'EACCES') {
           throw new Error(`Permission denied when accessing: ${filePath}. Please check file permissions.`);
@@ -98,25 +82,17 @@ async function handleDirectoryResource(
   dirPath: string
 ): Promise<ResourceResponse> {
   try {
-    const files = await fs.readdir(dirPath);
-    const formattedFiles = await Promise.all(
-      files.map(async (file) => {
-        const fullPath = path.join(dirPath, file);
-        try {
-          const stats = await fs.stat(fullPath);
-          return `${stats.isDirectory() ? "D" : "F"} ${file}`;
-        } catch (e) {
-          return `? ${file}`;
-        }
-      })
-    );
+    const tree = await treeUtils.buildDirectoryTree(dirPath, {
+      maxDepth: 1,
+      respectGitignore: false,
+    });
 
     return {
       contents: [
         {
           uri: uri.href,
-          text: `Directory: ${dirPath}\n\nContents:\n${formattedFiles.join(
-            "\n"
+          text: `Directory: ${dirPath}\n\n${treeUtils.formatDirectoryTree(
+            tree
           )}`,
           mimeType: "text/plain",
         },
@@ -9,7 +9,7 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import path from "path";
 import fs from "fs/promises";
 import { ResourceResponse } from "../types/index.js";
-import { process as processUtils, logger } from "../utils/index.js";
+import { process as processUtils, logger, pathPolicy } from "../utils/index.js";
 
 /**
  * Register the project resource with the MCP server
@@ -23,19 +23,26 @@ export function registerProjectResource(server: McpServer): void {
     new ResourceTemplate("project://{path}", { list: undefined }),
     async (
       uri: URL,
-      variables: { [key: string]: string | string[] }
+      variables: { [key: string]: string | string[] },
+      extra
     ): Promise<ResourceResponse> => {
-      const projectPath = Array.isArray(variables.path)
+      let projectPath = Array.isArray(variables.path)
         ? variables.path[0]
         : variables.path;
       try {
+        projectPath = await pathPolicy.resolvePath(projectPath, {
+          sessionId: extra.sessionId,
+        });
         logger.debug(`Analyzing project structure at: ${projectPath}`);
 
         // Ensure the path exists
         await fs.stat(projectPath);
 
         // Get project structure
-        const projectStructure = await getProjectStructure(projectPath);
+        const projectStructure = await getProjectStructure(
+          projectPath,
+          extra.signal
+        );
 
         // Get package.json if it exists
         const packageInfo = await getPackageInfo(projectPath);
@@ -64,9 +71,13 @@ export function registerProjectResource(server: McpServer): void {
 /**
  * Get the project structure using the find command
  * @param {string} projectPath - Path to the project
+ * @param {AbortSignal} [signal] - Cancels the listing
  * @returns {Promise<string>} Project structure as a string
  */
-async function getProjectStructure(projectPath: string): Promise<string> {
+async function getProjectStructure(
+  projectPath: string,
+  signal?: AbortSignal
+): Promise<string> {
   try {
     const { stdout } = await processUtils.runProcess(
       "find",
@@ -81,7 +92,7 @@ async function getProjectStructure(projectPath: string): Promise<string> {
         "-path",
         "*/.git/*",
       ],
-      { allowNonZeroExitCode: true }
+      { allowNonZeroExitCode: true, signal }
     );
 
     return stdout;
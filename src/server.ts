@@ -6,6 +6,7 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RootsListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
 
@@ -14,7 +15,7 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Import modules
-import { logger } from "./utils/index.js";
+import { changeSet, jobs, logger, pathPolicy } from "./utils/index.js";
 import { registerTools } from "./tools/index.js";
 import { registerAllResources } from "./resources/index.js";
 import { registerPrompts } from "./prompts/index.js";
@@ -25,24 +26,78 @@ import { registerPrompts } from "./prompts/index.js";
  */
 export async function createServer(): Promise<McpServer> {
   // Create an MCP server
-  const server = new McpServer({
-    name: "CodeTools",
-    version: "1.0.0",
-    capabilities: {
-      tools: { listChanged: true },
-      resources: { listChanged: true },
-      prompts: { listChanged: true },
+  const server = new McpServer(
+    {
+      name: "CodeTools",
+      version: "1.0.0",
     },
-  });
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: { listChanged: true },
+      },
+    }
+  );
 
   // Register all modules
   registerTools(server);
   registerAllResources(server);
   registerPrompts(server);
+  registerClientRoots(server);
 
   return server;
 }
 
+/**
+ * Use the client's workspace roots as the sandbox for this session.
+ * Roots are requested once the client has initialized and refreshed
+ * whenever the client reports that they changed. The session's roots,
+ * any open change set and its background jobs are dropped when the session
+ * closes.
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerClientRoots(server: McpServer): void {
+  let sessionId: string | undefined;
+
+  const refreshRoots = async (): Promise<void> => {
+    if (!server.server.getClientCapabilities()?.roots) {
+      logger.debug("Client does not support roots, using configured roots");
+      return;
+    }
+
+    try {
+      const { roots } = await server.server.listRoots();
+      const rootPaths = roots
+        .filter((root) => root.uri.startsWith("file://"))
+        .map((root) => fileURLToPath(root.uri));
+      pathPolicy.setClientRoots(sessionId, rootPaths);
+    } catch (error) {
+      const err = error as Error;
+      logger.warn("Failed to list client roots, using configured roots", {
+        error: err.message,
+      });
+    }
+  };
+
+  server.server.oninitialized = () => {
+    sessionId = server.server.transport?.sessionId;
+    void refreshRoots();
+  };
+
+  server.server.setNotificationHandler(
+    RootsListChangedNotificationSchema,
+    refreshRoots
+  );
+
+  server.server.onclose = () => {
+    pathPolicy.clearClientRoots(sessionId);
+    pathPolicy.setSandboxRoot(sessionId);
+    changeSet.clearChangeSet(sessionId);
+    void jobs.stopSessionJobs(sessionId);
+  };
+}
+
 /**
  * Start the MCP server with stdio transport
  * @returns {Promise<void>}
@@ -59,9 +114,17 @@ export async function startServer(): Promise<void> {
 
     logger.info("Server connected and ready");
 
-    // Keep server running until transport closes
+    // Keep server running until transport closes. The server's own close
+    // handler is kept so session cleanup still runs.
     await new Promise<void>((resolve) => {
-      transport.onclose = () => resolve();
+      const onclose = transport.onclose;
+      transport.onclose = () => {
+        onclose?.();
+        resolve();
+      };
+      // The stdio transport does not notice the client going away, and
+      // background jobs would otherwise keep the process alive
+      process.stdin.once("end", () => void server.close());
     });
 
     logger.info("Transport closed, shutting down server");
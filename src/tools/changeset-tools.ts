@@ -0,0 +1,207 @@
+/**
+ * Change Set Tools
+ *
+ * Tools for grouping file changes into a transaction:
+ * - begin_changeset stages later writes instead of writing them to disk
+ * - preview_changeset shows the combined diff of everything staged
+ * - commit_changeset writes everything, rollback_changeset discards it
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolResponse } from "../types/index.js";
+import { changeSet as changeSetUtils, logger } from "../utils/index.js";
+
+// Tools whose writes are staged while a change set is active
+const STAGED_TOOLS = [
+  "update_file",
+  "edit_file",
+  "apply_patch",
+  "move_file",
+  "copy_file",
+  "create_directory",
+];
+
+/**
+ * Register the change set tools
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerChangeSetTools(server: McpServer): void {
+  logger.info("Registering change set tools");
+
+  registerBeginChangeSetTool(server);
+  registerPreviewChangeSetTool(server);
+  registerCommitChangeSetTool(server);
+  registerRollbackChangeSetTool(server);
+}
+
+/**
+ * Build the error response used when a change set operation fails
+ * @param {string} action - What was being attempted
+ * @param {unknown} error - The error
+ * @returns {ToolResponse} The error response
+ */
+function changeSetErrorResponse(action: string, error: unknown): ToolResponse {
+  const err = error as Error;
+  logger.error(`Error trying to ${action}:`, { error: err.message });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error trying to ${action}: ${err.message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Register the begin_changeset tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerBeginChangeSetTool(server: McpServer): void {
+  server.tool(
+    "begin_changeset",
+    `Tool to start a change set. Until it is committed or rolled back, writes from ${STAGED_TOOLS.join(
+      ", "
+    )} are staged instead of written to disk, and those tools see the staged content`,
+    {
+      description: z
+        .string()
+        .optional()
+        .describe("What the changes are for, shown in previews."),
+    },
+    async ({ description }, extra): Promise<ToolResponse> => {
+      try {
+        const changeSet = changeSetUtils.beginChangeSet(
+          extra.sessionId,
+          description
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Started change set ${changeSet.id}. Writes are staged until commit_changeset or rollback_changeset.`,
+            },
+          ],
+          isError: false,
+          _meta: { changeSet },
+        };
+      } catch (error) {
+        return changeSetErrorResponse("begin change set", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the preview_changeset tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerPreviewChangeSetTool(server: McpServer): void {
+  server.tool(
+    "preview_changeset",
+    "Tool to show the files changed by the active change set and a combined unified diff against the files on disk",
+    {},
+    async (_args, extra): Promise<ToolResponse> => {
+      try {
+        const preview = await changeSetUtils.previewChangeSet(extra.sessionId);
+        const { changeSet, files } = preview;
+        const title = `Change set ${changeSet.id}${
+          changeSet.description ? ` (${changeSet.description})` : ""
+        }`;
+
+        if (files.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${title} has no changes.`,
+              },
+            ],
+            isError: false,
+            _meta: { changeSet, files },
+          };
+        }
+
+        const summary = files
+          .map((file) => `${file.status.padEnd(9)} ${file.path}`)
+          .join("\n");
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${title}: ${files.length} path(s) changed\n\n${summary}\n\n${preview.diff}`,
+            },
+          ],
+          isError: false,
+          _meta: { changeSet, files },
+        };
+      } catch (error) {
+        return changeSetErrorResponse("preview change set", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the commit_changeset tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerCommitChangeSetTool(server: McpServer): void {
+  server.tool(
+    "commit_changeset",
+    "Tool to write every change staged in the active change set to disk. If any write fails, files already written are restored and the change set stays open",
+    {},
+    async (_args, extra): Promise<ToolResponse> => {
+      try {
+        const changeSet = await changeSetUtils.commitChangeSet(extra.sessionId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Committed change set ${changeSet.id}: ${changeSet.changes} change(s) written`,
+            },
+          ],
+          isError: false,
+          _meta: { changeSet },
+        };
+      } catch (error) {
+        return changeSetErrorResponse("commit change set", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the rollback_changeset tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerRollbackChangeSetTool(server: McpServer): void {
+  server.tool(
+    "rollback_changeset",
+    "Tool to discard every change staged in the active change set. Nothing on disk is modified",
+    {},
+    async (_args, extra): Promise<ToolResponse> => {
+      try {
+        const changeSet = changeSetUtils.rollbackChangeSet(extra.sessionId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Rolled back change set ${changeSet.id}: ${changeSet.changes} staged change(s) discarded`,
+            },
+          ],
+          isError: false,
+          _meta: { changeSet },
+        };
+      } catch (error) {
+        return changeSetErrorResponse("roll back change set", error);
+      }
+    }
+  );
+}
+
+export default {
+  registerChangeSetTools,
+};
@@ -11,8 +11,14 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import path from "path";
 import fs from "fs/promises";
-import { ToolResponse } from "../types/index.js";
-import { process as processUtils, logger } from "../utils/index.js";
+import { ProcessOptions, ToolResponse } from "../types/index.js";
+import {
+  process as processUtils,
+  progress as progressUtils,
+  logger,
+  pathPolicy,
+  commandPolicy,
+} from "../utils/index.js";
 
 /**
  * Register the code analysis tool
@@ -37,11 +43,21 @@ export function registerCodeAnalysisTool(server: McpServer): void {
         .default("text")
         .describe("Output format"),
     },
-    async ({ path: codePath, type, format }, _extra): Promise<ToolResponse> => {
+    async ({ path: codePath, type, format }, extra): Promise<ToolResponse> => {
+      // Output of the analysis commands is streamed as progress if the client asked
+      const progress = progressUtils.createOutputProgress(extra);
+      const processOptions: ProcessOptions = {
+        signal: extra.signal,
+        onOutput: progress?.onOutput,
+      };
       try {
+        const targetPath = await pathPolicy.resolvePath(codePath, {
+          sessionId: extra.sessionId,
+        });
+
         // Check if path exists
         try {
-          await fs.access(codePath);
+          await fs.access(targetPath);
         } catch (error) {
           return {
             content: [
@@ -55,7 +71,7 @@ export function registerCodeAnalysisTool(server: McpServer): void {
         }
 
         // Get file stats to determine if it's a file or directory
-        const stats = await fs.stat(codePath);
+        const stats = await fs.stat(targetPath);
         const isDirectory = stats.isDirectory();
 
         // Analyze based on the type
@@ -63,15 +79,30 @@ export function registerCodeAnalysisTool(server: McpServer): void {
 
         switch (type) {
           case "complexity":
-            result = await analyzeComplexity(codePath, isDirectory, format);
+            result = await analyzeComplexity(
+              targetPath,
+              isDirectory,
+              format,
+              processOptions
+            );
             break;
 
           case "dependencies":
-            result = await analyzeDependencies(codePath, isDirectory, format);
+            result = await analyzeDependencies(
+              targetPath,
+              isDirectory,
+              format,
+              processOptions
+            );
             break;
 
           case "patterns":
-            result = await analyzePatterns(codePath, isDirectory, format);
+            result = await analyzePatterns(
+              targetPath,
+              isDirectory,
+              format,
+              processOptions
+            );
             break;
 
           default:
@@ -97,6 +128,12 @@ export function registerCodeAnalysisTool(server: McpServer): void {
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (commandPolicy.isCommandPolicyError(error)) {
+          return commandPolicy.commandPolicyErrorResponse(error);
+        }
         const err = error as Error;
         logger.error(`Error analyzing '${codePath}':`, {
           error: err.message,
@@ -110,6 +147,8 @@ export function registerCodeAnalysisTool(server: McpServer): void {
           ],
           isError: true,
         };
+      } finally {
+        await progress?.finish();
       }
     }
   );
@@ -120,12 +159,14 @@ export function registerCodeAnalysisTool(server: McpServer): void {
  * @param {string} codePath - Path to the code file or directory
  * @param {boolean} isDirectory - Whether the path is a directory
  * @param {string} format - Output format
+ * @param {ProcessOptions} [processOptions] - Cancellation and output options for the commands run
  * @returns {Promise<string>} - Analysis result
  */
 async function analyzeComplexity(
   codePath: string,
   isDirectory: boolean,
-  format: string
+  format: string,
+  processOptions: ProcessOptions = {}
 ): Promise<string> {
   // Use eslint complexity plugin for analysis
   const args = [
@@ -139,6 +180,7 @@ async function analyzeComplexity(
   ];
 
   const result = await processUtils.runProcess("npx", args, {
+    ...processOptions,
     allowNonZeroExitCode: true,
   });
 
@@ -200,12 +242,14 @@ async function analyzeComplexity(
  * @param {string} codePath - Path to the code file or directory
  * @param {boolean} isDirectory - Whether the path is a directory
  * @param {string} format - Output format
+ * @param {ProcessOptions} [processOptions] - Cancellation and output options for the commands run
  * @returns {Promise<string>} - Analysis result
  */
 async function analyzeDependencies(
   codePath: string,
   isDirectory: boolean,
-  format: string
+  format: string,
+  processOptions: ProcessOptions = {}
 ): Promise<string> {
   // For a directory with package.json, use npm list
   if (isDirectory) {
@@ -216,6 +260,7 @@ async function analyzeDependencies(
       // Run npm list
       const result = await processUtils.runProcess("npm", ["list", "--json"], {
         cwd: codePath,
+        ...processOptions,
         allowNonZeroExitCode: true,
       });
 
@@ -233,11 +278,11 @@ async function analyzeDependencies(
       }
     } catch (error) {
       // No package.json, use static analysis
-      return analyzeImports(codePath, isDirectory, format);
+      return analyzeImports(codePath, isDirectory, format, processOptions);
     }
   } else {
     // For a single file, analyze imports
-    return analyzeImports(codePath, isDirectory, format);
+    return analyzeImports(codePath, isDirectory, format, processOptions);
   }
 }
 
@@ -246,12 +291,14 @@ async function analyzeDependencies(
  * @param {string} codePath - Path to the code file or directory
  * @param {boolean} isDirectory - Whether the path is a directory
  * @param {string} format - Output format
+ * @param {ProcessOptions} [processOptions] - Cancellation and output options for the commands run
  * @returns {Promise<string>} - Analysis result
  */
 async function analyzeImports(
   codePath: string,
   isDirectory: boolean,
-  format: string
+  format: string,
+  processOptions: ProcessOptions = {}
 ): Promise<string> {
   // Use grep to find import statements
   const pattern = "import|require";
@@ -261,6 +308,7 @@ async function analyzeImports(
     : ["-n", pattern, codePath];
 
   const result = await processUtils.runProcess("grep", args, {
+    ...processOptions,
     allowNonZeroExitCode: true,
   });
 
@@ -361,12 +409,14 @@ function formatDependencies(
  * @param {string} codePath - Path to the code file or directory
  * @param {boolean} isDirectory - Whether the path is a directory
  * @param {string} format - Output format
+ * @param {ProcessOptions} [processOptions] - Cancellation and output options for the commands run
  * @returns {Promise<string>} - Analysis result
  */
 async function analyzePatterns(
   codePath: string,
   isDirectory: boolean,
-  format: string
+  format: string,
+  processOptions: ProcessOptions = {}
 ): Promise<string> {
   // Define patterns to look for
   const patterns = [
@@ -395,6 +445,7 @@ async function analyzePatterns(
         : ["-l", pattern, codePath];
 
       const result = await processUtils.runProcess("grep", args, {
+        ...processOptions,
         allowNonZeroExitCode: true,
       });
 
@@ -0,0 +1,717 @@
+/**
+ * Code Intelligence Tools
+ *
+ * Symbol-aware tools for TypeScript and JavaScript, answered by the
+ * compiler's language service for the file's project rather than by
+ * searching text:
+ * - code_outline lists a file's classes, functions, interfaces, types,
+ *   variables and members with their line spans and exports
+ * - go_to_definition finds where the symbol at a position is declared
+ * - find_references finds every use of a symbol across the project
+ * - hover_type shows a symbol's type, signature and documentation
+ * - rename_symbol renames a symbol everywhere the project uses it
+ * - move_symbol_to_file moves a top-level declaration to another file and
+ *   rewrites the imports that use it
+ *
+ * Positions are a 1-based line plus a column or the symbol's name on that
+ * line. Files changed through the write tools are picked up right away.
+ * Refactorings return their edits as a diff; unless dryRun is set, the user
+ * confirms the diff and they are written like any other multi-file change,
+ * all or nothing, or staged in the active change set.
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import path from "path";
+import * as Diff from "diff";
+import {
+  CodeEditSet,
+  CodeLocation,
+  CodeOutlineItem,
+  StagedChange,
+  ToolExtra,
+  ToolResponse,
+} from "../types/index.js";
+import {
+  languageService as languageServiceUtils,
+  changeSet as changeSetUtils,
+  confirmation as confirmationUtils,
+  file as fileUtils,
+  logger,
+  pathPolicy,
+} from "../utils/index.js";
+
+/**
+ * Parameters shared by the code intelligence tools
+ */
+const fileSchema = z
+  .string()
+  .describe(
+    "Path to a TypeScript or JavaScript file (.ts, .tsx, .js, .jsx, .mts, .cts, .mjs, .cjs)."
+  );
+
+const positionSchema = {
+  line: z.number().int().min(1).describe("Line of the symbol, from 1."),
+  column: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Column of the symbol on the line, from 1."),
+  symbol: z
+    .string()
+    .optional()
+    .describe(
+      "Name of the symbol, used instead of column: its first whole-word occurrence on the line."
+    ),
+};
+
+const dryRunSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("Return the diff without writing files.");
+
+const formatSchema = z
+  .enum(["text", "json"])
+  .optional()
+  .default("text")
+  .describe(
+    "Return a readable summary or a JSON document. The structured result is always in _meta."
+  );
+
+/**
+ * Register the code intelligence tools
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerCodeIntelligenceTools(server: McpServer): void {
+  logger.info("Registering code intelligence tools");
+
+  registerCodeOutlineTool(server);
+  registerGoToDefinitionTool(server);
+  registerFindReferencesTool(server);
+  registerHoverTypeTool(server);
+  registerRenameSymbolTool(server);
+  registerMoveSymbolToFileTool(server);
+}
+
+/**
+ * Build the error response used when a code intelligence tool fails
+ * @param {string} action - What was being attempted
+ * @param {unknown} error - The error
+ * @returns {ToolResponse} The error response
+ */
+function codeErrorResponse(action: string, error: unknown): ToolResponse {
+  if (pathPolicy.isPathPolicyError(error)) {
+    return pathPolicy.pathPolicyErrorResponse(error);
+  }
+  if (fileUtils.isWriteConflictError(error)) {
+    return fileUtils.writeConflictErrorResponse(error);
+  }
+  if (confirmationUtils.isConfirmationDeclinedError(error)) {
+    return confirmationUtils.confirmationDeclinedResponse(error);
+  }
+  const err = error as Error;
+  logger.error(`Error trying to ${action}:`, { error: err.message });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error trying to ${action}: ${err.message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Build the response of a code intelligence tool
+ * @param {"text"|"json"} format - The requested format
+ * @param {string} summary - The readable summary
+ * @param {object} result - The structured result
+ * @returns {ToolResponse} The response
+ */
+function codeResponse(
+  format: "text" | "json",
+  summary: string,
+  result: object
+): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text: format === "json" ? JSON.stringify(result, null, 2) : summary,
+      },
+    ],
+    isError: false,
+    _meta: { ...result },
+  };
+}
+
+/**
+ * Make paths readable for the session: relative to its first workspace
+ * root, absolute elsewhere. Locations outside its roots, such as
+ * declarations in a package of another directory, lose their source text.
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @returns {Promise<{formatPath: Function, formatLocation: Function}>} Functions that rewrite a path and a location
+ */
+async function createFormatters(extra: ToolExtra): Promise<{
+  formatPath: (filePath: string) => string;
+  formatLocation: <T extends CodeLocation>(location: T) => T;
+}> {
+  const roots = await pathPolicy.getResolvedRoots(extra.sessionId);
+  const formatPath = (filePath: string): string =>
+    roots[0] && pathPolicy.isWithin(roots[0], filePath)
+      ? path.relative(roots[0], filePath) || "."
+      : filePath;
+  const formatLocation = <T extends CodeLocation>(location: T): T => {
+    if (roots.some((root) => pathPolicy.isWithin(root, location.path))) {
+      return { ...location, path: formatPath(location.path) };
+    }
+    const { text: _text, ...rest } = location;
+    return rest as T;
+  };
+  return { formatPath, formatLocation };
+}
+
+/**
+ * Describe a location in one line
+ * @param {CodeLocation} location - The location
+ * @returns {string} The description, with the source line if known
+ */
+function describeLocation(location: CodeLocation): string {
+  const place = `${location.path}:${location.line}:${location.column}`;
+  return location.text ? `${place}  ${location.text}` : place;
+}
+
+/**
+ * Describe outline items as an indented list
+ * @param {CodeOutlineItem[]} items - The items
+ * @param {string} [indent] - Indent of this level
+ * @returns {string[]} One line per item
+ */
+function describeOutline(items: CodeOutlineItem[], indent = ""): string[] {
+  return items.flatMap((item) => {
+    const modifiers = item.modifiers.filter(
+      (modifier) => modifier !== "export"
+    );
+    const lines =
+      item.startLine === item.endLine
+        ? `line ${item.startLine}`
+        : `lines ${item.startLine}-${item.endLine}`;
+    return [
+      `${indent}${item.exported ? "export " : ""}${[...modifiers, item.kind]
+        .join(" ")
+        .trim()} ${item.name} (${lines})`,
+      ...describeOutline(item.children, `${indent}  `),
+    ];
+  });
+}
+
+/**
+ * Check an edit set against the files as the session sees them, and write
+ * it or stage it in the session's change set. Every file must be inside
+ * the workspace and still hold the text the edits were computed from.
+ * Edits to existing files are written only once the user confirms the
+ * combined diff.
+ * @param {McpServer} server - The MCP server instance
+ * @param {string} title - What to confirm
+ * @param {CodeEditSet} editSet - The edits
+ * @param {boolean} dryRun - Only build the diff
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @returns {Promise<{files: object[], diff: string, staged: boolean}>} The files, their combined diff, and whether they were staged
+ */
+async function applyEditSet(
+  server: McpServer,
+  title: string,
+  editSet: CodeEditSet,
+  dryRun: boolean,
+  extra: ToolExtra
+): Promise<{
+  files: { path: string; created: boolean; changes: number }[];
+  diff: string;
+  staged: boolean;
+}> {
+  const { formatPath } = await createFormatters(extra);
+  const changes = new Map<string, StagedChange>();
+  const diffs: string[] = [];
+
+  for (const edit of editSet.files) {
+    const filePath = await pathPolicy.resolvePath(edit.path, {
+      sessionId: extra.sessionId,
+    });
+    const name = formatPath(edit.path);
+
+    if (edit.isNewFile) {
+      if (await changeSetUtils.pathExists(filePath, extra.sessionId)) {
+        throw new Error(`${name} already exists`);
+      }
+      changes.set(filePath, {
+        type: "file",
+        content: fileUtils.encodeText(edit.content, "utf8"),
+      });
+    } else {
+      // The language service reads files from disk, not the change set
+      const current = await changeSetUtils.readFile(filePath, extra.sessionId);
+      const decoded = fileUtils.decodeContent(current);
+      if (decoded?.content !== edit.original) {
+        throw new Error(
+          changeSetUtils.getChangeSet(extra.sessionId)
+            ? `${name} has changes staged in the change set, which the language service does not see; commit or roll back the change set first`
+            : `${name} changed while the edits were computed; try again`
+        );
+      }
+      changes.set(filePath, {
+        type: "file",
+        content: fileUtils.encodeText(
+          edit.content,
+          decoded.encoding,
+          decoded.hasBom
+        ),
+        precondition: { expectedHash: fileUtils.hashContent(current) },
+      });
+    }
+
+    // Drop jsdiff's Index and separator lines to match git's format
+    const patch = Diff.createTwoFilesPatch(
+      edit.isNewFile ? "/dev/null" : `a/${name}`,
+      `b/${name}`,
+      edit.original,
+      edit.content
+    ).replace(/^(Index: .*\n)?=+\n/, "");
+    diffs.push(
+      `diff --git a/${name} b/${name}\n${
+        edit.isNewFile ? "new file mode 100644\n" : ""
+      }${patch}`.trimEnd()
+    );
+  }
+
+  const diff = diffs.join("\n");
+  const edited = editSet.files.filter((edit) => !edit.isNewFile);
+  if (!dryRun && edited.length > 0) {
+    await confirmationUtils.requireConfirmation(server, extra, {
+      title,
+      summary: [
+        "Rewrites these files:",
+        ...edited.map((edit) => `  ${formatPath(edit.path)}`),
+      ].join("\n"),
+      details: diff,
+    });
+  }
+
+  const staged =
+    !dryRun && (await changeSetUtils.applyChanges(changes, extra.sessionId));
+  return {
+    files: editSet.files.map((edit) => ({
+      path: formatPath(edit.path),
+      created: edit.isNewFile,
+      changes: edit.changes,
+    })),
+    diff,
+    staged,
+  };
+}
+
+/**
+ * Describe what a refactoring did
+ * @param {boolean} dryRun - Whether files were written
+ * @param {boolean} staged - Whether the edits went into the change set
+ * @returns {string} The verb for the summary
+ */
+function describeAction(dryRun: boolean, staged: boolean): string {
+  if (dryRun) {
+    return "Dry run: would change";
+  }
+  return staged ? "Staged changes to" : "Changed";
+}
+
+/**
+ * Register the code_outline tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerCodeOutlineTool(server: McpServer): void {
+  server.tool(
+    "code_outline",
+    "Tool to outline a TypeScript or JavaScript file: its classes, functions, interfaces, types, enums, variables and their members, with line spans and which ones the module exports",
+    {
+      path: fileSchema,
+      format: formatSchema,
+    },
+    async ({ path: filePath, format }, extra): Promise<ToolResponse> => {
+      try {
+        const resolved = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const { formatPath } = await createFormatters(extra);
+        const outline = await languageServiceUtils.getOutline(resolved);
+        const result = {
+          ...outline,
+          path: formatPath(outline.path),
+          project: formatPath(outline.project),
+        };
+
+        const lines = describeOutline(outline.items);
+        return codeResponse(
+          format,
+          `${result.path} (project ${result.project})\n${
+            outline.exports.length > 0
+              ? `Exports: ${outline.exports.join(", ")}`
+              : "No exports."
+          }\n\n${lines.length > 0 ? lines.join("\n") : "No declarations."}`,
+          result
+        );
+      } catch (error) {
+        return codeErrorResponse("outline code", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the go_to_definition tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGoToDefinitionTool(server: McpServer): void {
+  server.tool(
+    "go_to_definition",
+    "Tool to find where the symbol at a position in a TypeScript or JavaScript file is declared, following imports into other files and packages",
+    {
+      path: fileSchema,
+      ...positionSchema,
+      format: formatSchema,
+    },
+    async (
+      { path: filePath, line, column, symbol, format },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const position = { line, column, symbol };
+        const resolved = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const { formatLocation } = await createFormatters(extra);
+        const definitions = (
+          await languageServiceUtils.getDefinitions(resolved, position)
+        ).map(formatLocation);
+
+        return codeResponse(
+          format,
+          definitions.length > 0
+            ? definitions
+                .map(
+                  (definition) =>
+                    `${definition.kind} ${definition.name}: ${describeLocation(
+                      definition
+                    )}`
+                )
+                .join("\n")
+            : "No definition found.",
+          { definitions }
+        );
+      } catch (error) {
+        return codeErrorResponse("go to definition", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the find_references tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerFindReferencesTool(server: McpServer): void {
+  server.tool(
+    "find_references",
+    "Tool to find every reference to the symbol at a position in a TypeScript or JavaScript file, across its project, including through imports and re-exports",
+    {
+      path: fileSchema,
+      ...positionSchema,
+      includeDeclaration: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Include the declarations and imports of the symbol."),
+      maxResults: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(200)
+        .describe("Maximum number of references to return."),
+      format: formatSchema,
+    },
+    async (
+      {
+        path: filePath,
+        line,
+        column,
+        symbol,
+        includeDeclaration,
+        maxResults,
+        format,
+      },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const position = { line, column, symbol };
+        const resolved = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const { formatLocation } = await createFormatters(extra);
+        const found = await languageServiceUtils.findReferences(
+          resolved,
+          position,
+          { includeDeclaration, maxResults }
+        );
+        const result = {
+          ...found,
+          references: found.references.map(formatLocation),
+        };
+
+        const files = new Set(result.references.map((entry) => entry.path));
+        return codeResponse(
+          format,
+          result.total > 0
+            ? `${result.total} reference(s) to ${result.symbol} in ${
+                files.size
+              } file(s)${
+                result.truncated
+                  ? `, showing the first ${result.references.length}`
+                  : ""
+              }:\n${result.references
+                .map(
+                  (entry) =>
+                    `${describeLocation(entry)}${
+                      entry.isDefinition
+                        ? " [declaration]"
+                        : entry.isWriteAccess
+                        ? " [write]"
+                        : ""
+                    }`
+                )
+                .join("\n")}`
+            : "No references found.",
+          result
+        );
+      } catch (error) {
+        return codeErrorResponse("find references", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the hover_type tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerHoverTypeTool(server: McpServer): void {
+  server.tool(
+    "hover_type",
+    "Tool to show the type, signature and documentation of the symbol at a position in a TypeScript or JavaScript file, as an editor shows them on hover",
+    {
+      path: fileSchema,
+      ...positionSchema,
+      format: formatSchema,
+    },
+    async (
+      { path: filePath, line, column, symbol, format },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const position = { line, column, symbol };
+        const resolved = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const { formatLocation } = await createFormatters(extra);
+        const info = await languageServiceUtils.getHoverInfo(
+          resolved,
+          position
+        );
+        if (!info) {
+          return codeResponse(format, "No symbol at this position.", {
+            info: null,
+          });
+        }
+        const result = { ...info, location: formatLocation(info.location) };
+
+        const tags = result.tags.map(
+          (tag) => `@${tag.name}${tag.text ? ` ${tag.text}` : ""}`
+        );
+        return codeResponse(
+          format,
+          [result.signature, result.documentation, tags.join("\n")]
+            .filter(Boolean)
+            .join("\n\n"),
+          result
+        );
+      } catch (error) {
+        return codeErrorResponse("show type information", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the rename_symbol tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerRenameSymbolTool(server: McpServer): void {
+  server.tool(
+    "rename_symbol",
+    "Tool to rename the symbol at a position in a TypeScript or JavaScript file everywhere its project uses it, including imports, re-exports and shorthand properties, and return the diff. Asks the user to confirm the diff, then writes all files or none; use dryRun or a change set to preview",
+    {
+      path: fileSchema,
+      ...positionSchema,
+      newName: z.string().min(1).describe("The new name of the symbol."),
+      findInStrings: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also rename matching text in string literals."),
+      findInComments: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also rename matching text in comments."),
+      dryRun: dryRunSchema,
+      format: formatSchema,
+    },
+    async (
+      {
+        path: filePath,
+        line,
+        column,
+        symbol,
+        newName,
+        findInStrings,
+        findInComments,
+        dryRun,
+        format,
+      },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const resolved = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const editSet = await languageServiceUtils.getRenameEdits(
+          resolved,
+          { line, column, symbol },
+          newName,
+          { findInStrings, findInComments }
+        );
+        const applied = await applyEditSet(
+          server,
+          `Rename ${editSet.symbol} to ${newName}`,
+          editSet,
+          dryRun,
+          extra
+        );
+        const result = {
+          symbol: editSet.symbol,
+          newName,
+          dryRun,
+          ...applied,
+        };
+        if (!dryRun) {
+          logger.info(`Renamed ${editSet.symbol} to ${newName}`, {
+            files: applied.files.length,
+            staged: applied.staged,
+          });
+        }
+
+        const references = applied.files.reduce(
+          (sum, file) => sum + file.changes,
+          0
+        );
+        return codeResponse(
+          format,
+          `${describeAction(dryRun, applied.staged)} ${
+            applied.files.length
+          } file(s) to rename ${
+            editSet.symbol
+          } to ${newName} (${references} reference(s))\n\n${applied.diff}`,
+          result
+        );
+      } catch (error) {
+        return codeErrorResponse("rename symbol", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the move_symbol_to_file tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerMoveSymbolToFileTool(server: McpServer): void {
+  server.tool(
+    "move_symbol_to_file",
+    "Tool to move a top-level declaration (function, class, interface, type, enum or variable) of a TypeScript or JavaScript file to another file, new or existing, adding the imports it needs and rewriting the imports of every file that uses it, and return the diff. Asks the user to confirm the diff, then writes all files or none; use dryRun or a change set to preview",
+    {
+      path: fileSchema,
+      ...positionSchema,
+      targetFile: z
+        .string()
+        .describe(
+          "File to move the declaration to. Created if it does not exist."
+        ),
+      dryRun: dryRunSchema,
+      format: formatSchema,
+    },
+    async (
+      { path: filePath, line, column, symbol, targetFile, dryRun, format },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const resolved = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const target = await pathPolicy.resolvePath(targetFile, {
+          sessionId: extra.sessionId,
+        });
+        const editSet = await languageServiceUtils.getMoveToFileEdits(
+          resolved,
+          { line, column, symbol },
+          target
+        );
+        const applied = await applyEditSet(
+          server,
+          `Move ${editSet.symbol} to ${targetFile}`,
+          editSet,
+          dryRun,
+          extra
+        );
+        const { formatPath } = await createFormatters(extra);
+        const result = {
+          symbol: editSet.symbol,
+          targetFile: formatPath(target),
+          dryRun,
+          ...applied,
+        };
+        if (!dryRun) {
+          logger.info(`Moved ${editSet.symbol} to ${target}`, {
+            files: applied.files.length,
+            staged: applied.staged,
+          });
+        }
+
+        return codeResponse(
+          format,
+          `${describeAction(dryRun, applied.staged)} ${
+            applied.files.length
+          } file(s) to move ${editSet.symbol} to ${result.targetFile}\n\n${
+            applied.diff
+          }`,
+          result
+        );
+      } catch (error) {
+        return codeErrorResponse("move symbol", error);
+      }
+    }
+  );
+}
+
+export default {
+  registerCodeIntelligenceTools,
+};
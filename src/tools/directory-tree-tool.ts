@@ -0,0 +1,125 @@
+/**
+ * Directory Tree Tool
+ *
+ * Tool for viewing the structure of a directory:
+ * - Depth-limited tree with permissions, sizes, mtimes and symlink targets
+ * - File and directory counts for every directory
+ * - `.gitignore` rules honoured, and very large directories truncated
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolResponse } from "../types/index.js";
+import { logger, pathPolicy, tree as treeUtils } from "../utils/index.js";
+
+/**
+ * Register the directory_tree tool
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerDirectoryTreeTool(server: McpServer): void {
+  logger.info("Registering directory tree tool");
+
+  server.tool(
+    "directory_tree",
+    "Tool to show a directory as a depth-limited tree, as text or JSON, with permissions, sizes, mtimes, symlink targets and per-directory file counts. Honours .gitignore and skips .git and node_modules",
+    {
+      path: z
+        .string()
+        .optional()
+        .default(".")
+        .describe("Directory to show. Defaults to the workspace."),
+      maxDepth: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .optional()
+        .default(3)
+        .describe("How many levels to expand."),
+      respectGitignore: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Skip paths ignored by .gitignore files, plus .git and node_modules."
+        ),
+      exclude: z
+        .array(z.string())
+        .optional()
+        .describe("Skip files and directories matching one of these globs."),
+      maxEntriesPerDirectory: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(200)
+        .describe(
+          "Entries shown per directory before the rest are summarized."
+        ),
+      details: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Show permissions, sizes and mtimes in the text output. JSON always includes them."
+        ),
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .default("text")
+        .describe("Return a rendered tree or a JSON document."),
+    },
+    async (
+      { path: dirPath, details, format, ...options },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const targetPath = await pathPolicy.resolvePath(dirPath, {
+          sessionId: extra.sessionId,
+        });
+        const root = await treeUtils.buildDirectoryTree(targetPath, options);
+        if (root.files === undefined) {
+          throw new Error(`Path is not a directory: ${dirPath}`);
+        }
+        logger.debug(`Built directory tree of ${dirPath}`, {
+          maxDepth: options.maxDepth,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                format === "json"
+                  ? JSON.stringify(root, null, 2)
+                  : treeUtils.formatDirectoryTree(root, details),
+            },
+          ],
+          isError: false,
+          _meta: { tree: root },
+        };
+      } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        const err = error as Error;
+        logger.error(`Error building directory tree of '${dirPath}':`, {
+          error: err.message,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error building directory tree: ${err.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+export default {
+  registerDirectoryTreeTool,
+};
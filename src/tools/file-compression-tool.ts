@@ -12,9 +12,13 @@ import path from "path";
 import fs from "fs/promises";
 import { ToolResponse } from "../types/index.js";
 import {
+  changeSet as changeSetUtils,
   file as fileUtils,
   process as processUtils,
+  progress as progressUtils,
   logger,
+  pathPolicy,
+  commandPolicy,
 } from "../utils/index.js";
 
 /**
@@ -41,12 +45,19 @@ export function registerFileCompressionTools(server: McpServer): void {
     },
     async (
       { source, destination, format, level },
-      _extra
+      extra
     ): Promise<ToolResponse> => {
       try {
+        const sourcePath = await pathPolicy.resolvePath(source, {
+          sessionId: extra.sessionId,
+        });
+        const destinationPath = await pathPolicy.resolvePath(destination, {
+          sessionId: extra.sessionId,
+        });
+
         // Check if source exists
         try {
-          await fs.access(source);
+          await fs.access(sourcePath);
         } catch (error) {
           return {
             content: [
@@ -60,23 +71,23 @@ export function registerFileCompressionTools(server: McpServer): void {
         }
 
         // Create parent directories for destination if needed
-        const destDir = path.dirname(destination);
+        const destDir = path.dirname(destinationPath);
         await fileUtils.ensureDirectory(destDir);
 
         // Construct the appropriate compression command
         let command: string;
         let args: string[];
 
-        const isSourceDir = (await fs.stat(source)).isDirectory();
+        const isSourceDir = (await fs.stat(sourcePath)).isDirectory();
 
         switch (format) {
           case "zip":
             command = "zip";
-            args = [`-${level}`, "-r", destination, path.basename(source)];
+            args = [`-${level}`, "-r", destinationPath, path.basename(sourcePath)];
             break;
           case "tar":
             command = "tar";
-            args = ["-cf", destination, path.basename(source)];
+            args = ["-cf", destinationPath, path.basename(sourcePath)];
             break;
           case "gzip":
             if (isSourceDir) {
@@ -91,7 +102,7 @@ export function registerFileCompressionTools(server: McpServer): void {
               };
             }
             command = "gzip";
-            args = [`-${level}`, "-c", source];
+            args = [`-${level}`, "-c", sourcePath];
             break;
           default:
             return {
@@ -106,13 +117,14 @@ export function registerFileCompressionTools(server: McpServer): void {
         }
 
         // Execute the compression command
-        const cwd = isSourceDir ? path.dirname(source) : undefined;
+        const cwd = isSourceDir ? path.dirname(sourcePath) : undefined;
 
         if (format === "gzip") {
           // For gzip, we need to redirect output to the destination file
           const result = await processUtils.runProcess(command, args, {
             cwd,
             allowNonZeroExitCode: true,
+            signal: extra.signal,
           });
 
           if (result.code !== 0) {
@@ -128,13 +140,23 @@ export function registerFileCompressionTools(server: McpServer): void {
           }
 
           // Write the stdout to the destination file
-          await fs.writeFile(destination, result.stdout, "binary");
+          await changeSetUtils.writeFile(
+            destinationPath,
+            Buffer.from(result.stdout, "binary"),
+            extra.sessionId
+          );
         } else {
-          // For zip and tar, the destination is specified in the command
-          const result = await processUtils.runProcess(command, args, {
-            cwd,
-            allowNonZeroExitCode: true,
-          });
+          // For zip and tar, the destination is specified in the command.
+          // Their output is streamed as progress if the client asked.
+          const progress = progressUtils.createOutputProgress(extra);
+          const result = await processUtils
+            .runProcess(command, args, {
+              cwd,
+              allowNonZeroExitCode: true,
+              signal: extra.signal,
+              onOutput: progress?.onOutput,
+            })
+            .finally(() => progress?.finish());
 
           if (result.code !== 0) {
             return {
@@ -163,6 +185,12 @@ export function registerFileCompressionTools(server: McpServer): void {
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (commandPolicy.isCommandPolicyError(error)) {
+          return commandPolicy.commandPolicyErrorResponse(error);
+        }
         const err = error as Error;
         logger.error(`Error compressing '${source}' to '${destination}':`, {
           error: err.message,
@@ -192,11 +220,18 @@ export function registerFileCompressionTools(server: McpServer): void {
           "Archive format (auto will attempt to detect from file extension)"
         ),
     },
-    async ({ source, destination, format }, _extra): Promise<ToolResponse> => {
+    async ({ source, destination, format }, extra): Promise<ToolResponse> => {
       try {
+        const sourcePath = await pathPolicy.resolvePath(source, {
+          sessionId: extra.sessionId,
+        });
+        const destinationPath = await pathPolicy.resolvePath(destination, {
+          sessionId: extra.sessionId,
+        });
+
         // Check if source exists
         try {
-          await fs.access(source);
+          await fs.access(sourcePath);
         } catch (error) {
           return {
             content: [
@@ -210,12 +245,12 @@ export function registerFileCompressionTools(server: McpServer): void {
         }
 
         // Create destination directory if it doesn't exist
-        await fileUtils.ensureDirectory(destination);
+        await fileUtils.ensureDirectory(destinationPath);
 
         // Detect format if set to auto
         let detectedFormat = format;
         if (format === "auto") {
-          const ext = path.extname(source).toLowerCase();
+          const ext = path.extname(sourcePath).toLowerCase();
           if (ext === ".zip") {
             detectedFormat = "zip";
           } else if (ext === ".tar" || ext === ".tar.gz" || ext === ".tgz") {
@@ -242,19 +277,19 @@ export function registerFileCompressionTools(server: McpServer): void {
         switch (detectedFormat) {
           case "zip":
             command = "unzip";
-            args = ["-o", source, "-d", destination];
+            args = ["-o", sourcePath, "-d", destinationPath];
             break;
           case "tar":
             command = "tar";
-            if (source.endsWith(".tar.gz") || source.endsWith(".tgz")) {
-              args = ["-xzf", source, "-C", destination];
+            if (sourcePath.endsWith(".tar.gz") || sourcePath.endsWith(".tgz")) {
+              args = ["-xzf", sourcePath, "-C", destinationPath];
             } else {
-              args = ["-xf", source, "-C", destination];
+              args = ["-xf", sourcePath, "-C", destinationPath];
             }
             break;
           case "gzip":
             command = "gunzip";
-            args = ["-c", source];
+            args = ["-c", sourcePath];
             break;
           default:
             return {
@@ -273,6 +308,7 @@ export function registerFileCompressionTools(server: McpServer): void {
           // For gzip, we need to redirect output to a file
           const result = await processUtils.runProcess(command, args, {
             allowNonZeroExitCode: true,
+            signal: extra.signal,
           });
 
           if (result.code !== 0) {
@@ -288,13 +324,18 @@ export function registerFileCompressionTools(server: McpServer): void {
           }
 
           // Write the stdout to the destination file
-          const baseFilename = path.basename(source, ".gz");
-          const destFile = path.join(destination, baseFilename);
-          await fs.writeFile(destFile, result.stdout, "binary");
+          const baseFilename = path.basename(sourcePath, ".gz");
+          const destFile = path.join(destinationPath, baseFilename);
+          await changeSetUtils.writeFile(
+            destFile,
+            Buffer.from(result.stdout, "binary"),
+            extra.sessionId
+          );
         } else {
           // For zip and tar, the destination is specified in the command
           const result = await processUtils.runProcess(command, args, {
             allowNonZeroExitCode: true,
+            signal: extra.signal,
           });
 
           if (result.code !== 0) {
@@ -322,6 +363,12 @@ export function registerFileCompressionTools(server: McpServer): void {
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (commandPolicy.isCommandPolicyError(error)) {
+          return commandPolicy.commandPolicyErrorResponse(error);
+        }
         const err = error as Error;
         logger.error(`Error extracting '${source}' to '${destination}':`, {
           error: err.message,
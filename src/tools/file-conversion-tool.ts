@@ -10,10 +10,13 @@
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import path from "path";
-import fs from "fs/promises";
 import { ToolResponse } from "../types/index.js";
-import { file as fileUtils, logger } from "../utils/index.js";
+import {
+  changeSet as changeSetUtils,
+  confirmation as confirmationUtils,
+  logger,
+  pathPolicy,
+} from "../utils/index.js";
 
 /**
  * Register the file conversion tool
@@ -30,35 +33,64 @@ export function registerFileConversionTool(server: McpServer): void {
         .enum(["json2yaml", "yaml2json", "md2html", "html2md"])
         .describe("Conversion format"),
     },
-    async ({ source, destination, format }, _extra): Promise<ToolResponse> => {
+    async ({ source, destination, format }, extra): Promise<ToolResponse> => {
       try {
-        // Create parent directories if needed
-        const dirPath = path.dirname(destination);
-        await fileUtils.ensureDirectory(dirPath);
+        const sourcePath = await pathPolicy.resolvePath(source, {
+          sessionId: extra.sessionId,
+        });
+        const destinationPath = await pathPolicy.resolvePath(destination, {
+          sessionId: extra.sessionId,
+        });
 
         // Read the source file
-        const content = await fs.readFile(source, "utf8");
+        const content = (
+          await changeSetUtils.readFile(sourcePath, extra.sessionId)
+        ).toString("utf8");
 
         // Convert the content
         const convertedContent = await convertContent(content, format);
 
-        // Write the destination file
-        await fs.writeFile(destination, convertedContent, "utf8");
+        // Write the destination file, creating parent directories if needed
+        await confirmationUtils.confirmOverwrites(
+          server,
+          extra,
+          `Overwrite ${destination}`,
+          new Map([
+            [
+              destinationPath,
+              { type: "file", content: Buffer.from(convertedContent) },
+            ],
+          ])
+        );
+        const staged = await changeSetUtils.writeFile(
+          destinationPath,
+          convertedContent,
+          extra.sessionId
+        );
 
         logger.info(
-          `Converted file from ${source} to ${destination} using ${format} format`
+          `Converted file from ${source} to ${destination} using ${format} format`,
+          { staged }
         );
 
         return {
           content: [
             {
               type: "text",
-              text: `Successfully converted file from ${source} to ${destination} using ${format} format`,
+              text: staged
+                ? `Staged conversion of ${source} to ${destination} using ${format} format in the active change set`
+                : `Successfully converted file from ${source} to ${destination} using ${format} format`,
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
         logger.error(
           `Error converting file from '${source}' to '${destination}':`,
@@ -9,7 +9,7 @@ import { ToolResponse } from "../types/index.js";
 import { z } from "zod";
 import * as fs from "fs/promises";
 import { createPatch, createTwoFilesPatch } from "diff";
-import { logger } from "../utils/index.js";
+import { logger, pathPolicy } from "../utils/index.js";
 
 /**
  * Register a tool for comparing differences between two files
@@ -30,11 +30,18 @@ export function registerFileDiffTool(server: McpServer): void {
         .default("unified")
         .describe("Diff format: unified or side-by-side"),
     },
-    async ({ fileA, fileB, format }): Promise<ToolResponse> => {
+    async ({ fileA, fileB, format }, extra): Promise<ToolResponse> => {
       try {
+        const pathA = await pathPolicy.resolvePath(fileA, {
+          sessionId: extra.sessionId,
+        });
+        const pathB = await pathPolicy.resolvePath(fileB, {
+          sessionId: extra.sessionId,
+        });
+
         // Read contents of both files
-        const contentA = await fs.readFile(fileA, "utf8");
-        const contentB = await fs.readFile(fileB, "utf8");
+        const contentA = await fs.readFile(pathA, "utf8");
+        const contentB = await fs.readFile(pathB, "utf8");
 
         // Generate appropriate diff format
         let diffResult: string;
@@ -72,6 +79,9 @@ export function registerFileDiffTool(server: McpServer): void {
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
         const err = error as Error;
         logger.error(`Error creating diff between '${fileA}' and '${fileB}':`, {
           error: err.message,
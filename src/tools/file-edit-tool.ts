@@ -0,0 +1,381 @@
+/**
+ * File Edit Tool
+ *
+ * Tool for editing files with exact search-and-replace blocks:
+ * - Each block must match exactly once, or name the occurrence to replace
+ * - All blocks are applied or none are
+ * - Failed blocks report the closest fuzzy match so the caller can retry
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as Diff from "diff";
+import { ToolResponse } from "../types/index.js";
+import {
+  changeSet as changeSetUtils,
+  confirmation as confirmationUtils,
+  file as fileUtils,
+  logger,
+  pathPolicy,
+} from "../utils/index.js";
+
+/**
+ * A single search-and-replace block
+ */
+interface EditBlock {
+  oldText: string;
+  newText: string;
+  occurrence?: number;
+}
+
+/**
+ * Closest fuzzy match for a block that did not match exactly
+ */
+interface FuzzyMatch {
+  startLine: number;
+  endLine: number;
+  similarity: number;
+  text: string;
+}
+
+/**
+ * Register the file edit tool
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerFileEditTool(server: McpServer): void {
+  logger.info("Registering file edit tool");
+
+  server.tool(
+    "edit_file",
+    "Tool to edit a file by replacing exact text blocks. Each oldText must match exactly once (or set occurrence), all edits are applied atomically, and a unified diff of the change is returned. The user is asked to confirm the diff before the file is written",
+    {
+      path: z.string().describe("Path to the file to edit."),
+      edits: z
+        .array(
+          z.object({
+            oldText: z
+              .string()
+              .min(1)
+              .describe("Exact text to replace, including whitespace."),
+            newText: z.string().describe("Replacement text."),
+            occurrence: z
+              .number()
+              .int()
+              .min(1)
+              .optional()
+              .describe(
+                "Which match to replace (1-based) when oldText appears more than once."
+              ),
+          })
+        )
+        .min(1)
+        .describe(
+          "Edits to apply in order. Each sees the result of the previous one."
+        ),
+      dryRun: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Return the diff without writing the file."),
+      expectedHash: z
+        .string()
+        .optional()
+        .describe(
+          "SHA-256 the file must still have, as reported by read_file. Otherwise the edit fails with a conflict."
+        ),
+      expectedMtime: z
+        .string()
+        .optional()
+        .describe(
+          "Modification time (ISO 8601) the file must still have, as reported by read_file."
+        ),
+    },
+    async (
+      { path: filePath, edits, dryRun, expectedHash, expectedMtime },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const targetPath = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        // Report a conflict before any edit fails to match the changed file
+        const precondition = { expectedHash, expectedMtime };
+        await fileUtils.verifyWritePrecondition(targetPath, precondition);
+        const decoded = fileUtils.decodeContent(
+          await changeSetUtils.readFile(targetPath, extra.sessionId)
+        );
+
+        if (!decoded) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${filePath} is a binary file and cannot be edited as text`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const { content: original, encoding, hasBom } = decoded;
+        let updated = original;
+        const failures: string[] = [];
+
+        edits.forEach((edit: EditBlock, index) => {
+          const result = applyEdit(updated, edit);
+          if (typeof result === "string") {
+            updated = result;
+          } else {
+            failures.push(`Edit ${index + 1}: ${result.error}`);
+          }
+        });
+
+        if (failures.length > 0) {
+          logger.warn(`Edit of ${filePath} rejected`, {
+            failures: failures.length,
+          });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: No changes were written to ${filePath}.\n\n${failures.join(
+                  "\n\n"
+                )}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const patch = Diff.createPatch(filePath, original, updated);
+
+        let staged = false;
+        if (!dryRun && updated !== original) {
+          await confirmationUtils.requireConfirmation(server, extra, {
+            title: `Edit ${filePath}`,
+            summary: `Applies ${edits.length} edit(s):`,
+            details: patch,
+          });
+          staged = await changeSetUtils.writeFile(
+            targetPath,
+            fileUtils.encodeText(updated, encoding, hasBom),
+            extra.sessionId,
+            precondition
+          );
+          logger.info(`Applied ${edits.length} edit(s) to ${filePath}`, {
+            staged,
+          });
+        }
+
+        let action = "Applied";
+        if (dryRun) {
+          action = "Dry run: would apply";
+        } else if (staged) {
+          action = "Staged";
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${action} ${edits.length} edit(s) to ${filePath}\n\n${patch}`,
+            },
+          ],
+          isError: false,
+        };
+      } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (fileUtils.isWriteConflictError(error)) {
+          return fileUtils.writeConflictErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
+        const err = error as NodeJS.ErrnoException;
+        logger.error(`Error editing file '${filePath}':`, {
+          error: err.message,
+        });
+
+        if (err.code === "ENOENT") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: File not found at path: ${filePath}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error editing file: ${err.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Apply one search-and-replace block to the content
+ * @param {string} content - The current content
+ * @param {EditBlock} edit - The block to apply
+ * @returns {string|{error: string}} The updated content, or why it failed
+ */
+function applyEdit(
+  content: string,
+  edit: EditBlock
+): string | { error: string } {
+  let { oldText, newText } = edit;
+
+  // Blocks written with LF line endings still match CRLF files
+  if (content.includes("\r\n") && !oldText.includes("\r")) {
+    oldText = oldText.replace(/\n/g, "\r\n");
+    newText = newText.replace(/\n/g, "\r\n");
+  }
+
+  const matches = findAll(content, oldText);
+
+  if (matches.length === 0) {
+    const closest = findClosestMatch(content, oldText);
+    if (!closest) {
+      return { error: "oldText was not found and no similar text exists." };
+    }
+    return {
+      error: `oldText was not found. Closest match (${Math.round(
+        closest.similarity * 100
+      )}% similar) at lines ${closest.startLine}-${closest.endLine}:\n${
+        closest.text
+      }`,
+    };
+  }
+
+  if (edit.occurrence === undefined && matches.length > 1) {
+    const lines = matches.map((index) => lineNumberAt(content, index));
+    return {
+      error: `oldText matches ${
+        matches.length
+      } times (starting at lines ${lines.join(
+        ", "
+      )}). Include more surrounding context or set occurrence.`,
+    };
+  }
+
+  const occurrence = edit.occurrence ?? 1;
+  if (occurrence > matches.length) {
+    return {
+      error: `occurrence ${occurrence} requested but oldText only matches ${matches.length} time(s).`,
+    };
+  }
+
+  const index = matches[occurrence - 1];
+  return (
+    content.slice(0, index) + newText + content.slice(index + oldText.length)
+  );
+}
+
+/**
+ * Find the start index of every non-overlapping occurrence of a string
+ * @param {string} content - Text to search
+ * @param {string} search - Text to find
+ * @returns {number[]} Start indexes
+ */
+function findAll(content: string, search: string): number[] {
+  const indexes: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    indexes.push(index);
+    index = content.indexOf(search, index + search.length);
+  }
+  return indexes;
+}
+
+/**
+ * Get the 1-based line number of a character index
+ * @param {string} content - The text
+ * @param {number} index - Character index
+ * @returns {number} Line number
+ */
+function lineNumberAt(content: string, index: number): number {
+  return content.slice(0, index).split("\n").length;
+}
+
+/**
+ * Count character bigrams of whitespace-normalized text
+ * @param {string} text - The text
+ * @returns {Map<string, number>} Bigram counts
+ */
+function bigrams(text: string): Map<string, number> {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const counts = new Map<string, number>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const pair = normalized.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient between two bigram sets
+ * @param {Map<string, number>} a - First bigram counts
+ * @param {Map<string, number>} b - Second bigram counts
+ * @returns {number} Similarity between 0 and 1
+ */
+function diceSimilarity(
+  a: Map<string, number>,
+  b: Map<string, number>
+): number {
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+  a.forEach((count, pair) => {
+    sizeA += count;
+    shared += Math.min(count, b.get(pair) ?? 0);
+  });
+  b.forEach((count) => {
+    sizeB += count;
+  });
+  return sizeA + sizeB === 0 ? 0 : (2 * shared) / (sizeA + sizeB);
+}
+
+/**
+ * Find the window of lines most similar to the search text
+ * @param {string} content - Text to search
+ * @param {string} search - Text that failed to match exactly
+ * @returns {FuzzyMatch|null} The closest match, if any is reasonably similar
+ */
+function findClosestMatch(content: string, search: string): FuzzyMatch | null {
+  const lines = content.split("\n");
+  const windowSize = Math.min(lines.length, search.split("\n").length);
+  const target = bigrams(search);
+  let best: FuzzyMatch | null = null;
+
+  for (let start = 0; start + windowSize <= lines.length; start++) {
+    const candidate = lines.slice(start, start + windowSize);
+    const similarity = diceSimilarity(target, bigrams(candidate.join("\n")));
+    if (!best || similarity > best.similarity) {
+      best = {
+        startLine: start + 1,
+        endLine: start + windowSize,
+        similarity,
+        text: candidate
+          .map((line, offset) => `${start + offset + 1}\t${line}`)
+          .join("\n"),
+      };
+    }
+  }
+
+  return best && best.similarity >= 0.3 ? best : null;
+}
+
+export default {
+  registerFileEditTool,
+};
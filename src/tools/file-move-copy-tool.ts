@@ -1,20 +1,74 @@
 /**
  * File Move/Copy Tool - April 24, 2025
  *
- * This tool allows moving and copying files:
- * - Move a file from one location to another
- * - Copy a file from one location to another
+ * This tool allows moving, copying and deleting files and directories:
+ * - Move a file or directory from one location to another
+ * - Copy a file or directory from one location to another
+ * - Select the files of a directory with include/exclude globs
+ * - Skip, overwrite or rename entries that already exist
+ * - Delete a file or directory, by default into a trash folder
+ *
+ * Deleting and overwriting ask the user for confirmation first.
  */
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import path from "path";
-import fs from "fs/promises";
-import { ToolResponse } from "../types/index.js";
-import { file as fileUtils, logger } from "../utils/index.js";
+import {
+  ConflictPolicy,
+  ToolExtra,
+  ToolResponse,
+  TransferOptions,
+  TransferResult,
+} from "../types/index.js";
+import {
+  changeSet as changeSetUtils,
+  confirmation as confirmationUtils,
+  logger,
+  pathPolicy,
+} from "../utils/index.js";
+
+// Most files listed in a delete confirmation
+const MAX_LISTED_FILES = 200;
+
+/**
+ * Parameters shared by copy_file and move_file
+ */
+const transferSchema = {
+  source: z.string().describe("Path to the source file or directory"),
+  destination: z
+    .string()
+    .describe(
+      "Path to the destination. A directory is merged into an existing directory at this path."
+    ),
+  overwrite: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Whether to overwrite existing files. Shorthand for onConflict 'overwrite'."
+    ),
+  onConflict: z
+    .enum(["error", "skip", "overwrite", "rename"])
+    .optional()
+    .describe(
+      "What to do with each entry that already exists at the destination: fail (default), skip it, overwrite it, or use a free name such as 'name-1.ext'."
+    ),
+  include: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "For a directory, only transfer files matching one of these globs, relative to the source."
+    ),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "For a directory, skip files and subdirectories matching one of these globs."
+    ),
+};
 
 /**
- * Register the file move and copy tools
+ * Register the file move, copy and delete tools
  * @param {McpServer} server - The MCP server instance
  */
 export function registerFileMoveCopyTools(server: McpServer): void {
@@ -22,6 +76,88 @@ export function registerFileMoveCopyTools(server: McpServer): void {
 
   registerFileCopyTool(server);
   registerFileMoveTool(server);
+  registerDeletePathTool(server);
+}
+
+/**
+ * Describe the outcome of a copy or move
+ * @param {"copy"|"move"} mode - The operation
+ * @param {string} source - The source as given
+ * @param {string} destination - The destination as given
+ * @param {TransferResult} result - The outcome
+ * @returns {string} The description
+ */
+function describeTransfer(
+  mode: "copy" | "move",
+  source: string,
+  destination: string,
+  result: TransferResult
+): string {
+  const lines = [
+    result.staged
+      ? `Staged ${mode} of ${result.files} file(s) from ${source} to ${destination} in the active change set`
+      : `Successfully ${mode === "copy" ? "copied" : "moved"} ${
+          result.files
+        } file(s) from ${source} to ${destination}`,
+  ];
+  if (result.renamed.length > 0) {
+    lines.push(
+      "",
+      "Renamed to avoid conflicts:",
+      ...result.renamed.map(({ from, to }) => `  ${from} -> ${to}`)
+    );
+  }
+  if (result.skipped.length > 0) {
+    lines.push(
+      "",
+      "Skipped, already existing:",
+      ...result.skipped.map((skipped) => `  ${skipped}`)
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Ask the user to confirm a copy or move that overwrites existing files,
+ * showing the diff of each. Transfers that overwrite nothing go ahead.
+ * @param {McpServer} server - The MCP server instance
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @param {"copy"|"move"} mode - Whether the source is kept
+ * @param {string} sourcePath - Resolved source path
+ * @param {string} destinationPath - Resolved destination path
+ * @param {TransferOptions} options - Globs and conflict policy
+ * @throws {ConfirmationDeclinedError} If the user does not approve
+ */
+async function confirmOverwrites(
+  server: McpServer,
+  extra: ToolExtra,
+  mode: "copy" | "move",
+  sourcePath: string,
+  destinationPath: string,
+  options: TransferOptions
+): Promise<void> {
+  if (options.onConflict !== "overwrite") {
+    return;
+  }
+  const plan = await changeSetUtils.transferPath(
+    mode,
+    sourcePath,
+    destinationPath,
+    { ...options, dryRun: true },
+    extra.sessionId
+  );
+  if (plan.overwritten.length === 0) {
+    return;
+  }
+  const count = plan.overwritten.length;
+  await confirmationUtils.requireConfirmation(server, extra, {
+    title: `Overwrite ${count} file${count === 1 ? "" : "s"}`,
+    summary: [
+      `The ${mode} replaces these files:`,
+      ...plan.overwritten.map(({ to }) => `  ${to}`),
+    ].join("\n"),
+    details: plan.diff,
+  });
 }
 
 /**
@@ -31,79 +167,76 @@ export function registerFileMoveCopyTools(server: McpServer): void {
 function registerFileCopyTool(server: McpServer): void {
   server.tool(
     "copy_file",
-    "Tool to copy a file from one location to another, with ability to create parent directories and control overwrite behavior",
-    {
-      source: z.string().describe("Path to the source file"),
-      destination: z.string().describe("Path to the destination file"),
-      overwrite: z
-        .boolean()
-        .optional()
-        .default(false)
-        .describe("Whether to overwrite the destination file if it exists"),
-    },
+    "Tool to copy a file or directory from one location to another, creating parent directories. Directories can be filtered with include/exclude globs, and existing entries skipped, overwritten or renamed",
+    transferSchema,
     async (
-      { source, destination, overwrite },
-      _extra
+      { source, destination, overwrite, onConflict, include, exclude },
+      extra
     ): Promise<ToolResponse> => {
       try {
-        // Check if source file exists
-        try {
-          await fs.access(source);
-        } catch (error) {
+        const sourcePath = await pathPolicy.resolvePath(source, {
+          sessionId: extra.sessionId,
+        });
+        const destinationPath = await pathPolicy.resolvePath(destination, {
+          sessionId: extra.sessionId,
+        });
+
+        // Check if source exists
+        if (!(await changeSetUtils.pathExists(sourcePath, extra.sessionId))) {
           return {
             content: [
               {
                 type: "text",
-                text: `Error: Source file '${source}' does not exist`,
+                text: `Error: Source '${source}' does not exist`,
               },
             ],
             isError: true,
           };
         }
 
-        // Check if destination file exists and handle overwrite flag
-        try {
-          await fs.access(destination);
-          if (!overwrite) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error: Destination file '${destination}' already exists and overwrite is set to false`,
-                },
-              ],
-              isError: true,
-            };
-          }
-        } catch (error) {
-          // Destination file does not exist, create parent directories if needed
-          const dirPath = path.dirname(destination);
-          await fileUtils.ensureDirectory(dirPath);
-        }
-
-        // Copy the file
-        await fs.copyFile(source, destination);
-
-        logger.info(
-          `Successfully copied file from ${source} to ${destination}`
+        const policy: ConflictPolicy =
+          onConflict ?? (overwrite ? "overwrite" : "error");
+        const options = { include, exclude, onConflict: policy };
+        await confirmOverwrites(
+          server,
+          extra,
+          "copy",
+          sourcePath,
+          destinationPath,
+          options
         );
+        const result = await changeSetUtils.transferPath(
+          "copy",
+          sourcePath,
+          destinationPath,
+          options,
+          extra.sessionId
+        );
+
+        logger.info(`Successfully copied ${source} to ${destination}`, {
+          ...result,
+        });
         return {
           content: [
             {
               type: "text",
-              text: `Successfully copied file from ${source} to ${destination}`,
+              text: describeTransfer("copy", source, destination, result),
             },
           ],
           isError: false,
+          _meta: { ...result },
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
-        logger.error(
-          `Error copying file from '${source}' to '${destination}':`,
-          {
-            error: err.message,
-          }
-        );
+        logger.error(`Error copying '${source}' to '${destination}':`, {
+          error: err.message,
+        });
         return {
           content: [
             {
@@ -125,82 +258,181 @@ function registerFileCopyTool(server: McpServer): void {
 function registerFileMoveTool(server: McpServer): void {
   server.tool(
     "move_file",
-    "Tool to move or rename a file from one location to another, with ability to create parent directories and control overwrite behavior",
-    {
-      source: z.string().describe("Path to the source file"),
-      destination: z.string().describe("Path to the destination file"),
-      overwrite: z
-        .boolean()
-        .optional()
-        .default(false)
-        .describe("Whether to overwrite the destination file if it exists"),
-    },
+    "Tool to move or rename a file or directory, creating parent directories and falling back to copy and delete across devices. Directories can be filtered with include/exclude globs, and existing entries skipped, overwritten or renamed",
+    transferSchema,
     async (
-      { source, destination, overwrite },
-      _extra
+      { source, destination, overwrite, onConflict, include, exclude },
+      extra
     ): Promise<ToolResponse> => {
       try {
-        // Check if source file exists
-        try {
-          await fs.access(source);
-        } catch (error) {
+        const sourcePath = await pathPolicy.resolvePath(source, {
+          noFollow: true,
+          sessionId: extra.sessionId,
+        });
+        const destinationPath = await pathPolicy.resolvePath(destination, {
+          sessionId: extra.sessionId,
+        });
+
+        // Check if source exists
+        if (!(await changeSetUtils.pathExists(sourcePath, extra.sessionId))) {
           return {
             content: [
               {
                 type: "text",
-                text: `Error: Source file '${source}' does not exist`,
+                text: `Error: Source '${source}' does not exist`,
               },
             ],
             isError: true,
           };
         }
 
-        // Check if destination file exists and handle overwrite flag
-        try {
-          await fs.access(destination);
-          if (!overwrite) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error: Destination file '${destination}' already exists and overwrite is set to false`,
-                },
-              ],
-              isError: true,
-            };
-          }
-        } catch (error) {
-          // Destination file does not exist, create parent directories if needed
-          const dirPath = path.dirname(destination);
-          await fileUtils.ensureDirectory(dirPath);
+        const policy: ConflictPolicy =
+          onConflict ?? (overwrite ? "overwrite" : "error");
+        const options = { include, exclude, onConflict: policy };
+        await confirmOverwrites(
+          server,
+          extra,
+          "move",
+          sourcePath,
+          destinationPath,
+          options
+        );
+        const result = await changeSetUtils.transferPath(
+          "move",
+          sourcePath,
+          destinationPath,
+          options,
+          extra.sessionId
+        );
+
+        logger.info(`Successfully moved ${source} to ${destination}`, {
+          ...result,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: describeTransfer("move", source, destination, result),
+            },
+          ],
+          isError: false,
+          _meta: { ...result },
+        };
+      } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
         }
+        const err = error as Error;
+        logger.error(`Error moving '${source}' to '${destination}':`, {
+          error: err.message,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error moving file: ${err.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
 
-        // Move the file
-        await fs.rename(source, destination);
+/**
+ * Register the delete_path tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerDeletePathTool(server: McpServer): void {
+  server.tool(
+    "delete_path",
+    "Tool to delete a file or directory after the user confirms. By default it is moved into a trash folder outside the workspace rather than deleted permanently, and directories that are not empty need recursive",
+    {
+      path: z.string().describe("Path to the file or directory to delete"),
+      recursive: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Whether to delete a directory that is not empty"),
+      trash: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Move into the trash folder instead of deleting permanently"),
+    },
+    async (
+      { path: targetPath, recursive, trash },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const resolvedPath = await pathPolicy.resolvePath(targetPath, {
+          noFollow: true,
+          sessionId: extra.sessionId,
+        });
 
-        logger.info(`Successfully moved file from ${source} to ${destination}`);
+        const plan = await changeSetUtils.deletePath(
+          resolvedPath,
+          { recursive, trash, dryRun: true },
+          extra.sessionId
+        );
+        const files = plan.files ?? [];
+        const listed = files.slice(0, MAX_LISTED_FILES);
+        if (files.length > listed.length) {
+          listed.push(`... and ${files.length - listed.length} more`);
+        }
+        await confirmationUtils.requireConfirmation(server, extra, {
+          title: `Delete ${targetPath}`,
+          summary: `${
+            trash
+              ? "Moves into the trash folder"
+              : "Deletes permanently, without a copy in the trash folder,"
+          } ${files.length} file${files.length === 1 ? "" : "s"}:`,
+          details: listed.join("\n"),
+        });
+
+        const result = await changeSetUtils.deletePath(
+          resolvedPath,
+          { recursive, trash },
+          extra.sessionId
+        );
+
+        logger.info(`Successfully deleted ${targetPath}`, { ...result });
+        let text = `Successfully deleted ${targetPath}`;
+        if (result.staged) {
+          text = `Staged deletion of ${targetPath} in the active change set`;
+        } else if (result.trashPath) {
+          text = `Moved ${targetPath} to the trash at ${result.trashPath}`;
+        }
         return {
           content: [
             {
               type: "text",
-              text: `Successfully moved file from ${source} to ${destination}`,
+              text,
             },
           ],
           isError: false,
+          _meta: { ...result },
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
-        logger.error(
-          `Error moving file from '${source}' to '${destination}':`,
-          {
-            error: err.message,
-          }
-        );
+        logger.error(`Error deleting '${targetPath}':`, {
+          error: err.message,
+        });
         return {
           content: [
             {
               type: "text",
-              text: `Error moving file: ${err.message}`,
+              text: `Error deleting path: ${err.message}`,
             },
           ],
           isError: true,
@@ -214,4 +446,5 @@ export default {
   registerFileMoveCopyTools,
   registerFileCopyTool,
   registerFileMoveTool,
+  registerDeletePathTool,
 };
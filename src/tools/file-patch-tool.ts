@@ -0,0 +1,430 @@
+/**
+ * File Patch Tool
+ *
+ * Tool for applying unified diffs, including multi-file `git diff` output:
+ * - Files can be modified, created, deleted, renamed or copied
+ * - Hunks may be shifted or matched with fuzz, and each reports its outcome
+ * - Every file is checked in memory first, then all are written or none are
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  FilePatch,
+  FilePatchOperation,
+  HunkResult,
+  StagedChange,
+  TextEncoding,
+  ToolResponse,
+} from "../types/index.js";
+import {
+  changeSet as changeSetUtils,
+  confirmation as confirmationUtils,
+  file as fileUtils,
+  logger,
+  pathPolicy,
+  patch as patchUtils,
+} from "../utils/index.js";
+
+/**
+ * Patched content waiting to be written. A null content deletes the file.
+ */
+interface StagedFile {
+  content: string | null;
+  encoding: TextEncoding;
+  hasBom: boolean;
+}
+
+/**
+ * Outcome of one file in the patch
+ */
+interface FilePatchReport {
+  operation: FilePatchOperation;
+  oldPath: string;
+  newPath: string;
+  hunks: HunkResult[];
+  error?: string;
+}
+
+// Status letters, as shown by `git status --short`
+const OPERATION_LABELS: Record<FilePatchOperation, string> = {
+  modify: "M",
+  create: "A",
+  delete: "D",
+  rename: "R",
+  copy: "C",
+};
+
+/**
+ * Register the apply_patch tool
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerFilePatchTool(server: McpServer): void {
+  logger.info("Registering file patch tool");
+
+  server.tool(
+    "apply_patch",
+    "Tool to apply a unified diff. Accepts single-file patches or multi-file `git diff` output with created, deleted and renamed files; reports the result of every hunk and writes all files or none. Patches that change or delete existing files ask the user to confirm first",
+    {
+      filePath: z
+        .string()
+        .optional()
+        .describe(
+          "Path to the file to modify. Only for single-file patches; multi-file patches take paths from their headers."
+        ),
+      unifiedDiff: z
+        .string()
+        .describe("The unified diff patch string to apply"),
+      fuzzFactor: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe(
+          "Lines of leading and trailing context per hunk that may be ignored when matching, like patch --fuzz."
+        ),
+      strip: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe(
+          "Leading path components to remove from file names, like patch -p. Defaults to removing git's a/ and b/ prefixes."
+        ),
+      dryRun: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Report the result of every hunk without writing files."),
+      expectedHash: z
+        .string()
+        .optional()
+        .describe(
+          "SHA-256 the file must still have, as reported by read_file. Requires filePath."
+        ),
+      expectedMtime: z
+        .string()
+        .optional()
+        .describe(
+          "Modification time (ISO 8601) the file must still have, as reported by read_file. Requires filePath."
+        ),
+    },
+    async (
+      {
+        filePath,
+        unifiedDiff,
+        fuzzFactor,
+        strip,
+        dryRun,
+        expectedHash,
+        expectedMtime,
+      },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const precondition = { expectedHash, expectedMtime };
+        if (
+          filePath === undefined &&
+          (expectedHash !== undefined || expectedMtime !== undefined)
+        ) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: expectedHash and expectedMtime require filePath.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const filePatches = patchUtils.parsePatch(unifiedDiff, strip);
+
+        if (filePatches.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: The patch does not contain any file changes.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (filePath !== undefined) {
+          if (filePatches.length > 1) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error: The patch changes ${filePatches.length} files. Omit filePath to apply a multi-file patch.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          filePatches[0].oldPath = filePath;
+          filePatches[0].newPath = filePath;
+          await fileUtils.verifyWritePrecondition(
+            await pathPolicy.resolvePath(filePath, {
+              sessionId: extra.sessionId,
+            }),
+            precondition
+          );
+        }
+
+        // Later file patches see the staged result of earlier ones
+        const staged = new Map<string, StagedFile>();
+        const reports: FilePatchReport[] = [];
+        for (const filePatch of filePatches) {
+          reports.push(
+            await stageFilePatch(filePatch, staged, fuzzFactor, extra.sessionId)
+          );
+        }
+
+        const summary = formatReports(reports);
+        const meta = { dryRun, files: reports };
+
+        if (reports.some((report) => report.error)) {
+          logger.warn("Patch rejected", {
+            files: reports.length,
+            failed: reports.filter((report) => report.error).length,
+          });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: The patch does not apply. No files were changed.\n\n${summary}`,
+              },
+            ],
+            isError: true,
+            _meta: meta,
+          };
+        }
+
+        let action = "Dry run: patch applies cleanly to";
+        if (!dryRun) {
+          // A single-file patch only stages its own file, so the
+          // precondition applies to every change
+          const changes = new Map<string, StagedChange>();
+          staged.forEach((file, stagedPath) => {
+            changes.set(
+              stagedPath,
+              file.content === null
+                ? { type: "delete", precondition }
+                : {
+                    type: "file",
+                    content: fileUtils.encodeText(
+                      file.content,
+                      file.encoding,
+                      file.hasBom
+                    ),
+                    precondition,
+                  }
+            );
+          });
+          await confirmationUtils.confirmOverwrites(
+            server,
+            extra,
+            `Apply patch to ${reports.length} file(s)`,
+            changes
+          );
+          const stagedInChangeSet = await changeSetUtils.applyChanges(
+            changes,
+            extra.sessionId
+          );
+          action = stagedInChangeSet
+            ? "Staged patch in the active change set for"
+            : "Applied patch to";
+          logger.info(`${action} ${reports.length} file(s)`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${action} ${reports.length} file(s)\n\n${summary}`,
+            },
+          ],
+          isError: false,
+          _meta: meta,
+        };
+      } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (fileUtils.isWriteConflictError(error)) {
+          return fileUtils.writeConflictErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
+        const err = error as Error;
+        logger.error("Error applying patch:", { error: err.message });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error applying patch: ${err.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Read a file as the patch currently sees it, staged changes first
+ * @param {string} filePath - Resolved path of the file
+ * @param {Map<string, StagedFile>} staged - Changes staged so far
+ * @param {string} [sessionId] - Session whose change set applies
+ * @returns {Promise<StagedFile|null>} The file, or null if it does not exist
+ */
+async function readStagedFile(
+  filePath: string,
+  staged: Map<string, StagedFile>,
+  sessionId?: string
+): Promise<StagedFile | null> {
+  const stagedFile = staged.get(filePath);
+  if (stagedFile) {
+    return stagedFile.content === null ? null : stagedFile;
+  }
+
+  try {
+    const decoded = fileUtils.decodeContent(
+      await changeSetUtils.readFile(filePath, sessionId)
+    );
+    if (!decoded) {
+      throw new Error("binary files cannot be patched as text");
+    }
+    return decoded;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply one file's hunks in memory and stage the result
+ * @param {FilePatch} filePatch - The parsed file patch
+ * @param {Map<string, StagedFile>} staged - Changes staged so far
+ * @param {number} fuzzFactor - Context lines that may be ignored per hunk
+ * @param {string} [sessionId] - Session whose workspace roots apply
+ * @returns {Promise<FilePatchReport>} The outcome for this file
+ */
+async function stageFilePatch(
+  filePatch: FilePatch,
+  staged: Map<string, StagedFile>,
+  fuzzFactor: number,
+  sessionId?: string
+): Promise<FilePatchReport> {
+  const { operation, oldPath, newPath } = filePatch;
+  const report: FilePatchReport = { operation, oldPath, newPath, hunks: [] };
+
+  if (filePatch.isBinary) {
+    report.error = "binary patches are not supported";
+    return report;
+  }
+
+  const sourcePath = await pathPolicy.resolvePath(oldPath, { sessionId });
+  const targetPath =
+    operation === "rename" || operation === "copy"
+      ? await pathPolicy.resolvePath(newPath, { sessionId })
+      : sourcePath;
+
+  try {
+    const existing = await readStagedFile(sourcePath, staged, sessionId);
+    if (operation === "create" && existing) {
+      report.error = "file already exists";
+      return report;
+    }
+    if (operation !== "create" && !existing) {
+      report.error = "file not found";
+      return report;
+    }
+    if (
+      targetPath !== sourcePath &&
+      (await readStagedFile(targetPath, staged, sessionId))
+    ) {
+      report.error = `${newPath} already exists`;
+      return report;
+    }
+
+    const source: StagedFile = existing ?? {
+      content: "",
+      encoding: "utf8",
+      hasBom: false,
+    };
+    const result = patchUtils.applyHunks(
+      source.content as string,
+      filePatch.hunks,
+      fuzzFactor
+    );
+    report.hunks = result.hunks;
+
+    if (!result.applied) {
+      const failed = result.hunks.filter((hunk) => !hunk.applied).length;
+      report.error = `${failed} of ${result.hunks.length} hunk(s) failed`;
+      return report;
+    }
+    if (operation === "delete" && result.content !== "") {
+      report.error = "file has content that the deletion does not remove";
+      return report;
+    }
+
+    if (operation === "delete" || operation === "rename") {
+      staged.set(sourcePath, { ...source, content: null });
+    }
+    if (operation !== "delete") {
+      staged.set(targetPath, { ...source, content: result.content });
+    }
+  } catch (error) {
+    report.error = (error as Error).message;
+  }
+
+  return report;
+}
+
+/**
+ * Describe the outcome of every file and hunk
+ * @param {FilePatchReport[]} reports - Per-file outcomes
+ * @returns {string} The summary text
+ */
+function formatReports(reports: FilePatchReport[]): string {
+  return reports
+    .map((report) => {
+      const name =
+        report.operation === "rename" || report.operation === "copy"
+          ? `${report.oldPath} -> ${report.newPath}`
+          : report.newPath;
+      const lines = [
+        `${OPERATION_LABELS[report.operation]} ${name}${
+          report.error ? `: ${report.error}` : ""
+        }`,
+      ];
+
+      report.hunks.forEach((hunk) => {
+        let status = hunk.applied ? "applied" : `FAILED, ${hunk.error}`;
+        if (hunk.offset !== 0) {
+          status += ` at offset ${hunk.offset}`;
+        }
+        if (hunk.fuzz > 0) {
+          status += ` with fuzz ${hunk.fuzz}`;
+        }
+        lines.push(`  Hunk ${hunk.hunk} ${hunk.header}: ${status}`);
+      });
+
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+export default {
+  registerFilePatchTool,
+};
@@ -6,11 +6,20 @@
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import path from "path";
 import fs from "fs/promises";
-import * as Diff from "diff";
-import { ToolResponse } from "../types/index.js";
-import { file as fileUtils, logger } from "../utils/index.js";
+import { createReadStream } from "fs";
+import { TextEncoding, ToolResponse } from "../types/index.js";
+import {
+  changeSet as changeSetUtils,
+  confirmation as confirmationUtils,
+  file as fileUtils,
+  logger,
+  pathPolicy,
+} from "../utils/index.js";
+
+// Default cap on the bytes returned by a single read_file call
+const DEFAULT_MAX_READ_BYTES =
+  parseInt(process.env.CODE_TOOLS_MAX_READ_BYTES || "", 10) || 256 * 1024;
 
 /**
  * Register file operation tools with the MCP server
@@ -19,111 +28,422 @@ import { file as fileUtils, logger } from "../utils/index.js";
 export function registerFileTools(server: McpServer): void {
   logger.info("Registering file operation tools");
 
+  registerReadFileTool(server);
   registerUpdateFileTool(server);
-  registerApplyPatchTool(server);
   registerListDirectoryTool(server);
   registerCreateDirectoryTool(server);
-  registerSearchFilesTool(server);
 }
 
 /**
- * Register the update_file tool
- * @param {McpServer} server - The MCP server instance
+ * Position in a file where a truncated read_file call can continue
  */
-function registerUpdateFileTool(server: McpServer): void {
-  server.tool(
-    "update_file",
-    "Tool to create or update a file with specified content, creating parent directories if needed",
-    {
-      filePath: z.string().describe("Path to the file to modify or create."),
-      newContent: z.string().describe("The new content to write to the file."),
-    },
-    async ({ filePath, newContent }, _extra): Promise<ToolResponse> => {
-      try {
-        // Create parent directories if needed
-        const dirPath = path.dirname(filePath);
-        await fileUtils.ensureDirectory(dirPath);
+interface ReadCursor {
+  offset: number;
+  line: number;
+}
 
-        await fs.writeFile(filePath, newContent, "utf8");
-        logger.info(`Successfully updated file: ${filePath}`);
+/**
+ * Encode a read cursor as an opaque string
+ * @param {ReadCursor} cursor - The cursor to encode
+ * @returns {string} The encoded cursor
+ */
+function encodeReadCursor(cursor: ReadCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Successfully updated ${filePath}`,
-            },
-          ],
-          isError: false,
-        };
-      } catch (error) {
-        const err = error as Error;
-        logger.error(`Error updating file '${filePath}':`, {
-          error: err.message,
-        });
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error updating file: ${err.message}`,
-            },
-          ],
-          isError: true,
-        };
+/**
+ * Decode a cursor produced by encodeReadCursor
+ * @param {string} cursor - The encoded cursor
+ * @returns {ReadCursor} The decoded cursor
+ * @throws {Error} If the cursor is malformed
+ */
+function decodeReadCursor(cursor: string): ReadCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (Number.isInteger(decoded.offset) && Number.isInteger(decoded.line)) {
+      return { offset: decoded.offset, line: decoded.line };
+    }
+  } catch (_error) {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Count newlines in a byte range of a file without loading it into memory
+ * @param {string} filePath - Path to the file
+ * @param {TextEncoding} encoding - The file's text encoding
+ * @param {number} start - First byte to scan (must be character aligned)
+ * @param {number} end - Byte offset to stop at (exclusive)
+ * @param {number} [stopAfter=Infinity] - Stop once this many newlines were seen
+ * @returns {Promise<{count: number, offset: number}>} Newlines seen and the offset just after the last one
+ */
+async function scanNewlines(
+  filePath: string,
+  encoding: TextEncoding,
+  start: number,
+  end: number,
+  stopAfter = Infinity
+): Promise<{ count: number; offset: number }> {
+  let count = 0;
+  let offset = start;
+  if (end <= start) {
+    return { count, offset };
+  }
+
+  const stream = createReadStream(filePath, { start, end: end - 1 });
+  const isUtf16 = encoding === "utf16le" || encoding === "utf16be";
+  let position = start;
+  let pendingByte: number | null = null;
+
+  try {
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      if (!isUtf16) {
+        let index = chunk.indexOf(0x0a);
+        while (index !== -1) {
+          count++;
+          offset = position + index + 1;
+          if (count >= stopAfter) {
+            return { count, offset };
+          }
+          index = chunk.indexOf(0x0a, index + 1);
+        }
+      } else {
+        for (let i = 0; i < chunk.length; i++) {
+          if (pendingByte === null) {
+            pendingByte = chunk[i];
+            continue;
+          }
+          const isNewline =
+            encoding === "utf16le"
+              ? pendingByte === 0x0a && chunk[i] === 0
+              : pendingByte === 0 && chunk[i] === 0x0a;
+          pendingByte = null;
+          if (isNewline) {
+            count++;
+            offset = position + i + 1;
+            if (count >= stopAfter) {
+              return { count, offset };
+            }
+          }
+        }
       }
+      position += chunk.length;
     }
-  );
+  } finally {
+    stream.destroy();
+  }
+
+  return { count, offset };
 }
 
 /**
- * Register the apply_patch tool
+ * Get the encoded size of text
+ * @param {string} text - The text
+ * @param {TextEncoding} encoding - The text encoding
+ * @returns {number} Size in bytes
+ */
+function encodedLength(text: string, encoding: TextEncoding): number {
+  return Buffer.byteLength(text, encoding === "utf16be" ? "utf16le" : encoding);
+}
+
+/**
+ * Register the read_file tool
  * @param {McpServer} server - The MCP server instance
  */
-function registerApplyPatchTool(server: McpServer): void {
+function registerReadFileTool(server: McpServer): void {
   server.tool(
-    "apply_patch",
-    "Tool to apply a unified diff patch to a file, making changes according to the patch specification",
+    "read_file",
+    "Tool to read a file by line range or byte range, returning line-numbered text with the detected encoding and total line count. Large reads are truncated with a cursor to continue from",
     {
-      filePath: z.string().describe("Path to the file to modify"),
-      unifiedDiff: z
+      path: z.string().describe("Path to the file to read."),
+      startLine: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("First line to return (1-based)."),
+      endLine: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Last line to return (inclusive)."),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Byte offset to start reading from. Ignored with startLine."),
+      length: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Number of bytes to read starting at offset."),
+      cursor: z
         .string()
-        .describe("The unified diff patch string to apply"),
+        .optional()
+        .describe(
+          "Cursor returned by a previous truncated read, to continue where it stopped."
+        ),
+      encoding: z
+        .enum(["auto", "utf8", "utf16le", "utf16be", "latin1"])
+        .optional()
+        .default("auto")
+        .describe("Text encoding. 'auto' detects it from the BOM and content."),
+      maxBytes: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          `Maximum number of bytes to return (default ${DEFAULT_MAX_READ_BYTES}).`
+        ),
+      onOversize: z
+        .enum(["truncate", "error"])
+        .optional()
+        .default("truncate")
+        .describe("Whether to truncate or refuse a read larger than maxBytes."),
+      lineNumbers: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Prefix each line with its line number."),
     },
-    async ({ filePath, unifiedDiff }, _extra): Promise<ToolResponse> => {
+    async (
+      {
+        path: filePath,
+        startLine,
+        endLine,
+        offset,
+        length,
+        cursor,
+        encoding,
+        maxBytes = DEFAULT_MAX_READ_BYTES,
+        onOversize,
+        lineNumbers,
+      },
+      extra
+    ): Promise<ToolResponse> => {
       try {
-        const currentContent = await fs.readFile(filePath, "utf8");
-        const patchedContent = Diff.applyPatch(currentContent, unifiedDiff);
+        const targetPath = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const stats = await fs.stat(targetPath);
+        if (stats.isDirectory()) {
+          throw new Error(`Path is a directory, not a file: ${filePath}`);
+        }
+        // Passed back as expectedHash/expectedMtime to detect later changes
+        const version = await fileUtils.getFileVersionInfo(targetPath);
 
-        if (patchedContent === false) {
-          logger.error(
-            `Failed to apply patch to ${filePath}. Patch might not match content.`
+        const detected = await fileUtils.detectFileEncoding(targetPath);
+        const textEncoding =
+          encoding === "auto"
+            ? detected.encoding === "binary"
+              ? undefined
+              : detected.encoding
+            : encoding;
+
+        if (!textEncoding) {
+          const { content, start, bytesRead } = await fileUtils.safeReadFile(
+            targetPath,
+            true,
+            {
+              start: offset ?? 0,
+              length: Math.min(length ?? maxBytes, maxBytes),
+            }
           );
           return {
             content: [
               {
                 type: "text",
-                text: "Error: Failed to apply patch. It may not match the current file content.",
+                text: `Binary file ${filePath} (${
+                  stats.size
+                } bytes, ${fileUtils.getMimeType(
+                  targetPath
+                )}). Bytes ${start}-${start + bytesRead} as base64:\n${(
+                  content as Buffer
+                ).toString("base64")}`,
+              },
+            ],
+            isError: false,
+            _meta: {
+              binary: true,
+              size: stats.size,
+              start,
+              bytesRead,
+              ...version,
+            },
+          };
+        }
+
+        const bomLength =
+          textEncoding === detected.encoding ? detected.bomLength : 0;
+
+        // Work out where to start and which line number that is
+        let start = bomLength;
+        let firstLine = 1;
+        if (cursor) {
+          ({ offset: start, line: firstLine } = decodeReadCursor(cursor));
+        } else if (startLine !== undefined) {
+          if (startLine > 1) {
+            const found = await scanNewlines(
+              targetPath,
+              textEncoding,
+              bomLength,
+              stats.size,
+              startLine - 1
+            );
+            start = found.count === startLine - 1 ? found.offset : stats.size;
+            firstLine = startLine;
+          }
+        } else if (offset !== undefined) {
+          start = Math.max(offset, bomLength);
+          firstLine =
+            (await scanNewlines(targetPath, textEncoding, bomLength, start))
+              .count + 1;
+        }
+
+        const requestedEnd =
+          length !== undefined && startLine === undefined && !cursor
+            ? Math.min(stats.size, start + length)
+            : stats.size;
+        const truncated = requestedEnd - start > maxBytes;
+
+        if (truncated && onOversize === "error" && endLine === undefined) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: Reading ${
+                  requestedEnd - start
+                } bytes from ${filePath} exceeds maxBytes (${maxBytes}). Use startLine/endLine or offset/length to read a smaller range.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const { content, bytesRead } = await fileUtils.safeReadFile(
+          targetPath,
+          false,
+          {
+            start,
+            length: Math.min(requestedEnd - start, maxBytes),
+            encoding: textEncoding,
+          }
+        );
+
+        let lines = (content as string).split("\n");
+        let consumedBytes = bytesRead;
+        let windowTruncated = truncated && start + bytesRead < requestedEnd;
+        let endsOnLineBoundary = !windowTruncated;
+
+        // A trailing newline does not start another line
+        if (!windowTruncated && lines[lines.length - 1] === "") {
+          lines.pop();
+        }
+
+        // Stop at a line boundary so the cursor resumes on a fresh line
+        if (windowTruncated && lines.length > 1) {
+          const partialLine = lines.pop() as string;
+          consumedBytes -= encodedLength(partialLine, textEncoding);
+          endsOnLineBoundary = true;
+        }
+
+        if (endLine !== undefined) {
+          const wanted = Math.max(0, endLine - firstLine + 1);
+          if (lines.length >= wanted) {
+            windowTruncated = false;
+            lines = lines.slice(0, wanted);
+          }
+        }
+
+        if (
+          windowTruncated &&
+          onOversize === "error" &&
+          endLine !== undefined
+        ) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: Lines ${firstLine}-${endLine} of ${filePath} exceed maxBytes (${maxBytes}). Request a smaller line range.`,
               },
             ],
             isError: true,
           };
         }
 
-        await fs.writeFile(filePath, patchedContent, "utf8");
-        logger.info(`Successfully applied patch to ${filePath}`);
+        // A single line longer than maxBytes continues on the same line
+        const nextCursor = windowTruncated
+          ? encodeReadCursor({
+              offset: start + consumedBytes,
+              line: firstLine + lines.length - (endsOnLineBoundary ? 0 : 1),
+            })
+          : undefined;
+
+        const scanned = await scanNewlines(
+          targetPath,
+          textEncoding,
+          bomLength,
+          stats.size
+        );
+        const totalLines =
+          scanned.count + (stats.size > scanned.offset ? 1 : 0);
+
+        const lastLine = firstLine + lines.length - 1;
+        const width = String(Math.max(lastLine, 1)).length;
+        const body = lines
+          .map((line, index) =>
+            lineNumbers
+              ? `${String(firstLine + index).padStart(width)}\t${line}`
+              : line
+          )
+          .join("\n");
+
+        const header = `File: ${filePath} (${textEncoding}${
+          bomLength > 0 ? " with BOM" : ""
+        }, ${stats.size} bytes, ${totalLines} lines)\nVersion: sha256 ${
+          version?.hash
+        }, modified ${version?.mtime}\n${
+          lines.length > 0
+            ? `Lines ${firstLine}-${lastLine}:`
+            : `No lines in the requested range.`
+        }`;
+        const footer = nextCursor
+          ? `\n\n[Truncated at ${maxBytes} bytes. Continue with cursor "${nextCursor}".]`
+          : "";
+
+        logger.debug(`Read ${filePath} lines ${firstLine}-${lastLine}`);
 
         return {
           content: [
             {
               type: "text",
-              text: `Successfully applied patch to ${filePath}`,
+              text: `${header}\n${body}${footer}`,
             },
           ],
           isError: false,
+          _meta: {
+            encoding: textEncoding,
+            hasBom: bomLength > 0,
+            size: stats.size,
+            totalLines,
+            startLine: firstLine,
+            endLine: lastLine,
+            truncated: Boolean(nextCursor),
+            nextCursor,
+            ...version,
+          },
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
         const err = error as NodeJS.ErrnoException;
-        logger.error(`Error applying patch to '${filePath}':`, {
+        logger.error(`Error reading file '${filePath}':`, {
           error: err.message,
         });
 
@@ -143,7 +463,7 @@ function registerApplyPatchTool(server: McpServer): void {
           content: [
             {
               type: "text",
-              text: `Error applying patch: ${err.message}`,
+              text: `Error reading file: ${err.message}`,
             },
           ],
           isError: true,
@@ -154,44 +474,87 @@ function registerApplyPatchTool(server: McpServer): void {
 }
 
 /**
- * Register the list_directory tool
+ * Register the update_file tool
  * @param {McpServer} server - The MCP server instance
  */
-function registerListDirectoryTool(server: McpServer): void {
+function registerUpdateFileTool(server: McpServer): void {
   server.tool(
-    "list_directory",
-    "Tool to list the contents of a directory, showing files and folders with their types",
+    "update_file",
+    "Tool to create or update a file with specified content, creating parent directories if needed. The file is replaced atomically, and expectedHash/expectedMtime make the write fail if the file changed since it was read. Replacing an existing file asks the user to confirm the diff",
     {
-      path: z.string().describe("Path to the directory to list."),
+      filePath: z.string().describe("Path to the file to modify or create."),
+      newContent: z.string().describe("The new content to write to the file."),
+      expectedHash: z
+        .string()
+        .optional()
+        .describe(
+          "SHA-256 the file must still have, as reported by read_file. Otherwise the write fails with a conflict."
+        ),
+      expectedMtime: z
+        .string()
+        .optional()
+        .describe(
+          "Modification time (ISO 8601) the file must still have, as reported by read_file."
+        ),
     },
-    async ({ path: dirPath }, _extra): Promise<ToolResponse> => {
+    async (
+      { filePath, newContent, expectedHash, expectedMtime },
+      extra
+    ): Promise<ToolResponse> => {
       try {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
-        const formattedEntries = entries.map((entry) => {
-          return `${entry.isDirectory() ? "D" : "F"} ${entry.name}`;
+        const targetPath = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
         });
+        const precondition = { expectedHash, expectedMtime };
+        await fileUtils.verifyWritePrecondition(targetPath, precondition);
+        await confirmationUtils.confirmOverwrites(
+          server,
+          extra,
+          `Overwrite ${filePath}`,
+          new Map([
+            [targetPath, { type: "file", content: Buffer.from(newContent) }],
+          ])
+        );
 
-        logger.debug(`Listed directory: ${dirPath}`);
+        // Parent directories are created as needed
+        const staged = await changeSetUtils.writeFile(
+          targetPath,
+          newContent,
+          extra.sessionId,
+          precondition
+        );
+        logger.info(`Successfully updated file: ${filePath}`, { staged });
 
         return {
           content: [
             {
               type: "text",
-              text: `Contents of ${dirPath}:\n${formattedEntries.join("\n")}`,
+              text: staged
+                ? `Staged update of ${filePath} in the active change set`
+                : `Successfully updated ${filePath}`,
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (fileUtils.isWriteConflictError(error)) {
+          return fileUtils.writeConflictErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
-        logger.error(`Error listing directory '${dirPath}':`, {
+        logger.error(`Error updating file '${filePath}':`, {
           error: err.message,
         });
         return {
           content: [
             {
               type: "text",
-              text: `Error listing directory: ${err.message}`,
+              text: `Error updating file: ${err.message}`,
             },
           ],
           isError: true,
@@ -202,45 +565,50 @@ function registerListDirectoryTool(server: McpServer): void {
 }
 
 /**
- * Register the create_directory tool
+ * Register the list_directory tool
  * @param {McpServer} server - The MCP server instance
  */
-function registerCreateDirectoryTool(server: McpServer): void {
+function registerListDirectoryTool(server: McpServer): void {
   server.tool(
-    "create_directory",
-    "Tool to create a directory at the specified path, with optional parent directory creation",
+    "list_directory",
+    "Tool to list the contents of a directory, showing files and folders with their types",
     {
-      path: z.string().describe("Path of the directory to create."),
-      parents: z
-        .boolean()
-        .optional()
-        .default(false)
-        .describe("Create parent directories if they do not exist."),
+      path: z.string().describe("Path to the directory to list."),
     },
-    async ({ path: dirPath, parents }, _extra): Promise<ToolResponse> => {
+    async ({ path: dirPath }, extra): Promise<ToolResponse> => {
       try {
-        await fs.mkdir(dirPath, { recursive: parents });
-        logger.info(`Created directory: ${dirPath} (parents: ${parents})`);
+        const targetPath = await pathPolicy.resolvePath(dirPath, {
+          sessionId: extra.sessionId,
+        });
+        const entries = await fs.readdir(targetPath, { withFileTypes: true });
+        const formattedEntries = entries.map((entry) => {
+          return `${entry.isDirectory() ? "D" : "F"} ${entry.name}`;
+        });
+
+        logger.debug(`Listed directory: ${dirPath}`);
 
         return {
           content: [
             {
               type: "text",
-              text: `Directory created successfully at ${dirPath}`,
+              text: `Contents of ${dirPath}:\n${formattedEntries.join("\n")}`,
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
         const err = error as Error;
-        logger.error(`Error creating directory '${dirPath}':`, {
+        logger.error(`Error listing directory '${dirPath}':`, {
           error: err.message,
         });
         return {
           content: [
             {
               type: "text",
-              text: `Error creating directory: ${err.message}`,
+              text: `Error listing directory: ${err.message}`,
             },
           ],
           isError: true,
@@ -251,101 +619,59 @@ function registerCreateDirectoryTool(server: McpServer): void {
 }
 
 /**
- * Register the search_files tool
+ * Register the create_directory tool
  * @param {McpServer} server - The MCP server instance
  */
-function registerSearchFilesTool(server: McpServer): void {
+function registerCreateDirectoryTool(server: McpServer): void {
   server.tool(
-    "search_files",
-    "Tool to search for a text pattern in files within a specified directory, with optional recursion",
+    "create_directory",
+    "Tool to create a directory at the specified path, with optional parent directory creation",
     {
-      pattern: z.string().describe("The text pattern to search for."),
-      path: z.string().describe("The directory path to start the search from."),
-      recursive: z
+      path: z.string().describe("Path of the directory to create."),
+      parents: z
         .boolean()
         .optional()
-        .default(true)
-        .describe("Whether to search recursively into subdirectories."),
+        .default(false)
+        .describe("Create parent directories if they do not exist."),
     },
-    async ({
-      pattern,
-      path: searchPath,
-      recursive,
-    }: {
-      pattern: string;
-      path: string;
-      recursive: boolean;
-    }): Promise<ToolResponse> => {
+    async ({ path: dirPath, parents }, extra): Promise<ToolResponse> => {
       try {
-        const { process: processUtils } = await import("../utils/index.js");
-
-        const grepArgs = [
-          recursive ? "-r" : "",
-          "-n",
-          "-I",
-          "-e",
-          pattern,
-          searchPath,
-        ].filter(Boolean);
-
-        const { stdout, stderr, code } = await processUtils.runProcess(
-          "grep",
-          grepArgs,
-          { allowNonZeroExitCode: true }
-        );
-
-        if (code === 1 && !stderr && !stdout) {
-          logger.info(
-            `No matches found for pattern "${pattern}" in ${searchPath}`
-          );
-          return {
-            content: [
-              {
-                type: "text",
-                text: `No matches found for pattern "${pattern}" in ${searchPath}`,
-              },
-            ],
-            isError: false,
-          };
-        } else if (code !== 0 && code !== 1) {
-          logger.error(
-            `Grep search failed with code ${code} for pattern "${pattern}" in ${searchPath}. Stderr: ${stderr}`
-          );
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error during search: ${stderr || "Unknown grep error"}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        logger.info(
-          `Search successful for pattern "${pattern}" in ${searchPath}`
+        const targetPath = await pathPolicy.resolvePath(dirPath, {
+          sessionId: extra.sessionId,
+        });
+        const staged = await changeSetUtils.createDirectory(
+          targetPath,
+          parents,
+          extra.sessionId
         );
+        logger.info(`Created directory: ${dirPath} (parents: ${parents})`, {
+          staged,
+        });
 
         return {
           content: [
             {
               type: "text",
-              text: `Search results for "${pattern}" in ${searchPath}:\n\n${stdout}`,
+              text: staged
+                ? `Staged creation of directory ${dirPath} in the active change set`
+                : `Directory created successfully at ${dirPath}`,
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
         const err = error as Error;
-        logger.error(
-          `Error searching files for pattern "${pattern}" in ${searchPath}:`,
-          { error: err.message }
-        );
+        logger.error(`Error creating directory '${dirPath}':`, {
+          error: err.message,
+        });
         return {
           content: [
             {
               type: "text",
-              text: `Error searching files: ${err.message}`,
+              text: `Error creating directory: ${err.message}`,
             },
           ],
           isError: true,
@@ -0,0 +1,316 @@
+/**
+ * Find Files Tool
+ *
+ * Tool for locating files by name anywhere in the workspace:
+ * - Glob patterns over relative paths, with `**` for any depth
+ * - Fuzzy matching ranked like an editor's quick-open
+ * - Type, extension and depth filters, sorted by relevance, path, mtime or size
+ */
+
+import fs from "fs/promises";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolResponse, WalkEntry } from "../types/index.js";
+import {
+  glob as globUtils,
+  logger,
+  pathPolicy,
+  search as searchUtils,
+} from "../utils/index.js";
+
+/**
+ * A file found by find_files
+ */
+interface FoundFile {
+  path: string;
+  type: WalkEntry["type"];
+  size: number;
+  mtime: string;
+  score?: number;
+}
+
+// Characters after which a match starts a new word
+const WORD_SEPARATORS = "/\\_-. ";
+
+/**
+ * Score how well a query fuzzy-matches a path. Every query character must
+ * appear in order; matches at word starts, in the file name and in
+ * consecutive runs score higher, and skipped characters cost a little.
+ * @param {string} query - The query, spaces are ignored
+ * @param {string} target - The path, with forward slashes
+ * @returns {number|null} The score, or null if the query does not match
+ */
+function fuzzyScore(query: string, target: string): number | null {
+  const needle = query.replace(/\s+/g, "").toLowerCase();
+  const haystack = target.toLowerCase();
+  if (needle.length === 0) {
+    return 0;
+  }
+
+  const nameStart = target.lastIndexOf("/") + 1;
+  const bonusAt = (index: number): number => {
+    let bonus = index >= nameStart ? 2 : 0;
+    const previous = target[index - 1];
+    if (index === 0 || WORD_SEPARATORS.includes(previous)) {
+      bonus += index === nameStart ? 10 : 8;
+    } else if (
+      previous === previous.toLowerCase() &&
+      target[index] !== target[index].toLowerCase()
+    ) {
+      bonus += 7;
+    }
+    return bonus;
+  };
+
+  // row[j]: best score with the current query character matched at j
+  let previousRow: number[] = new Array(haystack.length).fill(-Infinity);
+  for (let i = 0; i < needle.length; i++) {
+    const row: number[] = new Array(haystack.length).fill(-Infinity);
+    // Best earlier match that leaves a gap, minus one point per skipped char
+    let bestWithGap = -Infinity;
+    for (let j = i; j < haystack.length; j++) {
+      if (j >= 2) {
+        bestWithGap = Math.max(bestWithGap - 1, previousRow[j - 2] - 1);
+      }
+      if (haystack[j] !== needle[i]) {
+        continue;
+      }
+      const base = 1 + bonusAt(j);
+      if (i === 0) {
+        // Characters before the first match cost less than gaps
+        const skipped = j >= nameStart ? j - nameStart : j;
+        row[j] = base - Math.min(skipped, 10) / 2;
+      } else {
+        const consecutive = j >= 1 ? previousRow[j - 1] + 5 : -Infinity;
+        row[j] = base + Math.max(consecutive, bestWithGap);
+      }
+    }
+    previousRow = row;
+  }
+
+  const score = Math.max(...previousRow);
+  return score === -Infinity ? null : score;
+}
+
+/**
+ * Register the find_files tool
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerFindFilesTool(server: McpServer): void {
+  logger.info("Registering find files tool");
+
+  server.tool(
+    "find_files",
+    "Tool to find files and directories by glob pattern (e.g. src/**/*.test.ts) and/or fuzzy name query ranked like an editor's quick-open. Honours .gitignore and can filter by type, extension and depth and sort by relevance, path, mtime or size",
+    {
+      path: z
+        .string()
+        .optional()
+        .default(".")
+        .describe("Directory to search. Defaults to the workspace."),
+      pattern: z
+        .string()
+        .optional()
+        .describe(
+          "Glob matched against paths relative to path. Without a slash it matches names at any depth."
+        ),
+      query: z
+        .string()
+        .optional()
+        .describe(
+          "Fuzzy query, e.g. 'usrctl' for 'src/user/controller.ts'. Results are ranked by match quality."
+        ),
+      type: z
+        .enum(["file", "directory", "symlink", "any"])
+        .optional()
+        .default("file")
+        .describe("Kind of entries to return."),
+      extensions: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Only return files with one of these extensions, e.g. ['ts', 'tsx']."
+        ),
+      maxDepth: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          "How many directory levels to descend. 1 returns only the entries directly inside path."
+        ),
+      respectGitignore: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Skip paths ignored by .gitignore files, plus .git and node_modules."
+        ),
+      sortBy: z
+        .enum(["relevance", "path", "mtime", "size"])
+        .optional()
+        .describe(
+          "Order of results: relevance (default with a query), path (default otherwise), mtime (newest first) or size (largest first)."
+        ),
+      maxResults: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .optional()
+        .default(100)
+        .describe("Maximum number of entries to return."),
+    },
+    async (
+      {
+        path: searchPath,
+        pattern,
+        query,
+        type,
+        extensions,
+        maxDepth,
+        respectGitignore,
+        sortBy = query ? "relevance" : "path",
+        maxResults,
+      },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const targetPath = await pathPolicy.resolvePath(searchPath, {
+          sessionId: extra.sessionId,
+        });
+        const suffixes = extensions?.map(
+          (extension) => `.${extension.replace(/^\./, "").toLowerCase()}`
+        );
+
+        const found: FoundFile[] = [];
+        for await (const entry of searchUtils.walkTree(targetPath, {
+          respectGitignore,
+          maxDepth,
+        })) {
+          if (type !== "any" && entry.type !== type) {
+            continue;
+          }
+          if (
+            suffixes &&
+            !suffixes.some((suffix) =>
+              entry.relativePath.toLowerCase().endsWith(suffix)
+            )
+          ) {
+            continue;
+          }
+          if (pattern && !globUtils.matchesGlob(entry.relativePath, pattern)) {
+            continue;
+          }
+
+          let score: number | undefined;
+          if (query) {
+            const matched = fuzzyScore(query, entry.relativePath);
+            if (matched === null) {
+              continue;
+            }
+            score = matched;
+          }
+
+          const stats = await fs.lstat(entry.path).catch(() => null);
+          if (!stats) {
+            continue;
+          }
+          found.push({
+            path: entry.relativePath,
+            type: entry.type,
+            size: stats.size,
+            mtime: stats.mtime.toISOString(),
+            score,
+          });
+        }
+
+        found.sort((a, b) => {
+          switch (sortBy) {
+            case "relevance":
+              // Ties go to the shorter path, like quick-open
+              return (
+                (b.score ?? 0) - (a.score ?? 0) ||
+                a.path.length - b.path.length ||
+                a.path.localeCompare(b.path)
+              );
+            case "mtime":
+              return b.mtime.localeCompare(a.mtime);
+            case "size":
+              return b.size - a.size;
+            default:
+              return a.path.localeCompare(b.path);
+          }
+        });
+
+        const files = found.slice(0, maxResults);
+        const truncated = found.length > files.length;
+        logger.info(`Found ${found.length} entries in ${searchPath}`, {
+          pattern,
+          query,
+        });
+
+        if (files.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No matching entries found in ${searchPath}`,
+              },
+            ],
+            isError: false,
+            _meta: { files, total: 0, truncated },
+          };
+        }
+
+        const lines = files.map((file) => {
+          const name = file.type === "directory" ? `${file.path}/` : file.path;
+          if (sortBy === "mtime") {
+            return `${name}  (${file.mtime})`;
+          }
+          if (sortBy === "size") {
+            return `${name}  (${file.size} bytes)`;
+          }
+          return name;
+        });
+        const footer = truncated
+          ? `\n\n[Showing ${files.length} of ${found.length}. Narrow the search or raise maxResults.]`
+          : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${
+                found.length
+              } entries in ${searchPath}:\n${lines.join("\n")}${footer}`,
+            },
+          ],
+          isError: false,
+          _meta: { files, total: found.length, truncated },
+        };
+      } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        const err = error as Error;
+        logger.error(`Error finding files in ${searchPath}:`, {
+          error: err.message,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error finding files: ${err.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+export default {
+  registerFindFilesTool,
+};
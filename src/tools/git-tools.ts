@@ -0,0 +1,1458 @@
+/**
+ * Git Tools
+ *
+ * Structured git tools that return parsed results as JSON in _meta and a
+ * readable summary as text:
+ * - git_status lists staged, unstaged, untracked and conflicted files
+ * - git_log lists commits with range, author, date and message filters
+ * - git_diff shows per-file stats and the patch of unstaged, staged or
+ *   ranged changes
+ * - git_show shows a commit with its diff, or a file at a revision
+ * - git_blame shows the commit, author and date of each line of a file
+ * - git_file_history lists the commits that changed a file, across renames
+ * - git_branch lists, creates, renames and deletes branches
+ * - git_stash lists, saves, applies and drops stash entries
+ * - git_commit stages files and commits them, checking the message against
+ *   Conventional Commits when that is required
+ * - list_conflicts shows the ours, base and theirs sides of each conflict
+ *   hunk left by a merge
+ * - resolve_conflict picks a side, both or custom text per hunk and stages
+ *   the file once no markers are left
+ * - git runs the operations without a structured tool, such as clone,
+ *   commit, push and pull
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import path from "path";
+import {
+  ConflictFile,
+  GitChangeStatus,
+  GitCommit,
+  GitDiffResult,
+  GitFileChange,
+  ToolExtra,
+  ToolResponse,
+} from "../types/index.js";
+import {
+  git as gitUtils,
+  conflict as conflictUtils,
+  changeSet as changeSetUtils,
+  file as fileUtils,
+  process as processUtils,
+  logger,
+  pathPolicy,
+  commandPolicy,
+  confirmation as confirmationUtils,
+} from "../utils/index.js";
+
+/**
+ * Parameters shared by the structured git tools
+ */
+const repoSchema = z
+  .string()
+  .optional()
+  .default(".")
+  .describe(
+    "Path to the repository or a directory inside it. Defaults to the workspace root."
+  );
+
+const formatSchema = z
+  .enum(["text", "json"])
+  .optional()
+  .default("text")
+  .describe(
+    "Return a readable summary or a JSON document. The structured result is always in _meta."
+  );
+
+const pathsSchema = z
+  .array(z.string())
+  .optional()
+  .describe("Limit the result to these files or directories.");
+
+// Options of the git tool's operations that run a program of the caller's
+// choosing, set arbitrary config or write the repository somewhere else
+const UNSAFE_GIT_OPTIONS: Record<string, string[]> = {
+  clone: [
+    "--upload-pack",
+    "-u",
+    "--config",
+    "-c",
+    "--template",
+    "--separate-git-dir",
+  ],
+  init: ["--template", "--separate-git-dir"],
+  pull: ["--upload-pack"],
+  push: ["--receive-pack", "--exec"],
+};
+
+// Options of clone and init whose value is the next argument, so that the
+// directory among the positional arguments can be found
+const GIT_VALUE_OPTIONS: Record<string, string[]> = {
+  clone: [
+    "--origin",
+    "-o",
+    "--branch",
+    "-b",
+    "--upload-pack",
+    "-u",
+    "--reference",
+    "--reference-if-able",
+    "--separate-git-dir",
+    "--depth",
+    "--shallow-since",
+    "--shallow-exclude",
+    "--config",
+    "-c",
+    "--template",
+    "--jobs",
+    "-j",
+    "--filter",
+    "--server-option",
+    "--bundle-uri",
+    "--ref-format",
+    "--revision",
+  ],
+  init: [
+    "--template",
+    "--separate-git-dir",
+    "--object-format",
+    "--ref-format",
+    "--initial-branch",
+    "-b",
+  ],
+};
+
+// Letters used for change statuses in summaries, as git prints them
+const STATUS_LETTERS: Record<GitChangeStatus, string> = {
+  added: "A",
+  modified: "M",
+  deleted: "D",
+  renamed: "R",
+  copied: "C",
+  "type-changed": "T",
+  unmerged: "U",
+  unknown: "?",
+};
+
+/**
+ * Register the git tools
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerGitTools(server: McpServer): void {
+  logger.info("Registering git tools");
+
+  registerGitStatusTool(server);
+  registerGitLogTool(server);
+  registerGitDiffTool(server);
+  registerGitShowTool(server);
+  registerGitBlameTool(server);
+  registerGitFileHistoryTool(server);
+  registerGitBranchTool(server);
+  registerGitStashTool(server);
+  registerGitCommitTool(server);
+  registerListConflictsTool(server);
+  registerResolveConflictTool(server);
+  registerGitTool(server);
+}
+
+/**
+ * Build the error response used when a git tool fails
+ * @param {string} action - What was being attempted
+ * @param {unknown} error - The error
+ * @returns {ToolResponse} The error response
+ */
+function gitErrorResponse(action: string, error: unknown): ToolResponse {
+  if (pathPolicy.isPathPolicyError(error)) {
+    return pathPolicy.pathPolicyErrorResponse(error);
+  }
+  if (commandPolicy.isCommandPolicyError(error)) {
+    return commandPolicy.commandPolicyErrorResponse(error);
+  }
+  if (confirmationUtils.isConfirmationDeclinedError(error)) {
+    return confirmationUtils.confirmationDeclinedResponse(error);
+  }
+  const err = error as Error;
+  logger.error(`Error trying to ${action}:`, { error: err.message });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error trying to ${action}: ${err.message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Build the response of a structured git tool
+ * @param {"text"|"json"} format - The requested format
+ * @param {string} summary - The readable summary
+ * @param {object} result - The structured result
+ * @returns {ToolResponse} The response
+ */
+function gitResponse(
+  format: "text" | "json",
+  summary: string,
+  result: object
+): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text: format === "json" ? JSON.stringify(result, null, 2) : summary,
+      },
+    ],
+    isError: false,
+    _meta: { ...result },
+  };
+}
+
+/**
+ * Resolve the repository directory and optional paths inside it
+ * @param {string} repoPath - The repository path
+ * @param {string[]|undefined} paths - Paths to limit the result to
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @returns {Promise<{cwd: string, paths: string[]}>} The directory and pathspecs relative to it
+ */
+async function resolveRepo(
+  repoPath: string,
+  paths: string[] | undefined,
+  extra: ToolExtra
+): Promise<{ cwd: string; paths: string[] }> {
+  const cwd = await pathPolicy.resolvePath(repoPath, {
+    sessionId: extra.sessionId,
+  });
+  const pathspecs: string[] = [];
+  for (const entry of paths ?? []) {
+    const resolved = await pathPolicy.resolvePath(path.resolve(cwd, entry), {
+      sessionId: extra.sessionId,
+    });
+    pathspecs.push(path.relative(cwd, resolved) || ".");
+  }
+  return { cwd, paths: pathspecs };
+}
+
+/**
+ * Describe a changed file in one line
+ * @param {GitFileChange} change - The change
+ * @returns {string} The description
+ */
+function describeChange(change: GitFileChange): string {
+  const name = change.oldPath
+    ? `${change.oldPath} -> ${change.path}`
+    : change.path;
+  return `${STATUS_LETTERS[change.status]} ${name}`;
+}
+
+/**
+ * Describe a commit in one line
+ * @param {GitCommit} commit - The commit
+ * @returns {string} The description
+ */
+function describeCommit(commit: GitCommit): string {
+  const refs = commit.refs.length > 0 ? ` (${commit.refs.join(", ")})` : "";
+  return `${commit.shortHash} ${commit.author.date.slice(0, 10)} ${
+    commit.author.name
+  }${refs} ${commit.subject}`;
+}
+
+/**
+ * Describe a diff as a file list with line counts, then the patch
+ * @param {GitDiffResult} diff - The diff
+ * @returns {string} The description
+ */
+function describeDiff(diff: GitDiffResult): string {
+  if (diff.files.length === 0) {
+    return "No changes.";
+  }
+  const lines = diff.files.map(
+    (file) =>
+      `  ${describeChange(file)} | ${
+        file.binary ? "binary" : `+${file.additions} -${file.deletions}`
+      }`
+  );
+  lines.push(
+    `${diff.files.length} file(s) changed, ${diff.additions} insertion(s)(+), ${diff.deletions} deletion(s)(-)`
+  );
+  if (diff.patch !== undefined) {
+    lines.push("", diff.patch);
+    if (diff.patchTruncated) {
+      lines.push("[The patch was truncated; limit it with paths.]");
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Describe a conflicted file and the sides of each of its hunks
+ * @param {ConflictFile} file - The file
+ * @returns {string} The description
+ */
+function describeConflict(file: ConflictFile): string {
+  const lines = [`${file.path} (${file.conflict})`];
+  if (!file.exists) {
+    lines.push(
+      "  Deleted on one side; keep it with git add or remove it with git rm."
+    );
+  } else if (file.binary) {
+    lines.push(
+      "  Binary file; pick a side with git checkout --ours or --theirs."
+    );
+  } else if (file.hunks.length === 0) {
+    lines.push("  No conflict markers left; stage it with resolve_conflict.");
+  }
+  for (const hunk of file.hunks) {
+    lines.push(
+      `  Hunk ${hunk.index}, lines ${hunk.startLine}-${hunk.endLine}:`
+    );
+    const sides: [string, string, string | undefined][] = [
+      ["ours", hunk.oursLabel, hunk.ours],
+      ["base", hunk.baseLabel ?? "", hunk.base],
+      ["theirs", hunk.theirsLabel, hunk.theirs],
+    ];
+    for (const [side, label, content] of sides) {
+      if (content === undefined) {
+        continue;
+      }
+      lines.push(`  --- ${side}${label ? ` (${label})` : ""}`);
+      if (content !== "") {
+        lines.push(
+          ...content
+            .replace(/\r?\n$/, "")
+            .split(/\r?\n/)
+            .map((line) => `    ${line}`)
+        );
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Register the git_status tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitStatusTool(server: McpServer): void {
+  server.tool(
+    "git_status",
+    "Tool to show the status of a git working tree: the branch and its upstream, and the staged, unstaged, untracked and conflicted files",
+    {
+      path: repoSchema,
+      untrackedFiles: z
+        .enum(["all", "normal", "no"])
+        .optional()
+        .default("all")
+        .describe(
+          "List every untracked file, only untracked directories, or none."
+        ),
+      includeIgnored: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also list ignored files."),
+      format: formatSchema,
+    },
+    async (
+      { path: repoPath, untrackedFiles, includeIgnored, format },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const { cwd } = await resolveRepo(repoPath, undefined, extra);
+        const status = await gitUtils.getStatus(cwd, {
+          untrackedFiles,
+          includeIgnored,
+        });
+
+        let branch = status.branch
+          ? `On branch ${status.branch}`
+          : `HEAD detached at ${status.commit?.slice(0, 7) ?? "(no commit)"}`;
+        if (status.upstream) {
+          branch += ` (tracking ${status.upstream}, ahead ${status.ahead}, behind ${status.behind})`;
+        }
+        const lines = [branch];
+        const section = (title: string, entries: string[]): void => {
+          if (entries.length > 0) {
+            lines.push(
+              "",
+              `${title} (${entries.length}):`,
+              ...entries.map((entry) => `  ${entry}`)
+            );
+          }
+        };
+        section(
+          "Conflicted",
+          status.conflicted.map((entry) => `${entry.conflict}: ${entry.path}`)
+        );
+        section("Staged", status.staged.map(describeChange));
+        section("Unstaged", status.unstaged.map(describeChange));
+        section("Untracked", status.untracked);
+        section("Ignored", status.ignored);
+        if (status.clean) {
+          lines.push("", "Nothing to commit, working tree clean");
+        }
+
+        return gitResponse(format, lines.join("\n"), status);
+      } catch (error) {
+        return gitErrorResponse(`get the git status of '${repoPath}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the git_log tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitLogTool(server: McpServer): void {
+  server.tool(
+    "git_log",
+    "Tool to list git commits, newest first, with hash, parents, author, committer, dates, refs and message. Filter by range, author, date, message and paths",
+    {
+      path: repoSchema,
+      range: z
+        .string()
+        .optional()
+        .describe(
+          "Revision or range to list, such as 'main', 'v1.0..HEAD' or 'main...feature'. Defaults to HEAD."
+        ),
+      maxCount: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .optional()
+        .default(20)
+        .describe("Maximum number of commits to return."),
+      skip: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe("Number of commits to skip, for paging."),
+      author: z
+        .string()
+        .optional()
+        .describe(
+          "Only commits whose author name or email matches this regex."
+        ),
+      since: z
+        .string()
+        .optional()
+        .describe(
+          "Only commits after this date (e.g., '2025-01-01' or '2 weeks ago')."
+        ),
+      until: z.string().optional().describe("Only commits before this date."),
+      grep: z
+        .string()
+        .optional()
+        .describe("Only commits whose message matches this regex."),
+      paths: pathsSchema,
+      noMerges: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Leave out merge commits."),
+      firstParent: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Follow only the first parent of merge commits."),
+      format: formatSchema,
+    },
+    async (
+      { path: repoPath, paths, format, ...options },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const repo = await resolveRepo(repoPath, paths, extra);
+        const commits = await gitUtils.getLog(repo.cwd, {
+          ...options,
+          paths: repo.paths,
+        });
+        return gitResponse(
+          format,
+          commits.length > 0
+            ? commits.map(describeCommit).join("\n")
+            : "No commits found.",
+          { commits }
+        );
+      } catch (error) {
+        return gitErrorResponse(`get the git log of '${repoPath}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the git_diff tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitDiffTool(server: McpServer): void {
+  server.tool(
+    "git_diff",
+    "Tool to show git changes with per-file status and line counts, and the patch: unstaged changes by default, staged changes, or a range of commits",
+    {
+      path: repoSchema,
+      staged: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Compare the index with HEAD instead of the working tree with the index."
+        ),
+      range: z
+        .string()
+        .optional()
+        .describe(
+          "Commits to compare, such as 'HEAD~3', 'main..feature' or 'main...feature'. A single commit compares it with the working tree, or the index when staged."
+        ),
+      paths: pathsSchema,
+      contextLines: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(3)
+        .describe("Lines of context around each change in the patch."),
+      includePatch: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Include the patch, not only the per-file stats."),
+      format: formatSchema,
+    },
+    async (
+      { path: repoPath, paths, format, ...options },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const repo = await resolveRepo(repoPath, paths, extra);
+        const diff = await gitUtils.getDiff(repo.cwd, {
+          ...options,
+          paths: repo.paths,
+        });
+        return gitResponse(format, describeDiff(diff), diff);
+      } catch (error) {
+        return gitErrorResponse(`get the git diff of '${repoPath}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the git_show tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitShowTool(server: McpServer): void {
+  server.tool(
+    "git_show",
+    "Tool to show a git commit with its message, per-file stats and patch, or with file set, the content of a file at that revision",
+    {
+      path: repoSchema,
+      ref: z
+        .string()
+        .optional()
+        .default("HEAD")
+        .describe("The commit, branch, tag or stash entry to show."),
+      file: z
+        .string()
+        .optional()
+        .describe("Show this file's content at ref instead of the commit."),
+      paths: pathsSchema,
+      contextLines: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(3)
+        .describe("Lines of context around each change in the patch."),
+      includePatch: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Include the patch, not only the per-file stats."),
+      format: formatSchema,
+    },
+    async (
+      { path: repoPath, ref, file, paths, contextLines, includePatch, format },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const repo = await resolveRepo(repoPath, file ? [file] : paths, extra);
+
+        if (file) {
+          const content = await gitUtils.showFile(repo.cwd, ref, repo.paths[0]);
+          return gitResponse(format, content, { ref, file, content });
+        }
+
+        const result = await gitUtils.showCommit(repo.cwd, ref, {
+          paths: repo.paths,
+          contextLines,
+          includePatch,
+        });
+        const { commit } = result;
+        const header = [
+          `commit ${commit.hash}${
+            commit.refs.length > 0 ? ` (${commit.refs.join(", ")})` : ""
+          }`,
+          ...(commit.parents.length > 1
+            ? [`Merge: ${commit.parents.map((p) => p.slice(0, 7)).join(" ")}`]
+            : []),
+          `Author: ${commit.author.name} <${commit.author.email}>`,
+          `Date:   ${commit.author.date}`,
+          "",
+          `    ${commit.subject}`,
+          ...(commit.body
+            ? ["", ...commit.body.split("\n").map((line) => `    ${line}`)]
+            : []),
+          "",
+        ];
+        return gitResponse(
+          format,
+          `${header.join("\n")}\n${describeDiff(result.diff)}`,
+          result
+        );
+      } catch (error) {
+        return gitErrorResponse(`show '${ref}' in '${repoPath}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the git_blame tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitBlameTool(server: McpServer): void {
+  server.tool(
+    "git_blame",
+    "Tool to show who last changed each line of a file and why: the commit, author, date and commit summary per line, optionally for a line range or at a revision",
+    {
+      path: repoSchema,
+      file: z.string().describe("The file to blame."),
+      startLine: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("First line to blame (1-based)."),
+      endLine: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Last line to blame (inclusive)."),
+      ref: z
+        .string()
+        .optional()
+        .describe(
+          "Blame the file as of this revision. Defaults to the working tree."
+        ),
+      ignoreWhitespace: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Ignore whitespace-only changes."),
+      format: formatSchema,
+    },
+    async (
+      { path: repoPath, file, format, ...options },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const repo = await resolveRepo(repoPath, [file], extra);
+        const result = await gitUtils.blameFile(
+          repo.cwd,
+          repo.paths[0],
+          options
+        );
+
+        const width = Math.max(
+          0,
+          ...result.lines.map((line) => line.author.length)
+        );
+        const summary = result.lines
+          .map(
+            (line) =>
+              `${line.commit.slice(0, 8)} ${line.date.slice(
+                0,
+                10
+              )} ${line.author.padEnd(width)} ${String(line.line).padStart(
+                5
+              )}| ${line.content}`
+          )
+          .join("\n");
+        const commits = new Map(
+          result.lines.map((line) => [line.commit, line.summary])
+        );
+        const legend = [...commits]
+          .map(([commit, subject]) => `${commit.slice(0, 8)} ${subject}`)
+          .join("\n");
+        return gitResponse(
+          format,
+          result.lines.length > 0
+            ? `${summary}\n\nCommits:\n${legend}`
+            : "No lines to blame.",
+          result
+        );
+      } catch (error) {
+        return gitErrorResponse(`blame '${file}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the git_file_history tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitFileHistoryTool(server: McpServer): void {
+  server.tool(
+    "git_file_history",
+    "Tool to list the commits that changed a file, newest first, following renames, with the file's path, line counts and patch in each commit",
+    {
+      path: repoSchema,
+      file: z.string().describe("The file, as it is named now or at ref."),
+      ref: z
+        .string()
+        .optional()
+        .describe("Start from this revision. Defaults to HEAD."),
+      maxCount: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(10)
+        .describe("Maximum number of commits to return."),
+      includePatch: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Include the file's patch in each commit."),
+      contextLines: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(3)
+        .describe("Lines of context around each change in the patches."),
+      format: formatSchema,
+    },
+    async (
+      { path: repoPath, file, format, ...options },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const repo = await resolveRepo(repoPath, [file], extra);
+        const history = await gitUtils.getFileHistory(
+          repo.cwd,
+          repo.paths[0],
+          options
+        );
+
+        const summary = history
+          .map(({ commit, file: change, patch }) => {
+            const counts = change.binary
+              ? "binary"
+              : `+${change.additions ?? 0} -${change.deletions ?? 0}`;
+            const lines = [
+              `${describeCommit(commit)}\n  ${describeChange(
+                change
+              )} | ${counts}`,
+            ];
+            if (patch) {
+              lines.push("", patch);
+            }
+            return lines.join("\n");
+          })
+          .join("\n\n");
+        return gitResponse(
+          format,
+          summary || `No commits found for '${file}'.`,
+          { history }
+        );
+      } catch (error) {
+        return gitErrorResponse(`get the history of '${file}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the git_branch tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitBranchTool(server: McpServer): void {
+  server.tool(
+    "git_branch",
+    "Tool to list git branches with their commit, upstream and ahead/behind counts, or to create, rename or delete a branch. Force-deleting a branch asks the user first",
+    {
+      path: repoSchema,
+      action: z
+        .enum(["list", "create", "rename", "delete"])
+        .optional()
+        .default("list")
+        .describe("What to do."),
+      name: z
+        .string()
+        .optional()
+        .describe("The branch to create, rename or delete."),
+      newName: z.string().optional().describe("The new name, for rename."),
+      startPoint: z
+        .string()
+        .optional()
+        .describe("Where a created branch starts. Defaults to HEAD."),
+      force: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Delete a branch that is not merged, or create or rename over an existing branch."
+        ),
+      includeRemote: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also list remote-tracking branches."),
+      format: formatSchema,
+    },
+    async (
+      {
+        path: repoPath,
+        action,
+        name,
+        newName,
+        startPoint,
+        force,
+        includeRemote,
+        format,
+      },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const { cwd } = await resolveRepo(repoPath, undefined, extra);
+
+        if (action !== "list") {
+          if (!name || (action === "rename" && !newName)) {
+            throw new Error(
+              action === "rename"
+                ? "name and newName are required to rename a branch"
+                : `name is required to ${action} a branch`
+            );
+          }
+          let args: string[];
+          if (action === "create") {
+            args = ["branch", ...(force ? ["--force"] : [])];
+            args.push(gitUtils.checkRevision(name));
+            if (startPoint) {
+              args.push(gitUtils.checkRevision(startPoint));
+            }
+          } else if (action === "rename") {
+            args = [
+              "branch",
+              force ? "-M" : "-m",
+              gitUtils.checkRevision(name),
+              gitUtils.checkRevision(newName as string),
+            ];
+          } else {
+            if (force) {
+              await confirmationUtils.requireConfirmation(server, extra, {
+                title: `Force-delete branch ${name}`,
+                summary:
+                  "Commits only reachable from this branch will no longer be on any branch.",
+              });
+            }
+            args = [
+              "branch",
+              force ? "-D" : "-d",
+              gitUtils.checkRevision(name),
+            ];
+          }
+          const output = await gitUtils.runGit(args, cwd, {
+            signal: extra.signal,
+          });
+          logger.info(`git branch ${action} ${name} in ${repoPath}`);
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  output.trim() ||
+                  (action === "create"
+                    ? `Created branch ${name}`
+                    : `Renamed branch ${name} to ${newName}`),
+              },
+            ],
+            isError: false,
+            _meta: { action, name, newName },
+          };
+        }
+
+        const branches = await gitUtils.listBranches(cwd, includeRemote);
+        const summary = branches
+          .map((branch) => {
+            let tracking = "";
+            if (branch.upstreamGone) {
+              tracking = ` [${branch.upstream}: gone]`;
+            } else if (branch.upstream) {
+              const counts = [
+                branch.ahead ? `ahead ${branch.ahead}` : "",
+                branch.behind ? `behind ${branch.behind}` : "",
+              ].filter(Boolean);
+              tracking = ` [${branch.upstream}${
+                counts.length > 0 ? `: ${counts.join(", ")}` : ""
+              }]`;
+            }
+            return `${branch.current ? "*" : " "} ${
+              branch.name
+            } ${branch.commit.slice(0, 7)}${tracking} ${branch.subject}`;
+          })
+          .join("\n");
+        return gitResponse(format, summary || "No branches yet.", {
+          branches,
+        });
+      } catch (error) {
+        return gitErrorResponse(
+          `${action} git branches in '${repoPath}'`,
+          error
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Register the git_stash tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitStashTool(server: McpServer): void {
+  server.tool(
+    "git_stash",
+    "Tool to list git stash entries, save the working tree changes to the stash, or apply, pop or drop an entry. Dropping asks the user first",
+    {
+      path: repoSchema,
+      action: z
+        .enum(["list", "push", "apply", "pop", "drop"])
+        .optional()
+        .default("list")
+        .describe("What to do."),
+      message: z.string().optional().describe("Message for push."),
+      includeUntracked: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also stash untracked files, for push."),
+      paths: pathsSchema,
+      index: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe("The entry to apply, pop or drop; 0 is the newest."),
+      format: formatSchema,
+    },
+    async (
+      {
+        path: repoPath,
+        action,
+        message,
+        includeUntracked,
+        paths,
+        index,
+        format,
+      },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const repo = await resolveRepo(repoPath, paths, extra);
+
+        if (action === "list") {
+          const stashes = await gitUtils.listStashes(repo.cwd);
+          return gitResponse(
+            format,
+            stashes.length > 0
+              ? stashes
+                  .map((stash) => `${stash.ref} ${stash.date} ${stash.message}`)
+                  .join("\n")
+              : "No stash entries.",
+            { stashes }
+          );
+        }
+
+        let args: string[];
+        if (action === "push") {
+          args = ["stash", "push"];
+          if (includeUntracked) {
+            args.push("--include-untracked");
+          }
+          if (message) {
+            args.push("--message", message);
+          }
+          args.push("--", ...repo.paths);
+        } else {
+          const ref = `stash@{${index}}`;
+          if (action === "drop") {
+            const entry = (await gitUtils.listStashes(repo.cwd))[index];
+            await confirmationUtils.requireConfirmation(server, extra, {
+              title: `Drop ${ref}`,
+              summary: `The stashed changes${
+                entry ? ` '${entry.message}'` : ""
+              } will be deleted.`,
+            });
+          }
+          args = ["stash", action, ref];
+        }
+
+        const output = await gitUtils.runGit(args, repo.cwd, {
+          signal: extra.signal,
+        });
+        logger.info(`git stash ${action} in ${repoPath}`);
+        return {
+          content: [
+            {
+              type: "text",
+              text: output.trim() || `git stash ${action} done`,
+            },
+          ],
+          isError: false,
+          _meta: { action, index },
+        };
+      } catch (error) {
+        return gitErrorResponse(`${action} git stash in '${repoPath}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the git_commit tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitCommitTool(server: McpServer): void {
+  server.tool(
+    "git_commit",
+    "Tool to commit staged changes, after staging the given files, with an optional author override or amending the last commit. Checks the message against Conventional Commits when the server requires them. Returns the new commit's hash and per-file stats",
+    {
+      path: repoSchema,
+      message: z
+        .string()
+        .describe(
+          "The commit message: a header line, then optionally a blank line and a body."
+        ),
+      files: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Files or directories to stage first, including deletions. Already staged changes are committed too."
+        ),
+      author: z
+        .string()
+        .optional()
+        .describe(
+          "Author to record instead of the configured one, as 'Name <email>'."
+        ),
+      amend: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Replace the last commit instead of adding one."),
+      allowEmpty: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Commit even if nothing is staged."),
+      conventional: z
+        .boolean()
+        .optional()
+        .describe(
+          "Check the message against Conventional Commits. Defaults to the server's CODE_TOOLS_CONVENTIONAL_COMMITS setting."
+        ),
+      format: formatSchema,
+    },
+    async (
+      {
+        path: repoPath,
+        message,
+        files,
+        author,
+        amend,
+        allowEmpty,
+        conventional,
+        format,
+      },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const types = gitUtils.getConventionalCommitTypes();
+        if (conventional ?? types !== undefined) {
+          const check = gitUtils.checkConventionalCommit(message, types);
+          if (!check.valid) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `The commit message is not a Conventional Commit:\n${check.problems
+                    .map((problem) => `- ${problem}`)
+                    .join("\n")}`,
+                },
+              ],
+              isError: true,
+              _meta: { conventionalCommit: check },
+            };
+          }
+        }
+
+        const repo = await resolveRepo(repoPath, files, extra);
+        const result = await gitUtils.createCommit(repo.cwd, {
+          message,
+          files: repo.paths,
+          author,
+          amend,
+          allowEmpty,
+          signal: extra.signal,
+        });
+
+        return gitResponse(
+          format,
+          `${result.amended ? "Amended" : "Committed"} ${describeCommit(
+            result.commit
+          )}\n${describeDiff(result.diff)}`,
+          result
+        );
+      } catch (error) {
+        return gitErrorResponse(`commit in '${repoPath}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the list_conflicts tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerListConflictsTool(server: McpServer): void {
+  server.tool(
+    "list_conflicts",
+    "Tool to list the files a merge, rebase, cherry-pick or stash left conflicted, with the ours, base and theirs sides of each conflict hunk",
+    {
+      path: repoSchema,
+      paths: pathsSchema,
+      format: formatSchema,
+    },
+    async ({ path: repoPath, paths, format }, extra): Promise<ToolResponse> => {
+      try {
+        const repo = await resolveRepo(repoPath, paths, extra);
+        const files = await conflictUtils.listConflicts(
+          repo.cwd,
+          paths ? repo.paths : undefined
+        );
+        const hunks = files.reduce((sum, file) => sum + file.hunks.length, 0);
+
+        return gitResponse(
+          format,
+          files.length > 0
+            ? `${files.length} conflicted file(s), ${hunks} hunk(s):\n\n${files
+                .map(describeConflict)
+                .join("\n\n")}`
+            : "No conflicts.",
+          { files }
+        );
+      } catch (error) {
+        return gitErrorResponse(`list conflicts in '${repoPath}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the resolve_conflict tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerResolveConflictTool(server: McpServer): void {
+  server.tool(
+    "resolve_conflict",
+    "Tool to resolve conflict hunks in a file, as numbered by list_conflicts, by keeping ours, theirs, both or custom text. Once no conflict markers are left the file is staged as resolved",
+    {
+      path: repoSchema,
+      file: z.string().describe("The conflicted file."),
+      resolutions: z
+        .array(
+          z.object({
+            hunk: z
+              .number()
+              .int()
+              .min(0)
+              .describe(
+                "The hunk's index from list_conflicts. Indexes shift once earlier hunks are resolved."
+              ),
+            choice: z
+              .enum(["ours", "theirs", "both", "custom"])
+              .describe(
+                "Keep our side, their side, ours followed by theirs, or the given content."
+              ),
+            content: z
+              .string()
+              .optional()
+              .describe("The text replacing the hunk, for custom."),
+          })
+        )
+        .describe("The hunks to resolve. Other hunks keep their markers."),
+    },
+    async (
+      { path: repoPath, file, resolutions },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const repo = await resolveRepo(repoPath, [file], extra);
+        const relativePath = repo.paths[0];
+        const targetPath = path.join(repo.cwd, relativePath);
+        const decoded = fileUtils.decodeContent(
+          await changeSetUtils.readFile(targetPath, extra.sessionId)
+        );
+        if (!decoded) {
+          throw new Error(
+            `${file} is a binary file; pick a side with git checkout --ours or --theirs`
+          );
+        }
+
+        const result = conflictUtils.resolveConflictMarkers(
+          decoded.content,
+          resolutions
+        );
+        const content = fileUtils.encodeText(
+          result.content,
+          decoded.encoding,
+          decoded.hasBom
+        );
+        await confirmationUtils.confirmOverwrites(
+          server,
+          extra,
+          `Resolve conflicts in ${file}`,
+          new Map([[targetPath, { type: "file", content }]])
+        );
+        const inChangeSet = await changeSetUtils.writeFile(
+          targetPath,
+          content,
+          extra.sessionId
+        );
+        // A file in a change set is only on disk once it is committed
+        const added = !result.markersLeft && !inChangeSet;
+        if (added) {
+          await gitUtils.runGit(["add", "--", relativePath], repo.cwd);
+        }
+        logger.info(`Resolved ${result.resolved} conflict hunk(s) in ${file}`, {
+          remaining: result.remaining,
+          added,
+        });
+
+        let next = `${result.remaining} hunk(s) left; the file stays conflicted.`;
+        if (added) {
+          next = "No conflict markers left; the file is staged as resolved.";
+        } else if (inChangeSet) {
+          next =
+            "The change is staged in the change set; stage the file with git add once it is committed.";
+        } else if (result.remaining === 0) {
+          next =
+            "Conflict markers that are not part of a complete hunk are left; the file stays conflicted.";
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Resolved ${result.resolved} hunk(s) in ${file}. ${next}`,
+            },
+          ],
+          isError: false,
+          _meta: {
+            file: relativePath,
+            resolved: result.resolved,
+            remaining: result.remaining,
+            markersLeft: result.markersLeft,
+            added,
+            inChangeSet,
+          },
+        };
+      } catch (error) {
+        if (fileUtils.isWriteConflictError(error)) {
+          return fileUtils.writeConflictErrorResponse(error);
+        }
+        return gitErrorResponse(`resolve conflicts in '${file}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Check the arguments of a git tool operation and resolve the directory that
+ * clone or init creates. Options that run a program of the caller's choosing,
+ * set config or move the repository elsewhere are rejected, including the
+ * abbreviations of long options that git accepts.
+ * @param {string} operation - The git operation
+ * @param {string[]} args - The arguments after the operation
+ * @param {string} cwd - Resolved directory the operation runs in
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<string[]>} The arguments, with the directory resolved
+ * @throws {PathPolicyError} If the directory is outside the allowed roots
+ */
+async function prepareGitArgs(
+  operation: string,
+  args: string[],
+  cwd: string,
+  sessionId?: string
+): Promise<string[]> {
+  const unsafe = UNSAFE_GIT_OPTIONS[operation] ?? [];
+  const valueOptions = GIT_VALUE_OPTIONS[operation] ?? [];
+  const reject = (arg: string): never => {
+    throw new Error(`the option '${arg}' is not allowed for git ${operation}`);
+  };
+
+  const prepared = [...args];
+  const positional: number[] = [];
+  let optionsEnded = false;
+  for (let i = 0; i < prepared.length; i++) {
+    const arg = prepared[i];
+    if (optionsEnded || arg === "-" || !arg.startsWith("-")) {
+      positional.push(i);
+    } else if (arg === "--") {
+      optionsEnded = true;
+    } else if (arg.startsWith("--")) {
+      const name = arg.split("=")[0];
+      const matches = (option: string): boolean =>
+        option.startsWith("--") && option.startsWith(name);
+      if (unsafe.some(matches)) {
+        reject(arg);
+      }
+      if (!arg.includes("=") && valueOptions.some(matches)) {
+        i++;
+      }
+    } else {
+      // Short options can be grouped, and the last one takes the rest as value
+      for (let j = 1; j < arg.length; j++) {
+        const option = `-${arg[j]}`;
+        if (unsafe.includes(option)) {
+          reject(arg);
+        }
+        if (valueOptions.includes(option)) {
+          if (j === arg.length - 1) {
+            i++;
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  // clone takes the repository before the directory
+  let directoryIndex: number | undefined;
+  if (operation === "clone") {
+    directoryIndex = positional[1];
+  } else if (operation === "init") {
+    directoryIndex = positional[0];
+  }
+  if (directoryIndex !== undefined) {
+    prepared[directoryIndex] = await pathPolicy.resolvePath(
+      path.resolve(cwd, prepared[directoryIndex]),
+      { sessionId }
+    );
+  }
+  return prepared;
+}
+
+/**
+ * Register the git tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerGitTool(server: McpServer): void {
+  server.tool(
+    "git",
+    "Tool to run git operations that have no structured tool, such as clone, init, add, push, pull and checkout. Use git_status, git_log, git_diff, git_show, git_branch, git_stash and git_commit for the others",
+    {
+      operation: z
+        .enum(["clone", "init", "add", "commit", "push", "pull", "checkout"])
+        .describe("Git operation to perform."),
+      path: z
+        .string()
+        .describe("Path to the git repository or target directory."),
+      args: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .describe(
+          "Additional arguments for the git command, as a command line with shell quoting (e.g., '-m \"Fix bug\"') or as a list."
+        ),
+    },
+    async (
+      { operation, path: repoPath, args },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        let argsList: string[] = [];
+        if (args) {
+          argsList = Array.isArray(args)
+            ? args
+            : processUtils.splitCommandLine(args);
+        }
+        if (operation === "clone" && argsList.length === 0) {
+          throw new Error(
+            "Repository URL is required for git clone. Use the args parameter to specify it."
+          );
+        }
+
+        const cwd = await pathPolicy.resolvePath(repoPath, {
+          sessionId: extra.sessionId,
+        });
+        argsList = [
+          operation,
+          ...(await prepareGitArgs(operation, argsList, cwd, extra.sessionId)),
+        ];
+        // Commands such as push run once the user approves them
+        const { stdout, stderr, code } =
+          await confirmationUtils.runWithCommandApproval(
+            server,
+            extra,
+            (approvedRules) =>
+              processUtils.runProcess("git", argsList, {
+                cwd,
+                approvedRules,
+                allowNonZeroExitCode: true,
+                signal: extra.signal,
+              })
+          );
+        logger.info(`Git ${operation} completed with code ${code}`);
+        if (code !== 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Git error: ${stderr || stdout}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Git output:\n${stdout}${
+                stderr ? `\n\nErrors/Warnings:\n${stderr}` : ""
+              }`,
+            },
+          ],
+          isError: false,
+        };
+      } catch (error) {
+        return gitErrorResponse(`run git ${operation} in '${repoPath}'`, error);
+      }
+    }
+  );
+}
+
+export default {
+  registerGitTools,
+};
@@ -0,0 +1,360 @@
+/**
+ * History Tools
+ *
+ * Tools for recovering overwritten content from the file history:
+ * - list_file_history shows the recorded versions of a file
+ * - restore_file_version writes an earlier version back
+ * - undo_last_change reverts the most recent change across the workspace
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StagedChange, ToolResponse } from "../types/index.js";
+import {
+  changeSet as changeSetUtils,
+  confirmation as confirmationUtils,
+  file as fileUtils,
+  history as historyUtils,
+  logger,
+  pathPolicy,
+} from "../utils/index.js";
+
+/**
+ * Register the history tools
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerHistoryTools(server: McpServer): void {
+  logger.info("Registering history tools");
+
+  registerListFileHistoryTool(server);
+  registerRestoreFileVersionTool(server);
+  registerUndoLastChangeTool(server);
+}
+
+/**
+ * Build the error response used when a history operation fails
+ * @param {string} action - What was being attempted
+ * @param {unknown} error - The error
+ * @returns {ToolResponse} The error response
+ */
+function historyErrorResponse(action: string, error: unknown): ToolResponse {
+  if (pathPolicy.isPathPolicyError(error)) {
+    return pathPolicy.pathPolicyErrorResponse(error);
+  }
+  if (confirmationUtils.isConfirmationDeclinedError(error)) {
+    return confirmationUtils.confirmationDeclinedResponse(error);
+  }
+  const err = error as Error;
+  logger.error(`Error trying to ${action}:`, { error: err.message });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error trying to ${action}: ${err.message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Response for tools called while history is turned off
+ * @returns {ToolResponse} The error response
+ */
+function historyDisabledResponse(): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text: "Error: File history is disabled (CODE_TOOLS_HISTORY_MAX_BYTES=0).",
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Register the list_file_history tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerListFileHistoryTool(server: McpServer): void {
+  server.tool(
+    "list_file_history",
+    "Tool to list the recorded versions of a file, newest first. Each version is the content the file had before a change replaced it",
+    {
+      path: z.string().describe("Path to the file"),
+    },
+    async ({ path: filePath }, extra): Promise<ToolResponse> => {
+      try {
+        if (!historyUtils.isHistoryEnabled()) {
+          return historyDisabledResponse();
+        }
+
+        const resolvedPath = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const versions = await historyUtils.listFileHistory(
+          resolvedPath,
+          extra.sessionId
+        );
+
+        if (versions.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No history recorded for ${filePath}`,
+              },
+            ],
+            isError: false,
+            _meta: { versions },
+          };
+        }
+
+        const lines = versions.map((version) => {
+          const notes = [
+            version.exists ? `${version.size} bytes` : "did not exist",
+          ];
+          if (!version.stored) {
+            notes.push("not stored");
+          }
+          if (version.undone) {
+            notes.push("undone");
+          }
+          return `${version.changeId}  ${version.timestamp}  ${
+            version.operation
+          }  (${notes.join(", ")})`;
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${
+                versions.length
+              } version(s) of ${filePath}, newest first:\n${lines.join("\n")}`,
+            },
+          ],
+          isError: false,
+          _meta: { versions },
+        };
+      } catch (error) {
+        return historyErrorResponse("list file history", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the restore_file_version tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerRestoreFileVersionTool(server: McpServer): void {
+  server.tool(
+    "restore_file_version",
+    "Tool to restore a file to the content it had before a recorded change. The restore is itself recorded, so it can be undone",
+    {
+      path: z.string().describe("Path to the file"),
+      changeId: z
+        .string()
+        .describe("ID of the change, as shown by list_file_history"),
+    },
+    async ({ path: filePath, changeId }, extra): Promise<ToolResponse> => {
+      try {
+        if (!historyUtils.isHistoryEnabled()) {
+          return historyDisabledResponse();
+        }
+
+        const resolvedPath = await pathPolicy.resolvePath(filePath, {
+          sessionId: extra.sessionId,
+        });
+        const content = await historyUtils.getFileVersion(
+          resolvedPath,
+          changeId,
+          extra.sessionId
+        );
+
+        const change: StagedChange =
+          content === null ? { type: "delete" } : { type: "file", content };
+        const changes = new Map([[resolvedPath, change]]);
+        await confirmationUtils.confirmOverwrites(
+          server,
+          extra,
+          `Restore ${filePath} to its version before change ${changeId}`,
+          changes
+        );
+        const staged = await changeSetUtils.applyChanges(
+          changes,
+          extra.sessionId,
+          { operation: `restore ${changeId}` }
+        );
+
+        const outcome = `${
+          staged ? "Staged restore of" : "Restored"
+        } ${filePath} to its version before change ${changeId}`;
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                content === null
+                  ? `${outcome}: the file did not exist, so it was removed`
+                  : outcome,
+            },
+          ],
+          isError: false,
+          _meta: { staged },
+        };
+      } catch (error) {
+        return historyErrorResponse("restore file version", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the undo_last_change tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerUndoLastChangeTool(server: McpServer): void {
+  server.tool(
+    "undo_last_change",
+    "Tool to revert the most recent recorded change in the workspace, restoring every file it touched. Calling it again undoes the change before that. Refuses if the files were modified since, unless forced",
+    {
+      force: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Undo even if the files were modified after the change."),
+    },
+    async ({ force }, extra): Promise<ToolResponse> => {
+      try {
+        if (!historyUtils.isHistoryEnabled()) {
+          return historyDisabledResponse();
+        }
+        if (changeSetUtils.getChangeSet(extra.sessionId)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: A change set is active. Commit or roll it back before undoing.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const last = await historyUtils.getLastChange(extra.sessionId);
+        if (!last) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Nothing to undo",
+              },
+            ],
+            isError: false,
+          };
+        }
+
+        const { root, change } = last;
+        const files = change.files.map((file) => ({
+          ...file,
+          absolutePath: path.join(root, ...file.path.split("/")),
+        }));
+
+        const unstored = files.filter((file) => !file.stored);
+        if (unstored.length > 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: Change ${
+                  change.id
+                } cannot be undone because the previous content of ${unstored
+                  .map((file) => file.path)
+                  .join(", ")} was too large to keep.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (!force) {
+          const modified: string[] = [];
+          for (const file of files) {
+            const current = await fs
+              .readFile(file.absolutePath)
+              .catch(() => null);
+            const currentHash = current ? fileUtils.hashContent(current) : null;
+            if (currentHash !== file.after) {
+              modified.push(file.path);
+            }
+          }
+          if (modified.length > 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error: Change ${change.id} (${
+                    change.operation
+                  }) cannot be undone because these files were modified since: ${modified.join(
+                    ", "
+                  )}. Use force to undo anyway.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+
+        // Revert in reverse so files written last are handled first
+        const changes = new Map<string, StagedChange>();
+        for (const file of [...files].reverse()) {
+          const content = await historyUtils.getFileVersion(
+            file.absolutePath,
+            change.id,
+            extra.sessionId
+          );
+          changes.set(
+            file.absolutePath,
+            content === null ? { type: "delete" } : { type: "file", content }
+          );
+        }
+        await confirmationUtils.confirmOverwrites(
+          server,
+          extra,
+          `Undo change ${change.id} (${change.operation})`,
+          changes
+        );
+        await changeSetUtils.applyChanges(changes, extra.sessionId, {
+          operation: `undo ${change.id}`,
+          undoOf: change.id,
+        });
+        await historyUtils.markUndone(root, change.id);
+
+        logger.info(`Undid change ${change.id}`, { files: files.length });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Undid change ${change.id} (${change.operation}) from ${
+                change.timestamp
+              }:\n${files.map((file) => `  ${file.path}`).join("\n")}`,
+            },
+          ],
+          isError: false,
+          _meta: { change },
+        };
+      } catch (error) {
+        return historyErrorResponse("undo last change", error);
+      }
+    }
+  );
+}
+
+export default {
+  registerHistoryTools,
+};
@@ -8,6 +8,17 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerFileTools } from "./file-tools.js";
 import { registerProjectTools } from "./project-tools.js";
 import { registerFileDiffTool } from "./file-diff-tool.js";
+import { registerFileEditTool } from "./file-edit-tool.js";
+import { registerFilePatchTool } from "./file-patch-tool.js";
+import { registerSearchTool } from "./search-tool.js";
+import { registerFindFilesTool } from "./find-files-tool.js";
+import { registerDirectoryTreeTool } from "./directory-tree-tool.js";
+import { registerChangeSetTools } from "./changeset-tools.js";
+import { registerHistoryTools } from "./history-tools.js";
+import { registerJobTools } from "./job-tools.js";
+import { registerGitTools } from "./git-tools.js";
+import { registerSandboxTools } from "./sandbox-tools.js";
+import { registerCodeIntelligenceTools } from "./code-intelligence-tools.js";
 import { registerListProjectsTool } from "./list-projects-tool.js";
 import { registerFileConversionTool } from "./file-conversion-tool.js";
 import { registerTemplateTool } from "./template-tool.js";
@@ -27,6 +38,17 @@ export function registerTools(server: McpServer): void {
   registerFileTools(server);
   registerProjectTools(server);
   registerFileDiffTool(server);
+  registerFileEditTool(server);
+  registerFilePatchTool(server);
+  registerSearchTool(server);
+  registerFindFilesTool(server);
+  registerDirectoryTreeTool(server);
+  registerChangeSetTools(server);
+  registerHistoryTools(server);
+  registerJobTools(server);
+  registerGitTools(server);
+  registerSandboxTools(server);
+  registerCodeIntelligenceTools(server);
   
   // Register improved tools
   registerListProjectsTool(server);
@@ -44,6 +66,17 @@ export default {
   registerFileTools,
   registerProjectTools,
   registerFileDiffTool,
+  registerFileEditTool,
+  registerFilePatchTool,
+  registerSearchTool,
+  registerFindFilesTool,
+  registerDirectoryTreeTool,
+  registerChangeSetTools,
+  registerHistoryTools,
+  registerJobTools,
+  registerGitTools,
+  registerSandboxTools,
+  registerCodeIntelligenceTools,
   registerListProjectsTool,
   registerFileConversionTool,
   registerTemplateTool,
@@ -0,0 +1,372 @@
+/**
+ * Background Job Tools
+ *
+ * Tools for long-lived commands such as dev servers, watchers and REPLs:
+ * - start_job runs a command in the background and returns its job ID
+ * - list_jobs shows the session's jobs and their exit status
+ * - read_job_output reads output from an offset, for polling new output
+ * - write_job_stdin sends input to a running job
+ * - stop_job stops a job and waits for it to exit
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { JobInfo, ToolResponse } from "../types/index.js";
+import {
+  jobs as jobUtils,
+  process as processUtils,
+  logger,
+  pathPolicy,
+  commandPolicy,
+  confirmation as confirmationUtils,
+} from "../utils/index.js";
+
+/**
+ * Register the background job tools
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerJobTools(server: McpServer): void {
+  logger.info("Registering background job tools");
+
+  registerStartJobTool(server);
+  registerListJobsTool(server);
+  registerReadJobOutputTool(server);
+  registerWriteJobStdinTool(server);
+  registerStopJobTool(server);
+}
+
+/**
+ * Build the error response used when a job operation fails
+ * @param {string} action - What was being attempted
+ * @param {unknown} error - The error
+ * @returns {ToolResponse} The error response
+ */
+function jobErrorResponse(action: string, error: unknown): ToolResponse {
+  const err = error as Error;
+  logger.error(`Error trying to ${action}:`, { error: err.message });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error trying to ${action}: ${err.message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Describe a job in one line
+ * @param {JobInfo} job - The job
+ * @returns {string} The description
+ */
+function describeJob(job: JobInfo): string {
+  let status: string = job.status;
+  if (job.status === "exited") {
+    status += ` with code ${job.exitCode}`;
+  } else if (job.status === "failed" && job.error) {
+    status += `: ${job.error}`;
+  } else if (job.signal) {
+    status += ` (${job.signal})`;
+  }
+  const label = job.name ? `${job.id} (${job.name})` : job.id;
+  return `${label} [${status}] ${job.command}`;
+}
+
+/**
+ * Register the start_job tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerStartJobTool(server: McpServer): void {
+  server.tool(
+    "start_job",
+    "Tool to start a long-running command (dev server, watcher, test runner in watch mode) in the background. Returns a job ID for read_job_output, write_job_stdin and stop_job. Runs without a shell, like run_command. Jobs are stopped when the session closes",
+    {
+      command: z
+        .string()
+        .describe(
+          "The command to run (e.g., 'npm run dev'). When args is given, only the executable."
+        ),
+      args: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Arguments passed to the executable as they are, without parsing."
+        ),
+      cwd: z
+        .string()
+        .optional()
+        .describe(
+          "The working directory to run the command in. Defaults to the workspace root."
+        ),
+      env: z
+        .record(z.string())
+        .optional()
+        .describe("Environment variables to set for the job."),
+      inheritEnv: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Start from the server's environment. When false, only PATH, HOME and similar basics are passed besides env."
+        ),
+      name: z
+        .string()
+        .optional()
+        .describe("A label for the job, shown by list_jobs."),
+      timeoutMs: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe(
+          "Stop the job after this many milliseconds. Jobs run until stopped by default."
+        ),
+    },
+    async (
+      { command, args, cwd, env, inheritEnv, name, timeoutMs },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const [executable, ...jobArgs] = args
+          ? [command, ...args]
+          : processUtils.splitCommandLine(command);
+        if (!executable) {
+          throw new Error("No command given");
+        }
+        const resolvedCwd = await pathPolicy.resolvePath(cwd || ".", {
+          sessionId: extra.sessionId,
+        });
+        const job = await confirmationUtils.runWithCommandApproval(
+          server,
+          extra,
+          async (approvedRules) =>
+            jobUtils.startJob(
+              executable,
+              jobArgs,
+              {
+                cwd: resolvedCwd,
+                env,
+                inheritEnv,
+                approvedRules,
+                name,
+                timeoutMs,
+              },
+              extra.sessionId
+            )
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Started job ${job.id}${
+                job.pid !== undefined ? ` (pid ${job.pid})` : ""
+              }: ${job.command}\nUse read_job_output with jobId '${
+                job.id
+              }' to see its output.`,
+            },
+          ],
+          isError: false,
+          _meta: { job },
+        };
+      } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (commandPolicy.isCommandPolicyError(error)) {
+          return commandPolicy.commandPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
+        return jobErrorResponse(`start job '${command}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the list_jobs tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerListJobsTool(server: McpServer): void {
+  server.tool(
+    "list_jobs",
+    "Tool to list the background jobs of this session with their status, exit code and output size",
+    {},
+    async (_args, extra): Promise<ToolResponse> => {
+      try {
+        const jobs = jobUtils.listJobs(extra.sessionId);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                jobs.length > 0
+                  ? jobs.map(describeJob).join("\n")
+                  : "No background jobs.",
+            },
+          ],
+          isError: false,
+          _meta: { jobs },
+        };
+      } catch (error) {
+        return jobErrorResponse("list jobs", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the read_job_output tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerReadJobOutputTool(server: McpServer): void {
+  server.tool(
+    "read_job_output",
+    "Tool to read a background job's combined stdout and stderr. Pass the nextOffset of the previous read as offset to get only new output",
+    {
+      jobId: z.string().describe("The job ID returned by start_job."),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe("Offset in the job's output to read from."),
+      maxLength: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(20000)
+        .describe("Maximum number of characters to return."),
+    },
+    async ({ jobId, offset, maxLength }, extra): Promise<ToolResponse> => {
+      try {
+        const result = jobUtils.readJobOutput(
+          jobId,
+          offset,
+          maxLength,
+          extra.sessionId
+        );
+
+        const notes = [describeJob(result.job)];
+        if (result.missed > 0) {
+          notes.push(
+            `${result.missed} characters before offset ${result.offset} were dropped from the job's log.`
+          );
+        }
+        notes.push(
+          result.more
+            ? `More output is available from offset ${result.nextOffset}.`
+            : `Next offset: ${result.nextOffset}`
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${result.output || "(no new output)"}\n\n${notes.join(
+                "\n"
+              )}`,
+            },
+          ],
+          isError: false,
+          _meta: {
+            job: result.job,
+            offset: result.offset,
+            nextOffset: result.nextOffset,
+            missed: result.missed,
+            more: result.more,
+          },
+        };
+      } catch (error) {
+        return jobErrorResponse(`read output of job '${jobId}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the write_job_stdin tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerWriteJobStdinTool(server: McpServer): void {
+  server.tool(
+    "write_job_stdin",
+    "Tool to write text to a running background job's standard input, optionally closing it afterwards",
+    {
+      jobId: z.string().describe("The job ID returned by start_job."),
+      input: z
+        .string()
+        .describe(
+          "The text to write. Include a trailing newline for line input."
+        ),
+      close: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Close standard input after writing (sends end of file)."),
+    },
+    async ({ jobId, input, close }, extra): Promise<ToolResponse> => {
+      try {
+        const job = jobUtils.writeJobStdin(
+          jobId,
+          input,
+          close,
+          extra.sessionId
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Wrote ${input.length} characters to job ${job.id}${
+                close ? " and closed its standard input" : ""
+              }`,
+            },
+          ],
+          isError: false,
+          _meta: { job },
+        };
+      } catch (error) {
+        return jobErrorResponse(`write to job '${jobId}'`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the stop_job tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerStopJobTool(server: McpServer): void {
+  server.tool(
+    "stop_job",
+    "Tool to stop a background job. Its process group gets SIGTERM, then SIGKILL if it does not exit within a few seconds",
+    {
+      jobId: z.string().describe("The job ID returned by start_job."),
+    },
+    async ({ jobId }, extra): Promise<ToolResponse> => {
+      try {
+        const job = await jobUtils.stopJob(jobId, extra.sessionId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: describeJob(job),
+            },
+          ],
+          isError: false,
+          _meta: { job },
+        };
+      } catch (error) {
+        return jobErrorResponse(`stop job '${jobId}'`, error);
+      }
+    }
+  );
+}
+
+export default {
+  registerJobTools,
+};
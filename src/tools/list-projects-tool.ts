@@ -10,7 +10,7 @@ import { ToolResponse } from "../types/index.js";
 import path from "path";
 import fs from "fs/promises";
 import { z } from "zod";
-import { logger } from "../utils/index.js";
+import { commandPolicy, logger, pathPolicy } from "../utils/index.js";
 
 /**
  * Register an improved list_projects tool that finds and lists projects in the filesystem
@@ -25,7 +25,7 @@ export function registerListProjectsTool(server: McpServer): void {
         .string()
         .optional()
         .describe(
-          "Base path to search for projects (default: current directory)"
+          "Base path to search for projects (default: workspace root)"
         ),
       maxDepth: z
         .number()
@@ -33,10 +33,12 @@ export function registerListProjectsTool(server: McpServer): void {
         .default(4)
         .describe("Maximum directory depth to search"),
     },
-    async ({ basePath, maxDepth = 4 }, _extra): Promise<ToolResponse> => {
+    async ({ basePath, maxDepth = 4 }, extra): Promise<ToolResponse> => {
       try {
-        // Use provided base path or default to current directory
-        const searchPath = basePath || process.cwd();
+        // Use provided base path or default to the first workspace root
+        const searchPath = await pathPolicy.resolvePath(basePath || ".", {
+          sessionId: extra.sessionId,
+        });
 
         // Search for package.json files to identify projects
         const { process: processUtils } = await import("../utils/index.js");
@@ -45,18 +47,30 @@ export function registerListProjectsTool(server: McpServer): void {
           `Searching for projects in ${searchPath} with max depth ${maxDepth}`
         );
 
-        // Use find with 2>/dev/null to suppress permission denied errors
-        const command = `find ${searchPath} -name package.json -not -path "*/node_modules/*" -not -path "*/.git/*" -maxdepth ${maxDepth} 2>/dev/null`;
-
+        // Run find directly; the search path is an argument, never shell input
         const { stdout, stderr, code } = await processUtils.runProcess(
-          "sh",
-          ["-c", command],
+          "find",
+          [
+            searchPath,
+            "-maxdepth",
+            String(maxDepth),
+            "-name",
+            "package.json",
+            "-not",
+            "-path",
+            "*/node_modules/*",
+            "-not",
+            "-path",
+            "*/.git/*",
+          ],
           {
             allowNonZeroExitCode: true,
+            signal: extra.signal,
           }
         );
 
-        if (stderr) {
+        // Unreadable directories are reported on stderr but do not stop find
+        if (code !== 0 && !stdout) {
           logger.error("Error executing find command:", {
             error: stderr,
           });
@@ -160,6 +174,12 @@ export function registerListProjectsTool(server: McpServer): void {
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (commandPolicy.isCommandPolicyError(error)) {
+          return commandPolicy.commandPolicyErrorResponse(error);
+        }
         const err = error as Error;
         logger.error("Error listing projects:", { error: err.message });
         return {
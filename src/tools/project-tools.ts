@@ -1,18 +1,21 @@
 /**
  * Project Tools
  *
- * Tools for project operations like npm initialization and git operations
+ * Tools for project operations like npm initialization and running commands
  */
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import path from "path";
-import fs from "fs/promises";
-import { ToolResponse } from "../types/index.js";
+import { ProcessResult, StagedChange, ToolResponse } from "../types/index.js";
 import {
-  file as fileUtils,
+  changeSet as changeSetUtils,
   process as processUtils,
+  progress as progressUtils,
   logger,
+  pathPolicy,
+  commandPolicy,
+  confirmation as confirmationUtils,
 } from "../utils/index.js";
 
 /**
@@ -23,11 +26,9 @@ export function registerProjectTools(server: McpServer): void {
   logger.info("Registering project management tools");
 
   registerInitNpmProjectTool(server);
-  registerGitOperationTool(server);
   registerRunCommandTool(server);
   registerPingTool(server);
   registerCreateProjectTool(server);
-  registerGitTool(server);
   registerShellTool(server);
   // registerListProjectsTool is now called directly from index.ts
 }
@@ -49,11 +50,12 @@ function registerInitNpmProjectTool(server: McpServer): void {
     },
     async (
       { path: projectPath, name, description },
-      _extra
+      extra
     ): Promise<ToolResponse> => {
       try {
-        // Create directory if it doesn't exist
-        await fileUtils.ensureDirectory(projectPath);
+        const targetPath = await pathPolicy.resolvePath(projectPath, {
+          sessionId: extra.sessionId,
+        });
 
         // Create a package.json file
         const packageJson = {
@@ -72,40 +74,65 @@ function registerInitNpmProjectTool(server: McpServer): void {
           devDependencies: {},
         };
 
-        await fs.writeFile(
-          path.join(projectPath, "package.json"),
-          JSON.stringify(packageJson, null, 2),
-          "utf8"
-        );
-
         // Create basic index.js file
         const indexJs = `// ${name} - main file\n\nconsole.log('${name} is running!');\n`;
-        await fs.writeFile(path.join(projectPath, "index.js"), indexJs, "utf8");
 
         // Create README.md
         const readmeMd = `# ${name}\n\n${
           description || ""
         }\n\n## Getting Started\n\n\`\`\`bash\nnpm install\nnpm start\n\`\`\`\n`;
-        await fs.writeFile(
-          path.join(projectPath, "README.md"),
-          readmeMd,
-          "utf8"
-        );
 
-        logger.info(
-          `Successfully initialized NPM project '${name}' at ${projectPath}`
+        // Written together, or staged in the active change set
+        const changes = new Map<string, StagedChange>([
+          [targetPath, { type: "directory" }],
+          [
+            path.join(targetPath, "package.json"),
+            {
+              type: "file",
+              content: Buffer.from(JSON.stringify(packageJson, null, 2)),
+            },
+          ],
+          [
+            path.join(targetPath, "index.js"),
+            { type: "file", content: Buffer.from(indexJs) },
+          ],
+          [
+            path.join(targetPath, "README.md"),
+            { type: "file", content: Buffer.from(readmeMd) },
+          ],
+        ]);
+        await confirmationUtils.confirmOverwrites(
+          server,
+          extra,
+          `Initialize NPM project '${name}' at ${projectPath}`,
+          changes
         );
+        const staged = await changeSetUtils.applyChanges(
+          changes,
+          extra.sessionId
+        );
+
+        const text = staged
+          ? `Staged NPM project '${name}' at ${projectPath} in the active change set`
+          : `Successfully initialized NPM project '${name}' at ${projectPath}`;
+        logger.info(text);
 
         return {
           content: [
             {
               type: "text",
-              text: `Successfully initialized NPM project '${name}' at ${projectPath}`,
+              text,
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
         logger.error(`Error initializing NPM project at '${projectPath}':`, {
           error: err.message,
@@ -125,97 +152,22 @@ function registerInitNpmProjectTool(server: McpServer): void {
 }
 
 /**
- * Register the git_operation tool
- * @param {McpServer} server - The MCP server instance
+ * Describe how a command ended, including whether it was stopped early or
+ * its output was truncated
+ * @param {ProcessResult} result - The process result
+ * @returns {string} The description
  */
-function registerGitOperationTool(server: McpServer): void {
-  server.tool(
-    "git_operation",
-    "Tool to perform git operations like clone, init, status, add, commit, push, pull, and checkout",
-    {
-      operation: z
-        .enum([
-          "clone",
-          "init",
-          "status",
-          "add",
-          "commit",
-          "push",
-          "pull",
-          "checkout",
-        ])
-        .describe("Git operation to perform."),
-      path: z
-        .string()
-        .describe("Path where the operation should be performed."),
-      args: z
-        .string()
-        .optional()
-        .describe("Additional arguments for the git command."),
-    },
-    async (
-      { operation, path: repoPath, args },
-      _extra
-    ): Promise<ToolResponse> => {
-      try {
-        const command = "git";
-        let argsList: string[] = [operation];
-
-        if (args) {
-          argsList = argsList.concat(args.split(" ") as string[]);
-        }
-
-        if (operation === "clone" && !args) {
-          logger.error("Repository URL is required for git clone operation");
-          return {
-            content: [
-              {
-                type: "text",
-                text: "Error: Repository URL is required for git clone operation. Use the args parameter to specify it.",
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const result = await processUtils.runProcess(command, argsList, {
-          cwd: repoPath,
-          allowNonZeroExitCode: true,
-        });
-
-        logger.info(`Git ${operation} completed with code ${result.code}`);
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Git ${operation} result:\n\n${result.stdout}\n\n${
-                result.stderr ? `Errors/Warnings:\n${result.stderr}` : ""
-              }`,
-            },
-          ],
-          isError: result.code !== 0,
-        };
-      } catch (error) {
-        const err = error as Error;
-        logger.error(
-          `Error performing git operation '${operation}' at '${repoPath}':`,
-          { error: err.message }
-        );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error performing git ${operation}: ${
-                err.message || JSON.stringify(error)
-              }`,
-            },
-          ],
-          isError: true,
-        };
-      }
-    }
-  );
+function describeExit(result: ProcessResult): string {
+  let description = `Exit Code: ${result.code}`;
+  if (result.timedOut) {
+    description += ` (timed out, stopped with ${result.signal ?? "SIGTERM"})`;
+  } else if (result.aborted) {
+    description += ` (cancelled, stopped with ${result.signal ?? "SIGTERM"})`;
+  }
+  if (result.truncated) {
+    description += "\nOutput was truncated to its first and last part.";
+  }
+  return description;
 }
 
 /**
@@ -225,45 +177,116 @@ function registerGitOperationTool(server: McpServer): void {
 function registerRunCommandTool(server: McpServer): void {
   server.tool(
     "run_command",
-    "Tool to execute shell commands like 'npm install', 'git status', etc. with the ability to specify working directory",
+    "Tool to execute commands like 'npm install', 'git status', etc. with the ability to specify working directory and environment. Runs without a shell: quoting works as in a shell, but pipes, redirections and variables do not",
     {
       command: z
         .string()
         .describe(
-          "The command to run (e.g., 'npm install express', 'git status')."
+          "The command to run (e.g., 'npm install express', 'git commit -m \"Fix bug\"'). When args is given, only the executable."
+        ),
+      args: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Arguments passed to the executable as they are, without parsing."
         ),
       cwd: z
         .string()
         .optional()
         .describe(
-          "The working directory to run the command in. Defaults to the server's CWD."
+          "The working directory to run the command in. Defaults to the workspace root."
+        ),
+      env: z
+        .record(z.string())
+        .optional()
+        .describe("Environment variables to set for the command."),
+      inheritEnv: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Start from the server's environment. When false, only PATH, HOME and similar basics are passed besides env."
+        ),
+      timeoutMs: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe(
+          "Stop the command after this many milliseconds. Defaults to CODE_TOOLS_PROCESS_TIMEOUT_MS; 0 disables the timeout."
         ),
     },
-    async ({ command, cwd }, _extra): Promise<ToolResponse> => {
+    async (
+      { command, args, cwd, env, inheritEnv, timeoutMs },
+      extra
+    ): Promise<ToolResponse> => {
       try {
-        const parts = command.split(" ");
-        const executable = parts[0];
-        const args = parts.slice(1);
+        const [executable, ...commandArgs] = args
+          ? [command, ...args]
+          : processUtils.splitCommandLine(command);
+        if (!executable) {
+          throw new Error("No command given");
+        }
 
-        logger.info(`Running command: ${executable} ${args.join(" ")}`, {
-          cwd,
-        });
+        logger.info(
+          `Running command: ${processUtils.formatCommandLine([
+            executable,
+            ...commandArgs,
+          ])}`,
+          { cwd }
+        );
 
-        const result = await processUtils.runProcess(executable, args, {
-          cwd,
-          allowNonZeroExitCode: true,
+        // Output is streamed as progress notifications if the client asked
+        const progress = progressUtils.createOutputProgress(extra);
+        const resolvedCwd = await pathPolicy.resolvePath(cwd || ".", {
+          sessionId: extra.sessionId,
         });
+        const result = await confirmationUtils
+          .runWithCommandApproval(server, extra, (approvedRules) =>
+            processUtils.runProcess(executable, commandArgs, {
+              cwd: resolvedCwd,
+              env,
+              inheritEnv,
+              approvedRules,
+              allowNonZeroExitCode: true,
+              timeoutMs,
+              signal: extra.signal,
+              onOutput: progress?.onOutput,
+            })
+          )
+          .finally(() => progress?.finish());
 
         return {
           content: [
             {
               type: "text",
-              text: `Command: ${command}\nExit Code: ${result.code}\n\nSTDOUT:\n${result.stdout}\n\nSTDERR:\n${result.stderr}`,
+              text: `Command: ${processUtils.formatCommandLine([
+                executable,
+                ...commandArgs,
+              ])}\n${describeExit(result)}\n\nSTDOUT:\n${
+                result.stdout
+              }\n\nSTDERR:\n${result.stderr}`,
             },
           ],
           isError: result.code !== 0,
+          _meta: {
+            code: result.code,
+            signal: result.signal,
+            timedOut: result.timedOut,
+            aborted: result.aborted,
+            truncated: result.truncated,
+          },
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (commandPolicy.isCommandPolicyError(error)) {
+          return commandPolicy.commandPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
         logger.error(`Error executing command '${command}':`, {
           error: err.message,
@@ -326,31 +349,56 @@ function registerCreateProjectTool(server: McpServer): void {
     },
     async (
       { path: projectPath, name, description },
-      _extra
+      extra
     ): Promise<ToolResponse> => {
       try {
-        await fs.mkdir(projectPath, { recursive: true });
+        const targetPath = await pathPolicy.resolvePath(projectPath, {
+          sessionId: extra.sessionId,
+        });
         const pkg = {
           name,
           version: "1.0.0",
           description: description || "",
           main: "index.js",
         };
-        await fs.writeFile(
-          path.join(projectPath, "package.json"),
-          JSON.stringify(pkg, null, 2),
-          "utf8"
+        const changes = new Map<string, StagedChange>([
+          [targetPath, { type: "directory" }],
+          [
+            path.join(targetPath, "package.json"),
+            {
+              type: "file",
+              content: Buffer.from(JSON.stringify(pkg, null, 2)),
+            },
+          ],
+        ]);
+        await confirmationUtils.confirmOverwrites(
+          server,
+          extra,
+          `Create project at ${projectPath}`,
+          changes
+        );
+        const staged = await changeSetUtils.applyChanges(
+          changes,
+          extra.sessionId
         );
         return {
           content: [
             {
               type: "text",
-              text: `Project created at ${projectPath}`,
+              text: staged
+                ? `Staged project at ${projectPath} in the active change set`
+                : `Project created at ${projectPath}`,
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
         return {
           content: [
@@ -367,106 +415,75 @@ function registerCreateProjectTool(server: McpServer): void {
 }
 
 /**
- * Register the git tool
+ * Register the shell tool
  * @param {McpServer} server - The MCP server instance
  */
-function registerGitTool(server: McpServer): void {
+function registerShellTool(server: McpServer): void {
   server.tool(
-    "git",
-    "Tool to perform git operations like clone, init, status, add, commit, push, pull, and checkout on a git repository",
+    "shell",
+    "Tool to execute shell commands with full shell support including pipes, redirections, and environment variables",
     {
-      operation: z
-        .enum([
-          "clone",
-          "init",
-          "status",
-          "add",
-          "commit",
-          "push",
-          "pull",
-          "checkout",
-        ])
-        .describe("Git operation to perform."),
-      path: z
-        .string()
-        .describe("Path to the git repository or target directory."),
-      args: z
-        .string()
+      command: z.string().describe("Shell command to execute."),
+      cwd: z.string().optional().describe("Working directory for the command."),
+      env: z
+        .record(z.string())
+        .optional()
+        .describe("Environment variables to set for the command."),
+      inheritEnv: z
+        .boolean()
         .optional()
-        .describe("Additional arguments for the git command."),
+        .default(true)
+        .describe(
+          "Start from the server's environment. When false, only PATH, HOME and similar basics are passed besides env."
+        ),
+      timeoutMs: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe(
+          "Stop the command after this many milliseconds. Defaults to CODE_TOOLS_PROCESS_TIMEOUT_MS; 0 disables the timeout."
+        ),
     },
     async (
-      { operation, path: repoPath, args },
-      _extra
+      { command, cwd, env, inheritEnv, timeoutMs },
+      extra
     ): Promise<ToolResponse> => {
       try {
         const { process: processUtils } = await import("../utils/index.js");
-        const command = "git";
-        let argsList: string[] = [operation];
-        if (args) {
-          argsList = argsList.concat(args.split(" ") as string[]);
-        }
-        const { stdout, stderr, code } = await processUtils.runProcess(
-          command,
-          argsList,
-          { cwd: repoPath, allowNonZeroExitCode: true }
-        );
-        if (code !== 0) {
+        const progress = progressUtils.createOutputProgress(extra);
+        const resolvedCwd = await pathPolicy.resolvePath(cwd || ".", {
+          sessionId: extra.sessionId,
+        });
+        const result = await confirmationUtils
+          .runWithCommandApproval(server, extra, (approvedRules) =>
+            processUtils.runProcess(command, [], {
+              cwd: resolvedCwd,
+              env,
+              inheritEnv,
+              approvedRules,
+              allowNonZeroExitCode: true,
+              shell: true,
+              timeoutMs,
+              signal: extra.signal,
+              onOutput: progress?.onOutput,
+            })
+          )
+          .finally(() => progress?.finish());
+        const { stdout, stderr, code } = result;
+        if (result.timedOut || result.aborted) {
           return {
             content: [
               {
                 type: "text",
-                text: `Git error: ${stderr || stdout}`,
+                text: `Shell error: ${describeExit(result)}\n${
+                  stderr || stdout
+                }`,
               },
             ],
             isError: true,
           };
         }
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Git output:\n${stdout}`,
-            },
-          ],
-          isError: false,
-        };
-      } catch (error) {
-        const err = error as Error;
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error running git: ${err.message}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-    }
-  );
-}
-
-/**
- * Register the shell tool
- * @param {McpServer} server - The MCP server instance
- */
-function registerShellTool(server: McpServer): void {
-  server.tool(
-    "shell",
-    "Tool to execute shell commands with full shell support including pipes, redirections, and environment variables",
-    {
-      command: z.string().describe("Shell command to execute."),
-      cwd: z.string().optional().describe("Working directory for the command."),
-    },
-    async ({ command, cwd }, _extra): Promise<ToolResponse> => {
-      try {
-        const { process: processUtils } = await import("../utils/index.js");
-        const { stdout, stderr, code } = await processUtils.runProcess(
-          command,
-          [],
-          { cwd, allowNonZeroExitCode: true, shell: true }
-        );
         if (code !== 0) {
           return {
             content: [
@@ -488,6 +505,15 @@ function registerShellTool(server: McpServer): void {
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (commandPolicy.isCommandPolicyError(error)) {
+          return commandPolicy.commandPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
         return {
           content: [
@@ -0,0 +1,536 @@
+/**
+ * Sandbox Tools
+ *
+ * Throwaway git worktrees for trying changes without touching the
+ * developer's checkout:
+ * - create_sandbox creates a worktree on a new branch and enters it
+ * - list_sandboxes lists a repository's sandboxes
+ * - switch_sandbox enters a sandbox, or returns to the workspace
+ * - sandbox_diff shows what changed in a sandbox since its base
+ * - merge_sandbox merges a sandbox back into its base branch
+ * - discard_sandbox removes a sandbox and its branch
+ *
+ * While a session is in a sandbox, file and command tools are confined to
+ * it and resolve relative paths against it.
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  GitDiffResult,
+  SandboxInfo,
+  ToolExtra,
+  ToolResponse,
+} from "../types/index.js";
+import {
+  sandbox as sandboxUtils,
+  logger,
+  pathPolicy,
+  confirmation as confirmationUtils,
+} from "../utils/index.js";
+
+/**
+ * Parameters shared by the sandbox tools
+ */
+const repoSchema = z
+  .string()
+  .optional()
+  .default(".")
+  .describe(
+    "Path to the repository or a directory inside it. Defaults to the workspace root, or the current sandbox."
+  );
+
+const sandboxIdSchema = z
+  .string()
+  .optional()
+  .describe("The sandbox. Defaults to the one the session is in.");
+
+/**
+ * Register the sandbox tools
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerSandboxTools(server: McpServer): void {
+  logger.info("Registering sandbox tools");
+
+  registerCreateSandboxTool(server);
+  registerListSandboxesTool(server);
+  registerSwitchSandboxTool(server);
+  registerSandboxDiffTool(server);
+  registerMergeSandboxTool(server);
+  registerDiscardSandboxTool(server);
+}
+
+/**
+ * Build the error response used when a sandbox tool fails
+ * @param {string} action - What was being attempted
+ * @param {unknown} error - The error
+ * @returns {ToolResponse} The error response
+ */
+function sandboxErrorResponse(action: string, error: unknown): ToolResponse {
+  if (pathPolicy.isPathPolicyError(error)) {
+    return pathPolicy.pathPolicyErrorResponse(error);
+  }
+  if (confirmationUtils.isConfirmationDeclinedError(error)) {
+    return confirmationUtils.confirmationDeclinedResponse(error);
+  }
+  const err = error as Error;
+  logger.error(`Error trying to ${action}:`, { error: err.message });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error trying to ${action}: ${err.message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Find the sandbox a tool works on: the given one, or the session's
+ * @param {string} repoPath - Path inside the repository
+ * @param {string|undefined} sandboxId - The sandbox ID, if given
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @returns {Promise<SandboxInfo>} The sandbox
+ */
+async function findSandbox(
+  repoPath: string,
+  sandboxId: string | undefined,
+  extra: ToolExtra
+): Promise<SandboxInfo> {
+  const cwd = await pathPolicy.resolvePath(repoPath, {
+    sessionId: extra.sessionId,
+  });
+  if (sandboxId) {
+    return sandboxUtils.getSandbox(cwd, sandboxId);
+  }
+  const active = pathPolicy.getSandboxRoot(extra.sessionId);
+  const sandbox = active
+    ? (await sandboxUtils.listSandboxes(cwd)).find(
+        (candidate) => candidate.path === active
+      )
+    : undefined;
+  if (!sandbox) {
+    throw new Error("No sandboxId was given and the session is not in one");
+  }
+  return sandbox;
+}
+
+/**
+ * Return the session to its workspace if it is in the given sandbox
+ * @param {SandboxInfo} sandbox - The sandbox
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @returns {boolean} True if the session left the sandbox
+ */
+function leaveSandbox(sandbox: SandboxInfo, extra: ToolExtra): boolean {
+  if (pathPolicy.getSandboxRoot(extra.sessionId) !== sandbox.path) {
+    return false;
+  }
+  pathPolicy.setSandboxRoot(extra.sessionId);
+  return true;
+}
+
+/**
+ * Describe a sandbox in one line
+ * @param {SandboxInfo} sandbox - The sandbox
+ * @returns {string} The description
+ */
+function describeSandbox(sandbox: SandboxInfo): string {
+  return `${sandbox.id} (${sandbox.branch} from ${
+    sandbox.baseRef
+  }) ${sandbox.head.slice(0, 7)} ${sandbox.path}`;
+}
+
+/**
+ * Describe a sandbox's changes as a file list with line counts
+ * @param {GitDiffResult} diff - The changes
+ * @returns {string} The description
+ */
+function describeChanges(diff: GitDiffResult): string {
+  if (diff.files.length === 0) {
+    return "No changes.";
+  }
+  const lines = diff.files.map((file) => {
+    const name = file.oldPath ? `${file.oldPath} -> ${file.path}` : file.path;
+    const counts = file.binary
+      ? "binary"
+      : `+${file.additions} -${file.deletions}`;
+    return `  ${file.status} ${name} | ${counts}`;
+  });
+  lines.push(
+    `${diff.files.length} file(s) changed, ${diff.additions} insertion(s)(+), ${diff.deletions} deletion(s)(-)`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Register the create_sandbox tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerCreateSandboxTool(server: McpServer): void {
+  server.tool(
+    "create_sandbox",
+    "Tool to create a sandbox: a throwaway git worktree on a new branch sandbox/<name>, started from the current branch or a given ref. Entering it confines file and command tools to the sandbox until switch_sandbox, merge_sandbox or discard_sandbox",
+    {
+      path: repoSchema,
+      name: z
+        .string()
+        .optional()
+        .describe(
+          "Name of the sandbox, used for its branch and directory. Generated if omitted."
+        ),
+      baseRef: z
+        .string()
+        .optional()
+        .describe(
+          "Branch or commit to start from, and to merge back into. Defaults to the current branch."
+        ),
+      enter: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Confine this session to the sandbox."),
+    },
+    async (
+      { path: repoPath, name, baseRef, enter },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const cwd = await pathPolicy.resolvePath(repoPath, {
+          sessionId: extra.sessionId,
+        });
+        const sandbox = await sandboxUtils.createSandbox(cwd, {
+          name,
+          baseRef,
+        });
+        if (enter) {
+          pathPolicy.setSandboxRoot(extra.sessionId, sandbox.path);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Created sandbox ${describeSandbox(sandbox)}${
+                enter
+                  ? "\nFile and command tools now work inside the sandbox; relative paths are resolved against it."
+                  : ""
+              }`,
+            },
+          ],
+          isError: false,
+          _meta: { sandbox, entered: enter },
+        };
+      } catch (error) {
+        return sandboxErrorResponse("create a sandbox", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the list_sandboxes tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerListSandboxesTool(server: McpServer): void {
+  server.tool(
+    "list_sandboxes",
+    "Tool to list the sandboxes of a git repository, with their branches, bases and paths",
+    {
+      path: repoSchema,
+    },
+    async ({ path: repoPath }, extra): Promise<ToolResponse> => {
+      try {
+        const cwd = await pathPolicy.resolvePath(repoPath, {
+          sessionId: extra.sessionId,
+        });
+        const sandboxes = await sandboxUtils.listSandboxes(cwd);
+        const active = pathPolicy.getSandboxRoot(extra.sessionId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                sandboxes.length > 0
+                  ? sandboxes
+                      .map(
+                        (sandbox) =>
+                          `${
+                            sandbox.path === active ? "* " : "  "
+                          }${describeSandbox(sandbox)}`
+                      )
+                      .join("\n")
+                  : "No sandboxes.",
+            },
+          ],
+          isError: false,
+          _meta: { sandboxes, active },
+        };
+      } catch (error) {
+        return sandboxErrorResponse("list sandboxes", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the switch_sandbox tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerSwitchSandboxTool(server: McpServer): void {
+  server.tool(
+    "switch_sandbox",
+    "Tool to confine this session to a sandbox, or with no sandboxId, return it to the workspace",
+    {
+      path: repoSchema,
+      sandboxId: z
+        .string()
+        .optional()
+        .describe("The sandbox to enter. Omit to leave the current one."),
+    },
+    async ({ path: repoPath, sandboxId }, extra): Promise<ToolResponse> => {
+      try {
+        if (!sandboxId) {
+          const active = pathPolicy.getSandboxRoot(extra.sessionId);
+          pathPolicy.setSandboxRoot(extra.sessionId);
+          return {
+            content: [
+              {
+                type: "text",
+                text: active
+                  ? `Left the sandbox at ${active}`
+                  : "The session is not in a sandbox",
+              },
+            ],
+            isError: false,
+            _meta: { left: active },
+          };
+        }
+
+        const sandbox = await findSandbox(repoPath, sandboxId, extra);
+        pathPolicy.setSandboxRoot(extra.sessionId, sandbox.path);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Entered sandbox ${describeSandbox(sandbox)}`,
+            },
+          ],
+          isError: false,
+          _meta: { sandbox },
+        };
+      } catch (error) {
+        return sandboxErrorResponse("switch sandbox", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the sandbox_diff tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerSandboxDiffTool(server: McpServer): void {
+  server.tool(
+    "sandbox_diff",
+    "Tool to show what changed in a sandbox since it was created from its base, including files not yet committed",
+    {
+      path: repoSchema,
+      sandboxId: sandboxIdSchema,
+      includePatch: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Include the unified diff, not only the file list."),
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .default("text")
+        .describe(
+          "Return a readable summary or a JSON document. The structured result is always in _meta."
+        ),
+    },
+    async (
+      { path: repoPath, sandboxId, includePatch, format },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const sandbox = await findSandbox(repoPath, sandboxId, extra);
+        const diff = await sandboxUtils.diffSandbox(sandbox, { includePatch });
+
+        let text = `Sandbox ${sandbox.id} against ${
+          sandbox.baseRef
+        }:\n${describeChanges(diff)}`;
+        if (diff.patch) {
+          text += `\n\n${diff.patch}`;
+          if (diff.patchTruncated) {
+            text += "\n[The patch was truncated.]";
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                format === "json"
+                  ? JSON.stringify({ sandbox, ...diff }, null, 2)
+                  : text,
+            },
+          ],
+          isError: false,
+          _meta: { sandbox, ...diff },
+        };
+      } catch (error) {
+        return sandboxErrorResponse("diff the sandbox", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the merge_sandbox tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerMergeSandboxTool(server: McpServer): void {
+  server.tool(
+    "merge_sandbox",
+    "Tool to merge a sandbox into the branch it was created from, after the user confirms its changes. The branch must be checked out, without uncommitted changes, in the main worktree. A conflicting merge is undone and the sandbox kept",
+    {
+      path: repoSchema,
+      sandboxId: sandboxIdSchema,
+      message: z
+        .string()
+        .optional()
+        .describe("Commit message. Defaults to 'Merge sandbox <name>'."),
+      squash: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Apply the changes as one commit, instead of a merge commit keeping the sandbox's history."
+        ),
+      remove: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Remove the sandbox and its branch after merging."),
+    },
+    async (
+      { path: repoPath, sandboxId, message, squash, remove },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const sandbox = await findSandbox(repoPath, sandboxId, extra);
+        const diff = await sandboxUtils.diffSandbox(sandbox, {
+          includePatch: true,
+        });
+        if (diff.files.length === 0) {
+          throw new Error(`Sandbox ${sandbox.id} has no changes to merge`);
+        }
+
+        await confirmationUtils.requireConfirmation(server, extra, {
+          title: `Merge sandbox ${sandbox.id} into ${sandbox.baseRef}`,
+          summary: describeChanges(diff),
+          details: diff.patch,
+        });
+
+        const result = await sandboxUtils.mergeSandbox(sandbox, {
+          message,
+          squash,
+        });
+        const left = remove ? leaveSandbox(sandbox, extra) : false;
+        if (remove) {
+          await sandboxUtils.removeSandbox(sandbox);
+        }
+
+        const lines = [
+          `Merged sandbox ${sandbox.id} into ${
+            result.target
+          } as ${result.commit.slice(0, 7)}`,
+          describeChanges(diff),
+        ];
+        if (remove) {
+          lines.push(`Removed the sandbox and branch ${sandbox.branch}.`);
+        }
+        if (left) {
+          lines.push("The session is back in its workspace.");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: lines.join("\n"),
+            },
+          ],
+          isError: false,
+          _meta: {
+            sandbox,
+            ...result,
+            files: diff.files,
+            removed: remove,
+            left,
+          },
+        };
+      } catch (error) {
+        return sandboxErrorResponse("merge the sandbox", error);
+      }
+    }
+  );
+}
+
+/**
+ * Register the discard_sandbox tool
+ * @param {McpServer} server - The MCP server instance
+ */
+function registerDiscardSandboxTool(server: McpServer): void {
+  server.tool(
+    "discard_sandbox",
+    "Tool to remove a sandbox and its branch, with every change in it. Asks the user first if it has changes",
+    {
+      path: repoSchema,
+      sandboxId: sandboxIdSchema,
+    },
+    async ({ path: repoPath, sandboxId }, extra): Promise<ToolResponse> => {
+      try {
+        const sandbox = await findSandbox(repoPath, sandboxId, extra);
+        const diff = await sandboxUtils.diffSandbox(sandbox, {
+          includePatch: true,
+        });
+        if (diff.files.length > 0) {
+          await confirmationUtils.requireConfirmation(server, extra, {
+            title: `Discard sandbox ${sandbox.id} and its changes`,
+            summary: describeChanges(diff),
+            details: diff.patch,
+          });
+        }
+
+        const left = leaveSandbox(sandbox, extra);
+        await sandboxUtils.removeSandbox(sandbox);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Discarded sandbox ${sandbox.id} with ${
+                diff.files.length
+              } changed file(s)${
+                left ? "\nThe session is back in its workspace." : ""
+              }`,
+            },
+          ],
+          isError: false,
+          _meta: { sandbox, files: diff.files, left },
+        };
+      } catch (error) {
+        return sandboxErrorResponse("discard the sandbox", error);
+      }
+    }
+  );
+}
+
+export default {
+  registerSandboxTools,
+};
@@ -0,0 +1,231 @@
+/**
+ * Search Tool
+ *
+ * Tool for searching file contents without shelling out:
+ * - Regex or literal patterns, optionally case-insensitive or whole-word
+ * - Include/exclude globs, with `.gitignore` files honoured by default
+ * - Context lines, pagination and structured JSON results
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SearchMatch, ToolResponse } from "../types/index.js";
+import { logger, pathPolicy, search as searchUtils } from "../utils/index.js";
+
+/**
+ * Register the search_files tool
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerSearchTool(server: McpServer): void {
+  logger.info("Registering search tool");
+
+  server.tool(
+    "search_files",
+    "Tool to search file contents for a regex or literal pattern. Honours .gitignore, supports include/exclude globs and context lines, and returns file, line, column and match text for every match, as text or JSON",
+    {
+      pattern: z.string().min(1).describe("The pattern to search for."),
+      path: z
+        .string()
+        .optional()
+        .default(".")
+        .describe("Directory or file to search. Defaults to the workspace."),
+      literal: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Treat the pattern as plain text instead of a JavaScript regular expression."
+        ),
+      caseSensitive: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Whether matching is case-sensitive."),
+      wholeWord: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Only match at word boundaries."),
+      include: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Only search files matching one of these globs, e.g. ['*.ts', 'src/**']."
+        ),
+      exclude: z
+        .array(z.string())
+        .optional()
+        .describe("Skip files and directories matching one of these globs."),
+      respectGitignore: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Skip paths ignored by .gitignore files, plus .git and node_modules."
+        ),
+      recursive: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Whether to search subdirectories."),
+      beforeContext: z
+        .number()
+        .int()
+        .min(0)
+        .max(50)
+        .optional()
+        .default(0)
+        .describe("Lines of context to include before each match."),
+      afterContext: z
+        .number()
+        .int()
+        .min(0)
+        .max(50)
+        .optional()
+        .default(0)
+        .describe("Lines of context to include after each match."),
+      maxResults: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .optional()
+        .default(100)
+        .describe("Maximum number of matches to return."),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe(
+          "Number of matches to skip, to fetch the page after a truncated result."
+        ),
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .default("text")
+        .describe("Return grep-style text or a JSON document."),
+    },
+    async (
+      { pattern, path: searchPath, recursive, format, ...options },
+      extra
+    ): Promise<ToolResponse> => {
+      try {
+        const targetPath = await pathPolicy.resolvePath(searchPath, {
+          sessionId: extra.sessionId,
+        });
+
+        const result = await searchUtils.searchFiles(targetPath, {
+          ...options,
+          pattern,
+          maxDepth: recursive ? Infinity : 1,
+        });
+        logger.info(`Searched for "${pattern}" in ${searchPath}`, {
+          matches: result.matches.length,
+          filesSearched: result.filesSearched,
+        });
+
+        if (format === "json") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+            isError: false,
+            _meta: { ...result },
+          };
+        }
+
+        if (result.matches.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No matches found for "${pattern}" in ${searchPath} (${result.filesSearched} file(s) searched)`,
+              },
+            ],
+            isError: false,
+            _meta: { ...result },
+          };
+        }
+
+        const files = new Set(result.matches.map((match) => match.file)).size;
+        const footer = result.truncated
+          ? `\n\n[More matches available. Continue with offset ${result.nextOffset}.]`
+          : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${
+                result.matches.length
+              } match(es) in ${files} file(s) for "${pattern}" in ${searchPath}:\n\n${formatMatches(
+                result.matches,
+                options.beforeContext > 0 || options.afterContext > 0
+              )}${footer}`,
+            },
+          ],
+          isError: false,
+          _meta: { ...result },
+        };
+      } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        const err = error as Error;
+        logger.error(
+          `Error searching files for pattern "${pattern}" in ${searchPath}:`,
+          { error: err.message }
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error searching files: ${err.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Format matches like `grep -n`: `file:line:column:text` for matching lines
+ * and `file-line-text` for context, with `--` between context groups
+ * @param {SearchMatch[]} matches - The matches
+ * @param {boolean} withContext - Whether context lines were requested
+ * @returns {string} The formatted matches
+ */
+function formatMatches(matches: SearchMatch[], withContext: boolean): string {
+  const blocks: string[] = [];
+  let previous: SearchMatch | undefined;
+
+  for (const match of matches) {
+    // Further matches on the same line are only listed in the JSON result
+    if (previous?.file === match.file && previous.line === match.line) {
+      continue;
+    }
+    previous = match;
+
+    const lines = match.before.map(
+      (text, index) =>
+        `${match.file}-${match.line - match.before.length + index}-${text}`
+    );
+    lines.push(`${match.file}:${match.line}:${match.column}:${match.lineText}`);
+    match.after.forEach((text, index) =>
+      lines.push(`${match.file}-${match.line + index + 1}-${text}`)
+    );
+    blocks.push(lines.join("\n"));
+  }
+
+  return blocks.join(withContext ? "\n--\n" : "\n");
+}
+
+export default {
+  registerSearchTool,
+};
@@ -10,10 +10,13 @@
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import path from "path";
-import fs from "fs/promises";
 import { ToolResponse } from "../types/index.js";
-import { file as fileUtils, logger } from "../utils/index.js";
+import {
+  changeSet as changeSetUtils,
+  confirmation as confirmationUtils,
+  logger,
+  pathPolicy,
+} from "../utils/index.js";
 
 /**
  * Register the template generation tool
@@ -37,31 +40,56 @@ export function registerTemplateTool(server: McpServer): void {
     },
     async (
       { template, destination, variables = {} },
-      _extra
+      extra
     ): Promise<ToolResponse> => {
       try {
-        // Create parent directories if needed
-        const dirPath = path.dirname(destination);
-        await fileUtils.ensureDirectory(dirPath);
+        const destinationPath = await pathPolicy.resolvePath(destination, {
+          sessionId: extra.sessionId,
+        });
 
         // Get the appropriate template
         const templateContent = getTemplateContent(template, variables);
 
-        // Write the file
-        await fs.writeFile(destination, templateContent, "utf8");
-
-        logger.info(`Generated ${template} template at ${destination}`);
+        // Write the file, creating parent directories if needed
+        await confirmationUtils.confirmOverwrites(
+          server,
+          extra,
+          `Overwrite ${destination}`,
+          new Map([
+            [
+              destinationPath,
+              { type: "file", content: Buffer.from(templateContent) },
+            ],
+          ])
+        );
+        const staged = await changeSetUtils.writeFile(
+          destinationPath,
+          templateContent,
+          extra.sessionId
+        );
+
+        logger.info(`Generated ${template} template at ${destination}`, {
+          staged,
+        });
 
         return {
           content: [
             {
               type: "text",
-              text: `Successfully generated ${template} template at ${destination}`,
+              text: staged
+                ? `Staged ${template} template at ${destination} in the active change set`
+                : `Successfully generated ${template} template at ${destination}`,
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (pathPolicy.isPathPolicyError(error)) {
+          return pathPolicy.pathPolicyErrorResponse(error);
+        }
+        if (confirmationUtils.isConfirmationDeclinedError(error)) {
+          return confirmationUtils.confirmationDeclinedResponse(error);
+        }
         const err = error as Error;
         logger.error(`Error generating template at '${destination}':`, {
           error: err.message,
@@ -2,6 +2,16 @@
  * Type definitions for the CodeTools MCP Server
  */
 
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// The extra argument passed to tool and resource handlers
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
 export interface LogData {
   [key: string]: unknown;
 }
@@ -10,6 +20,10 @@ export interface ProcessResult {
   stdout: string;
   stderr: string;
   code: number;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  aborted: boolean;
+  truncated: boolean;
 }
 
 export interface ProcessError extends Error {
@@ -22,12 +36,715 @@ export interface ProcessOptions {
   cwd?: string;
   stdinData?: string;
   shell?: boolean;
+  env?: Record<string, string>;
+  inheritEnv?: boolean;
+  approvedRules?: string[];
   allowNonZeroExitCode?: boolean;
+  timeoutMs?: number;
+  killGraceMs?: number;
+  maxOutputBytes?: number;
+  signal?: AbortSignal;
+  onOutput?: (stream: "stdout" | "stderr", chunk: string) => void;
+  keepStdinOpen?: boolean;
+  onSpawn?: (control: ProcessControl) => void;
+}
+
+export interface ProcessControl {
+  pid?: number;
+  writeStdin: (data: string) => boolean;
+  endStdin: () => void;
+}
+
+export type JobStatus =
+  | "running"
+  | "exited"
+  | "stopped"
+  | "timed out"
+  | "failed";
+
+export interface JobInfo {
+  id: string;
+  name?: string;
+  command: string;
+  cwd?: string;
+  pid?: number;
+  status: JobStatus;
+  startedAt: string;
+  endedAt?: string;
+  exitCode?: number | null;
+  signal?: NodeJS.Signals | null;
+  error?: string;
+  outputLength: number;
+}
+
+export interface StartJobOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+  inheritEnv?: boolean;
+  approvedRules?: string[];
+  name?: string;
+  timeoutMs?: number;
+}
+
+export interface JobOutput {
+  job: JobInfo;
+  output: string;
+  offset: number;
+  nextOffset: number;
+  missed: number;
+  more: boolean;
+}
+
+export type GitChangeStatus =
+  | "added"
+  | "modified"
+  | "deleted"
+  | "renamed"
+  | "copied"
+  | "type-changed"
+  | "unmerged"
+  | "unknown";
+
+export interface GitFileChange {
+  path: string;
+  oldPath?: string;
+  status: GitChangeStatus;
+}
+
+export interface GitConflict {
+  path: string;
+  conflict: string;
+}
+
+export interface GitStatusOptions {
+  untrackedFiles?: "all" | "normal" | "no";
+  includeIgnored?: boolean;
+}
+
+export interface GitStatus {
+  branch: string | null;
+  commit: string | null;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  ignored: string[];
+  conflicted: GitConflict[];
+  clean: boolean;
+}
+
+export interface GitPerson {
+  name: string;
+  email: string;
+  date: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  parents: string[];
+  author: GitPerson;
+  committer: GitPerson;
+  refs: string[];
+  subject: string;
+  body: string;
+}
+
+export interface GitLogOptions {
+  range?: string;
+  maxCount?: number;
+  skip?: number;
+  author?: string;
+  since?: string;
+  until?: string;
+  grep?: string;
+  paths?: string[];
+  noMerges?: boolean;
+  firstParent?: boolean;
+}
+
+export interface GitDiffOptions {
+  staged?: boolean;
+  range?: string;
+  commit?: string;
+  paths?: string[];
+  contextLines?: number;
+  includePatch?: boolean;
+}
+
+export interface GitDiffFile extends GitFileChange {
+  additions: number | null;
+  deletions: number | null;
+  binary: boolean;
+}
+
+export interface GitDiffResult {
+  files: GitDiffFile[];
+  additions: number;
+  deletions: number;
+  patch?: string;
+  patchTruncated?: boolean;
+}
+
+export interface GitShowResult {
+  commit: GitCommit;
+  diff: GitDiffResult;
+}
+
+export interface GitBlameOptions {
+  ref?: string;
+  startLine?: number;
+  endLine?: number;
+  ignoreWhitespace?: boolean;
+}
+
+export interface GitBlameLine {
+  line: number;
+  content: string;
+  commit: string;
+  originalLine: number;
+  originalPath: string;
+  author: string;
+  authorEmail: string;
+  date: string;
+  summary: string;
+}
+
+export interface GitBlameResult {
+  path: string;
+  ref?: string;
+  lines: GitBlameLine[];
+}
+
+export interface GitFileHistoryOptions {
+  ref?: string;
+  maxCount?: number;
+  includePatch?: boolean;
+  contextLines?: number;
+}
+
+export interface GitFileHistoryEntry {
+  commit: GitCommit;
+  file: GitDiffFile;
+  patch?: string;
+}
+
+export interface GitCommitOptions extends GitRunOptions {
+  message: string;
+  files?: string[];
+  author?: string;
+  amend?: boolean;
+  allowEmpty?: boolean;
+}
+
+export interface GitCommitResult {
+  commit: GitCommit;
+  diff: GitDiffResult;
+  amended: boolean;
+}
+
+export interface ConventionalCommitCheck {
+  valid: boolean;
+  type?: string;
+  scope?: string;
+  breaking: boolean;
+  description?: string;
+  problems: string[];
+}
+
+export interface ConflictHunk {
+  index: number;
+  startLine: number;
+  endLine: number;
+  oursLabel: string;
+  theirsLabel: string;
+  baseLabel?: string;
+  ours: string;
+  theirs: string;
+  base?: string;
+}
+
+export interface ConflictFile {
+  path: string;
+  conflict: string;
+  exists: boolean;
+  binary: boolean;
+  hunks: ConflictHunk[];
+}
+
+export interface ConflictResolution {
+  hunk: number;
+  choice: "ours" | "theirs" | "both" | "custom";
+  content?: string;
+}
+
+export interface ConflictResolveResult {
+  content: string;
+  resolved: number;
+  remaining: number;
+  markersLeft: boolean;
+}
+
+export interface CodePosition {
+  line: number;
+  column?: number;
+  symbol?: string;
+}
+
+export interface CodeOutlineItem {
+  name: string;
+  kind: string;
+  modifiers: string[];
+  exported: boolean;
+  startLine: number;
+  endLine: number;
+  children: CodeOutlineItem[];
+}
+
+export interface CodeOutline {
+  path: string;
+  project: string;
+  exports: string[];
+  items: CodeOutlineItem[];
+}
+
+export interface CodeLocation {
+  path: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  text?: string;
+}
+
+export interface CodeDefinition extends CodeLocation {
+  name: string;
+  kind: string;
+  containerName?: string;
+}
+
+export interface CodeReference extends CodeLocation {
+  isDefinition: boolean;
+  isWriteAccess: boolean;
+}
+
+export interface FindReferencesOptions {
+  includeDeclaration?: boolean;
+  maxResults?: number;
+}
+
+export interface CodeReferencesResult {
+  symbol: string;
+  references: CodeReference[];
+  total: number;
+  truncated: boolean;
+}
+
+export interface CodeHoverInfo {
+  kind: string;
+  modifiers: string[];
+  signature: string;
+  documentation: string;
+  tags: { name: string; text: string }[];
+  location: CodeLocation;
+}
+
+export interface CodeFileEdit {
+  path: string;
+  isNewFile: boolean;
+  original: string;
+  content: string;
+  changes: number;
+}
+
+export interface CodeEditSet {
+  symbol: string;
+  files: CodeFileEdit[];
+}
+
+export interface RenameSymbolOptions {
+  findInStrings?: boolean;
+  findInComments?: boolean;
+}
+
+export interface GitBranch {
+  name: string;
+  remote: boolean;
+  current: boolean;
+  commit: string;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  upstreamGone: boolean;
+  date: string;
+  subject: string;
+}
+
+export interface GitStash {
+  index: number;
+  ref: string;
+  hash: string;
+  date: string;
+  message: string;
+}
+
+export interface SandboxInfo {
+  id: string;
+  branch: string;
+  path: string;
+  repoRoot: string;
+  baseRef: string;
+  baseCommit: string;
+  head: string;
+}
+
+export interface CreateSandboxOptions {
+  name?: string;
+  baseRef?: string;
+}
+
+export interface SandboxMergeOptions {
+  message?: string;
+  squash?: boolean;
+}
+
+export interface SandboxMergeResult {
+  target: string;
+  commit: string;
+  squash: boolean;
+  committedPending: boolean;
+}
+
+export interface GitRunOptions {
+  signal?: AbortSignal;
+  approvedRules?: string[];
+}
+
+export interface OutputProgress {
+  onOutput: (stream: "stdout" | "stderr", chunk: string) => void;
+  finish: () => Promise<void>;
+}
+
+export interface PathPolicyConfig {
+  allowedRoots: string[];
+  denyPatterns: string[];
+}
+
+export interface ResolvePathOptions {
+  baseDir?: string;
+  noFollow?: boolean;
+  sessionId?: string;
+}
+
+export interface PathPolicyError extends Error {
+  requestedPath: string;
+  reason: "invalid" | "outside-roots" | "denied";
+  allowedRoots: string[];
+}
+
+export interface CommandRule {
+  name: string;
+  description?: string;
+  overridable?: boolean;
+  executables?: string[];
+  args?: string;
+  commandLine?: string;
+  cwd?: string[];
+}
+
+export interface CommandPolicyConfig {
+  allow: CommandRule[];
+  deny: CommandRule[];
+  defaultDenyRules: boolean;
+}
+
+export interface CheckCommandOptions {
+  cwd?: string;
+  shell?: boolean;
+  approvedRules?: string[];
+}
+
+export interface CommandPolicyError extends Error {
+  command: string;
+  reason: "denied" | "not-allowed";
+  rule?: string;
+  overridable: boolean;
+}
+
+export interface ConfirmationRequest {
+  title: string;
+  summary: string;
+  details?: string;
+}
+
+export interface ConfirmationOutcome {
+  approved: boolean;
+  method: "elicitation" | "fallback";
+  action?: "accept" | "decline" | "cancel";
+}
+
+export interface ConfirmationDeclinedError extends Error {
+  operation: string;
+  method: "elicitation" | "fallback";
+  action?: "accept" | "decline" | "cancel";
+}
+
+export type TextEncoding = "utf8" | "utf16le" | "utf16be" | "latin1";
+
+export interface EncodingInfo {
+  encoding: TextEncoding | "binary";
+  bomLength: number;
+}
+
+export interface ReadRangeOptions {
+  start?: number;
+  length?: number;
+  encoding?: TextEncoding;
+}
+
+export interface DecodedText {
+  content: string;
+  encoding: TextEncoding;
+  hasBom: boolean;
+}
+
+export interface FileVersionInfo {
+  hash: string;
+  mtime: string;
+}
+
+export interface WritePrecondition {
+  expectedHash?: string;
+  expectedMtime?: string;
+}
+
+export interface WriteConflictError extends Error {
+  filePath: string;
+  expected: WritePrecondition;
+  actual: FileVersionInfo | null;
 }
 
 export interface FileReadResult {
   content: string | Buffer;
   isBinary: boolean;
+  encoding?: TextEncoding;
+  hasBom?: boolean;
+  size: number;
+  start: number;
+  bytesRead: number;
+}
+
+export type FilePatchOperation =
+  | "modify"
+  | "create"
+  | "delete"
+  | "rename"
+  | "copy";
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+export interface FilePatch {
+  operation: FilePatchOperation;
+  oldPath: string;
+  newPath: string;
+  hunks: PatchHunk[];
+  isBinary: boolean;
+}
+
+export interface HunkResult {
+  hunk: number;
+  header: string;
+  applied: boolean;
+  offset: number;
+  fuzz: number;
+  error?: string;
+}
+
+export interface PatchApplyResult {
+  content: string;
+  applied: boolean;
+  hunks: HunkResult[];
+}
+
+export type StagedChange =
+  | { type: "file"; content: Buffer; precondition?: WritePrecondition }
+  | { type: "directory" }
+  | { type: "delete"; precondition?: WritePrecondition; trash?: boolean };
+
+export interface ChangeSetInfo {
+  id: string;
+  description?: string;
+  createdAt: string;
+  changes: number;
+}
+
+export interface ChangeSetFileStatus {
+  path: string;
+  status: "added" | "modified" | "deleted" | "directory";
+}
+
+export interface ChangeSetPreview {
+  changeSet: ChangeSetInfo;
+  files: ChangeSetFileStatus[];
+  diff: string;
+}
+
+export interface OverwritePreview {
+  files: string[];
+  diff: string;
+}
+
+export interface FileChangeRecord {
+  path: string;
+  before: Buffer | null;
+  after: Buffer | null;
+}
+
+export interface ChangeRecordOptions {
+  operation?: string;
+  undoOf?: string;
+}
+
+export type ConflictPolicy = "error" | "skip" | "overwrite" | "rename";
+
+export interface TransferOptions {
+  include?: string[];
+  exclude?: string[];
+  onConflict?: ConflictPolicy;
+  dryRun?: boolean;
+}
+
+export interface TransferResult {
+  staged: boolean;
+  files: number;
+  skipped: string[];
+  renamed: Array<{ from: string; to: string }>;
+  overwritten: Array<{ from: string; to: string }>;
+  diff?: string;
+}
+
+export interface DeleteOptions {
+  recursive?: boolean;
+  trash?: boolean;
+  dryRun?: boolean;
+}
+
+export interface DeleteResult {
+  staged: boolean;
+  trashPath?: string;
+  files?: string[];
+}
+
+export interface HistoryFileEntry {
+  path: string;
+  before: string | null;
+  beforeSize: number;
+  after: string | null;
+  stored: boolean;
+}
+
+export interface HistoryChange {
+  id: string;
+  timestamp: string;
+  operation: string;
+  files: HistoryFileEntry[];
+  undoOf?: string;
+  undone?: boolean;
+}
+
+export interface FileVersion {
+  changeId: string;
+  timestamp: string;
+  operation: string;
+  exists: boolean;
+  size: number;
+  stored: boolean;
+  undone: boolean;
+}
+
+export interface IgnoreRule {
+  pattern: string;
+  regExp: RegExp;
+  base: string;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export interface IgnoreContext {
+  root: string;
+  rules: IgnoreRule[];
+}
+
+export interface WalkOptions {
+  respectGitignore?: boolean;
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+}
+
+export interface WalkEntry {
+  path: string;
+  relativePath: string;
+  type: "file" | "directory" | "symlink" | "other";
+  depth: number;
+}
+
+export interface SearchOptions extends WalkOptions {
+  pattern: string;
+  literal?: boolean;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  beforeContext?: number;
+  afterContext?: number;
+  maxResults?: number;
+  offset?: number;
+}
+
+export interface SearchMatch {
+  file: string;
+  line: number;
+  column: number;
+  match: string;
+  lineText: string;
+  before: string[];
+  after: string[];
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  filesSearched: number;
+  filesSkipped: number;
+  truncated: boolean;
+  nextOffset?: number;
+}
+
+export interface DirectoryTreeOptions {
+  maxDepth?: number;
+  respectGitignore?: boolean;
+  exclude?: string[];
+  maxEntriesPerDirectory?: number;
+}
+
+export interface DirectoryTreeNode {
+  name: string;
+  path: string;
+  type: WalkEntry["type"];
+  size: number;
+  mtime: string;
+  mode: string;
+  target?: string;
+  files?: number;
+  directories?: number;
+  omitted?: number;
+  children?: DirectoryTreeNode[];
 }
 
 export interface ToolResponse {
@@ -75,13 +792,40 @@ export interface Logger {
 
 export interface FileUtils {
   getMimeType: (filePath: string) => string;
-  isBinaryFile: (filePath: string) => boolean;
+  detectEncoding: (sample: Buffer) => EncodingInfo;
+  detectFileEncoding: (filePath: string) => Promise<EncodingInfo>;
+  isBinaryContent: (sample: Buffer) => boolean;
+  decodeText: (buffer: Buffer, encoding: TextEncoding) => string;
+  encodeText: (
+    text: string,
+    encoding: TextEncoding,
+    withBom?: boolean
+  ) => Buffer;
+  completeCharacterLength: (buffer: Buffer, encoding: TextEncoding) => number;
+  decodeContent: (buffer: Buffer) => DecodedText | null;
   ensureDirectory: (dirPath: string, recursive?: boolean) => Promise<void>;
+  writeFileAtomic: (
+    filePath: string,
+    content: string | Buffer
+  ) => Promise<void>;
+  renameWithFallback: (
+    sourcePath: string,
+    destinationPath: string
+  ) => Promise<void>;
   safeWriteFile: (filePath: string, content: string | Buffer) => Promise<void>;
   safeReadFile: (
     filePath: string,
-    forceBinary?: boolean
+    forceBinary?: boolean,
+    options?: ReadRangeOptions
   ) => Promise<FileReadResult>;
+  hashContent: (content: Buffer) => string;
+  getFileVersionInfo: (filePath: string) => Promise<FileVersionInfo | null>;
+  verifyWritePrecondition: (
+    filePath: string,
+    precondition?: WritePrecondition
+  ) => Promise<void>;
+  isWriteConflictError: (error: unknown) => error is WriteConflictError;
+  writeConflictErrorResponse: (error: WriteConflictError) => ToolResponse;
 }
 
 export interface ProcessUtils {
@@ -90,10 +834,345 @@ export interface ProcessUtils {
     args?: string[],
     options?: ProcessOptions
   ) => Promise<ProcessResult>;
+  splitCommandLine: (commandLine: string) => string[];
+  formatCommandLine: (argv: string[]) => string;
+  buildEnvironment: (
+    env?: Record<string, string>,
+    inheritEnv?: boolean
+  ) => NodeJS.ProcessEnv;
+}
+
+export interface GlobUtils {
+  toPosixPath: (filePath: string) => string;
+  globToRegExp: (pattern: string) => RegExp;
+  matchesGlob: (filePath: string, pattern: string) => boolean;
+  matchesAnyGlob: (filePath: string, patterns: string[]) => boolean;
+}
+
+export interface PatchUtils {
+  parsePatch: (diffText: string, strip?: number) => FilePatch[];
+  applyHunks: (
+    content: string,
+    hunks: PatchHunk[],
+    fuzzFactor?: number
+  ) => PatchApplyResult;
+  formatHunkHeader: (hunk: PatchHunk) => string;
+}
+
+export interface ChangeSetUtils {
+  beginChangeSet: (
+    sessionId: string | undefined,
+    description?: string
+  ) => ChangeSetInfo;
+  getChangeSet: (sessionId?: string) => ChangeSetInfo | undefined;
+  readFile: (filePath: string, sessionId?: string) => Promise<Buffer>;
+  pathExists: (filePath: string, sessionId?: string) => Promise<boolean>;
+  applyChanges: (
+    changes: Map<string, StagedChange>,
+    sessionId?: string,
+    options?: ChangeRecordOptions
+  ) => Promise<boolean>;
+  writeFile: (
+    filePath: string,
+    content: string | Buffer,
+    sessionId?: string,
+    precondition?: WritePrecondition
+  ) => Promise<boolean>;
+  createDirectory: (
+    dirPath: string,
+    recursive: boolean,
+    sessionId?: string
+  ) => Promise<boolean>;
+  copyFile: (
+    sourcePath: string,
+    destinationPath: string,
+    sessionId?: string
+  ) => Promise<boolean>;
+  movePath: (
+    sourcePath: string,
+    destinationPath: string,
+    sessionId?: string
+  ) => Promise<boolean>;
+  transferPath: (
+    mode: "copy" | "move",
+    sourcePath: string,
+    destinationPath: string,
+    options?: TransferOptions,
+    sessionId?: string
+  ) => Promise<TransferResult>;
+  deletePath: (
+    targetPath: string,
+    options?: DeleteOptions,
+    sessionId?: string
+  ) => Promise<DeleteResult>;
+  previewChangeSet: (sessionId?: string) => Promise<ChangeSetPreview>;
+  previewOverwrites: (
+    changes: Map<string, StagedChange>,
+    sessionId?: string
+  ) => Promise<OverwritePreview>;
+  commitChangeSet: (sessionId?: string) => Promise<ChangeSetInfo>;
+  rollbackChangeSet: (sessionId?: string) => ChangeSetInfo;
+  clearChangeSet: (sessionId: string | undefined) => void;
+}
+
+export interface HistoryUtils {
+  isHistoryEnabled: () => boolean;
+  recordChange: (
+    records: FileChangeRecord[],
+    sessionId?: string,
+    options?: ChangeRecordOptions
+  ) => Promise<string | undefined>;
+  listFileHistory: (
+    filePath: string,
+    sessionId?: string
+  ) => Promise<FileVersion[]>;
+  getFileVersion: (
+    filePath: string,
+    changeId: string,
+    sessionId?: string
+  ) => Promise<Buffer | null>;
+  getLastChange: (
+    sessionId?: string
+  ) => Promise<{ root: string; change: HistoryChange } | undefined>;
+  markUndone: (root: string, changeId: string) => Promise<void>;
+}
+
+export interface IgnoreUtils {
+  parseIgnoreFile: (content: string, base?: string) => IgnoreRule[];
+  isIgnored: (
+    relativePath: string,
+    isDirectory: boolean,
+    rules: IgnoreRule[]
+  ) => boolean;
+  loadIgnoreFile: (dirPath: string, base: string) => Promise<IgnoreRule[]>;
+  loadInheritedRules: (startDir: string) => Promise<IgnoreContext>;
+}
+
+export interface SearchUtils {
+  walkTree: (
+    rootDir: string,
+    options?: WalkOptions
+  ) => AsyncGenerator<WalkEntry>;
+  searchFiles: (
+    targetPath: string,
+    options: SearchOptions
+  ) => Promise<SearchResult>;
+}
+
+export interface TreeUtils {
+  buildDirectoryTree: (
+    rootDir: string,
+    options?: DirectoryTreeOptions
+  ) => Promise<DirectoryTreeNode>;
+  formatDirectoryTree: (root: DirectoryTreeNode, details?: boolean) => string;
+}
+
+export interface PathPolicyUtils {
+  resolvePath: (
+    inputPath: string,
+    options?: ResolvePathOptions
+  ) => Promise<string>;
+  configurePathPolicy: (config: Partial<PathPolicyConfig>) => void;
+  getPathPolicy: () => PathPolicyConfig;
+  setClientRoots: (sessionId: string | undefined, roots: string[]) => void;
+  clearClientRoots: (sessionId: string | undefined) => void;
+  setSandboxRoot: (sessionId: string | undefined, root?: string) => void;
+  getSandboxRoot: (sessionId?: string) => string | undefined;
+  getAllowedRoots: (sessionId?: string) => string[];
+  getResolvedRoots: (sessionId?: string) => Promise<string[]>;
+  isWithin: (parent: string, child: string) => boolean;
+  isDenied: (targetPath: string, root: string) => boolean;
+  findWorkspaceRoot: (targetPath: string) => Promise<string | undefined>;
+  isPathPolicyError: (error: unknown) => error is PathPolicyError;
+  pathPolicyErrorResponse: (error: PathPolicyError) => ToolResponse;
+}
+
+export interface CommandPolicyUtils {
+  checkCommand: (
+    command: string,
+    args?: string[],
+    options?: CheckCommandOptions
+  ) => void;
+  configureCommandPolicy: (config: Partial<CommandPolicyConfig>) => void;
+  getCommandPolicy: () => CommandPolicyConfig;
+  getDefaultDenyRules: () => CommandRule[];
+  isCommandPolicyError: (error: unknown) => error is CommandPolicyError;
+  commandPolicyErrorResponse: (error: CommandPolicyError) => ToolResponse;
+}
+
+export interface ConfirmationUtils {
+  getConfirmationFallback: () => "deny" | "allow";
+  requestConfirmation: (
+    server: McpServer,
+    extra: ToolExtra,
+    request: ConfirmationRequest
+  ) => Promise<ConfirmationOutcome>;
+  requireConfirmation: (
+    server: McpServer,
+    extra: ToolExtra,
+    request: ConfirmationRequest
+  ) => Promise<void>;
+  confirmOverwrites: (
+    server: McpServer,
+    extra: ToolExtra,
+    title: string,
+    changes: Map<string, StagedChange>
+  ) => Promise<void>;
+  runWithCommandApproval: <T>(
+    server: McpServer,
+    extra: ToolExtra,
+    run: (approvedRules: string[]) => Promise<T>
+  ) => Promise<T>;
+  isConfirmationDeclinedError: (
+    error: unknown
+  ) => error is ConfirmationDeclinedError;
+  confirmationDeclinedResponse: (
+    error: ConfirmationDeclinedError
+  ) => ToolResponse;
+}
+
+export interface ProgressUtils {
+  createOutputProgress: (extra: ToolExtra) => OutputProgress | undefined;
+}
+
+export interface JobUtils {
+  startJob: (
+    command: string,
+    args: string[],
+    options?: StartJobOptions,
+    sessionId?: string
+  ) => JobInfo;
+  listJobs: (sessionId?: string) => JobInfo[];
+  readJobOutput: (
+    jobId: string,
+    offset?: number,
+    maxLength?: number,
+    sessionId?: string
+  ) => JobOutput;
+  writeJobStdin: (
+    jobId: string,
+    input: string,
+    close?: boolean,
+    sessionId?: string
+  ) => JobInfo;
+  stopJob: (jobId: string, sessionId?: string) => Promise<JobInfo>;
+  stopSessionJobs: (sessionId: string | undefined) => Promise<void>;
+}
+
+export interface GitUtils {
+  runGit: (
+    args: string[],
+    cwd: string,
+    options?: GitRunOptions
+  ) => Promise<string>;
+  checkRevision: (revision: string) => string;
+  getStatus: (cwd: string, options?: GitStatusOptions) => Promise<GitStatus>;
+  getLog: (cwd: string, options?: GitLogOptions) => Promise<GitCommit[]>;
+  getDiff: (cwd: string, options?: GitDiffOptions) => Promise<GitDiffResult>;
+  showCommit: (
+    cwd: string,
+    ref: string,
+    options?: GitDiffOptions
+  ) => Promise<GitShowResult>;
+  showFile: (cwd: string, ref: string, filePath: string) => Promise<string>;
+  blameFile: (
+    cwd: string,
+    filePath: string,
+    options?: GitBlameOptions
+  ) => Promise<GitBlameResult>;
+  getFileHistory: (
+    cwd: string,
+    filePath: string,
+    options?: GitFileHistoryOptions
+  ) => Promise<GitFileHistoryEntry[]>;
+  listBranches: (cwd: string, includeRemote?: boolean) => Promise<GitBranch[]>;
+  listStashes: (cwd: string) => Promise<GitStash[]>;
+  getConventionalCommitTypes: () => string[] | undefined;
+  checkConventionalCommit: (
+    message: string,
+    types?: string[]
+  ) => ConventionalCommitCheck;
+  createCommit: (
+    cwd: string,
+    options: GitCommitOptions
+  ) => Promise<GitCommitResult>;
+}
+
+export interface ConflictUtils {
+  parseConflictMarkers: (content: string) => ConflictHunk[];
+  hasConflictMarkers: (content: string) => boolean;
+  resolveConflictMarkers: (
+    content: string,
+    resolutions: ConflictResolution[]
+  ) => ConflictResolveResult;
+  listConflicts: (cwd: string, paths?: string[]) => Promise<ConflictFile[]>;
+}
+
+export interface LanguageServiceUtils {
+  getOutline: (filePath: string) => Promise<CodeOutline>;
+  getDefinitions: (
+    filePath: string,
+    position: CodePosition
+  ) => Promise<CodeDefinition[]>;
+  findReferences: (
+    filePath: string,
+    position: CodePosition,
+    options?: FindReferencesOptions
+  ) => Promise<CodeReferencesResult>;
+  getHoverInfo: (
+    filePath: string,
+    position: CodePosition
+  ) => Promise<CodeHoverInfo | undefined>;
+  getRenameEdits: (
+    filePath: string,
+    position: CodePosition,
+    newName: string,
+    options?: RenameSymbolOptions
+  ) => Promise<CodeEditSet>;
+  getMoveToFileEdits: (
+    filePath: string,
+    position: CodePosition,
+    targetPath: string
+  ) => Promise<CodeEditSet>;
+  invalidateFiles: (paths: string[]) => void;
+}
+
+export interface SandboxUtils {
+  listSandboxes: (cwd: string) => Promise<SandboxInfo[]>;
+  getSandbox: (cwd: string, id: string) => Promise<SandboxInfo>;
+  createSandbox: (
+    cwd: string,
+    options?: CreateSandboxOptions
+  ) => Promise<SandboxInfo>;
+  diffSandbox: (
+    sandbox: SandboxInfo,
+    options?: GitDiffOptions
+  ) => Promise<GitDiffResult>;
+  mergeSandbox: (
+    sandbox: SandboxInfo,
+    options?: SandboxMergeOptions
+  ) => Promise<SandboxMergeResult>;
+  removeSandbox: (sandbox: SandboxInfo) => Promise<void>;
 }
 
 export interface Utils {
   logger: Logger;
   file: FileUtils;
   process: ProcessUtils;
+  glob: GlobUtils;
+  pathPolicy: PathPolicyUtils;
+  commandPolicy: CommandPolicyUtils;
+  confirmation: ConfirmationUtils;
+  patch: PatchUtils;
+  changeSet: ChangeSetUtils;
+  history: HistoryUtils;
+  ignore: IgnoreUtils;
+  search: SearchUtils;
+  tree: TreeUtils;
+  progress: ProgressUtils;
+  jobs: JobUtils;
+  git: GitUtils;
+  sandbox: SandboxUtils;
+  conflict: ConflictUtils;
+  languageService: LanguageServiceUtils;
 }
@@ -0,0 +1,1319 @@
+/**
+ * Change set utility functions for CodeTools MCP
+ *
+ * Every file-writing tool goes through this module. Without an active change
+ * set, changes are written straight to disk, and a batch that fails part way
+ * is restored. Every write to disk is recorded in the file history and
+ * passed on to the TypeScript language services. After
+ * `beginChangeSet` they are recorded in a per-session
+ * staging area instead; reads through this module see the staged content
+ * until the change set is committed to disk or rolled back.
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import * as Diff from "diff";
+import {
+  ChangeSetFileStatus,
+  ChangeSetInfo,
+  ChangeSetPreview,
+  ChangeSetUtils,
+  ChangeRecordOptions,
+  DeleteOptions,
+  DeleteResult,
+  FileChangeRecord,
+  OverwritePreview,
+  StagedChange,
+  TransferOptions,
+  TransferResult,
+  WritePrecondition,
+} from "../types/index.js";
+import {
+  decodeContent,
+  renameWithFallback,
+  verifyWritePrecondition,
+  writeFileAtomic,
+} from "./file.js";
+import { matchesAnyGlob, toPosixPath } from "./glob.js";
+import { isHistoryEnabled, recordChange } from "./history.js";
+import { invalidateFiles } from "./language-service.js";
+import {
+  findWorkspaceRoot,
+  getAllowedRoots,
+  isDenied,
+  isWithin,
+} from "./path-policy.js";
+import logger from "./logger.js";
+
+/**
+ * An open change set. Changes are kept in the order they must be written.
+ */
+interface ChangeSet {
+  id: string;
+  description?: string;
+  createdAt: Date;
+  changes: Map<string, StagedChange>;
+}
+
+// Open change sets, keyed by session ID ("" for stdio)
+const changeSets = new Map<string, ChangeSet>();
+
+// Where deletions in trash mode are moved to
+const TRASH_DIR =
+  process.env.CODE_TOOLS_TRASH_DIR ||
+  path.join(os.homedir(), ".code-tools-mcp", "trash");
+
+/**
+ * Summarize a change set for tool responses
+ * @param {ChangeSet} changeSet - The change set
+ * @returns {ChangeSetInfo} The summary
+ */
+function describeChangeSet(changeSet: ChangeSet): ChangeSetInfo {
+  return {
+    id: changeSet.id,
+    description: changeSet.description,
+    createdAt: changeSet.createdAt.toISOString(),
+    changes: changeSet.changes.size,
+  };
+}
+
+/**
+ * Get the open change set of a session, failing if there is none
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {ChangeSet} The change set
+ */
+function requireChangeSet(sessionId?: string): ChangeSet {
+  const changeSet = changeSets.get(sessionId ?? "");
+  if (!changeSet) {
+    throw new Error("No change set is active. Call begin_changeset first.");
+  }
+  return changeSet;
+}
+
+/**
+ * Create an error that looks like a failed file system call
+ * @param {string} code - The error code, such as ENOENT
+ * @param {string} message - Human readable explanation
+ * @returns {NodeJS.ErrnoException} The error
+ */
+function createFsError(code: string, message: string): NodeJS.ErrnoException {
+  const error = new Error(`${code}: ${message}`) as NodeJS.ErrnoException;
+  error.code = code;
+  return error;
+}
+
+/**
+ * Find the staged state of a path, including deletions of its ancestors
+ * @param {ChangeSet|undefined} changeSet - The session's change set
+ * @param {string} filePath - Resolved path
+ * @returns {StagedChange|undefined} The staged state, if the path is affected
+ */
+function findStagedChange(
+  changeSet: ChangeSet | undefined,
+  filePath: string
+): StagedChange | undefined {
+  if (!changeSet) {
+    return undefined;
+  }
+  const own = changeSet.changes.get(filePath);
+  if (own) {
+    return own;
+  }
+  for (
+    let dir = path.dirname(filePath);
+    dir !== path.dirname(dir);
+    dir = path.dirname(dir)
+  ) {
+    if (changeSet.changes.get(dir)?.type === "delete") {
+      return { type: "delete" };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Record a change, superseding earlier changes to the same path
+ * @param {ChangeSet} changeSet - The change set
+ * @param {string} filePath - Resolved path
+ * @param {StagedChange} change - The change
+ */
+function stageChange(
+  changeSet: ChangeSet,
+  filePath: string,
+  change: StagedChange
+): void {
+  // Nothing staged below a deleted directory survives the deletion
+  if (change.type === "delete") {
+    for (const stagedPath of [...changeSet.changes.keys()]) {
+      if (isWithin(filePath, stagedPath)) {
+        changeSet.changes.delete(stagedPath);
+      }
+    }
+  }
+
+  // Preconditions describe the file on disk, so the first one staged for a
+  // path is kept and checked again on commit
+  const previous = changeSet.changes.get(filePath);
+  const precondition =
+    previous && previous.type !== "directory" && previous.precondition;
+  const staged =
+    precondition && change.type !== "directory" && !change.precondition
+      ? { ...change, precondition }
+      : change;
+
+  // Re-inserting moves the path to the end so it is written after its parents
+  changeSet.changes.delete(filePath);
+  changeSet.changes.set(filePath, staged);
+}
+
+/**
+ * Start a change set for a session
+ * @param {string|undefined} sessionId - The client's session ID
+ * @param {string} [description] - What the change set is for
+ * @returns {ChangeSetInfo} The new change set
+ */
+export function beginChangeSet(
+  sessionId: string | undefined,
+  description?: string
+): ChangeSetInfo {
+  const existing = changeSets.get(sessionId ?? "");
+  if (existing) {
+    throw new Error(
+      `Change set ${existing.id} is already active. Commit or roll it back first.`
+    );
+  }
+
+  const changeSet: ChangeSet = {
+    id: randomUUID().slice(0, 8),
+    description,
+    createdAt: new Date(),
+    changes: new Map(),
+  };
+  changeSets.set(sessionId ?? "", changeSet);
+  logger.info(`Started change set ${changeSet.id}`, { sessionId });
+  return describeChangeSet(changeSet);
+}
+
+/**
+ * Get the active change set of a session
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {ChangeSetInfo|undefined} The change set, if one is active
+ */
+export function getChangeSet(sessionId?: string): ChangeSetInfo | undefined {
+  const changeSet = changeSets.get(sessionId ?? "");
+  return changeSet ? describeChangeSet(changeSet) : undefined;
+}
+
+/**
+ * Read a file, seeing changes staged in the session's change set
+ * @param {string} filePath - Resolved path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<Buffer>} The file content
+ */
+export async function readFile(
+  filePath: string,
+  sessionId?: string
+): Promise<Buffer> {
+  const staged = findStagedChange(changeSets.get(sessionId ?? ""), filePath);
+  if (staged?.type === "file") {
+    return Buffer.from(staged.content);
+  }
+  if (staged?.type === "delete") {
+    throw createFsError(
+      "ENOENT",
+      `no such file or directory (deleted in change set), open '${filePath}'`
+    );
+  }
+  if (staged?.type === "directory") {
+    throw createFsError(
+      "EISDIR",
+      `illegal operation on a directory, read '${filePath}'`
+    );
+  }
+  return fs.readFile(filePath);
+}
+
+/**
+ * Check whether a path exists, seeing changes staged in the session's change set
+ * @param {string} filePath - Resolved path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<boolean>} True if the path exists
+ */
+export async function pathExists(
+  filePath: string,
+  sessionId?: string
+): Promise<boolean> {
+  const staged = findStagedChange(changeSets.get(sessionId ?? ""), filePath);
+  if (staged) {
+    return staged.type !== "delete";
+  }
+  try {
+    await fs.lstat(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Check whether a path is a directory, seeing staged changes
+ * @param {string} filePath - Resolved path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<boolean>} True if the path is an existing directory
+ */
+async function isDirectory(
+  filePath: string,
+  sessionId?: string
+): Promise<boolean> {
+  const staged = findStagedChange(changeSets.get(sessionId ?? ""), filePath);
+  if (staged) {
+    return staged.type === "directory";
+  }
+  try {
+    return (await fs.stat(filePath)).isDirectory();
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * List everything below a directory as the session sees it: what is on disk,
+ * minus staged deletions, plus staged files and directories
+ * @param {string} dirPath - Resolved directory path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<Map<string, boolean>>} Paths below the directory, mapped to whether each is a directory
+ */
+async function listTree(
+  dirPath: string,
+  sessionId?: string
+): Promise<Map<string, boolean>> {
+  const changeSet = changeSets.get(sessionId ?? "");
+  const entries = new Map<string, boolean>();
+
+  const walk = async (current: string): Promise<void> => {
+    let children;
+    try {
+      children = await fs.readdir(current, { withFileTypes: true });
+    } catch (error) {
+      return;
+    }
+    for (const child of children) {
+      const childPath = path.join(current, child.name);
+      if (findStagedChange(changeSet, childPath)?.type === "delete") {
+        continue;
+      }
+      entries.set(childPath, child.isDirectory());
+      if (child.isDirectory()) {
+        await walk(childPath);
+      }
+    }
+  };
+  await walk(dirPath);
+
+  changeSet?.changes.forEach((change, stagedPath) => {
+    if (stagedPath !== dirPath && isWithin(dirPath, stagedPath)) {
+      if (change.type === "delete") {
+        entries.delete(stagedPath);
+      } else {
+        entries.set(stagedPath, change.type === "directory");
+      }
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Find the root that the path policy's deny patterns are matched against for
+ * a directory: the innermost workspace root holding it, or the directory
+ * itself when it is in none
+ * @param {string} dirPath - Resolved directory path
+ * @returns {Promise<string>} The root
+ */
+async function findDenyRoot(dirPath: string): Promise<string> {
+  return (await findWorkspaceRoot(dirPath)) ?? dirPath;
+}
+
+/**
+ * List the regular files below a directory on disk, ignoring staged changes
+ * and leaving out the files and directories the path policy denies
+ * @param {string} dirPath - Resolved directory path
+ * @param {string} [denyRoot] - Root to match deny patterns against, found when omitted
+ * @returns {Promise<string[]>} The file paths
+ */
+async function listDiskFiles(
+  dirPath: string,
+  denyRoot?: string
+): Promise<string[]> {
+  const root = denyRoot ?? (await findDenyRoot(dirPath));
+  const files: string[] = [];
+  for (const child of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const childPath = path.join(dirPath, child.name);
+    if (isDenied(childPath, root)) {
+      continue;
+    }
+    if (child.isDirectory()) {
+      files.push(...(await listDiskFiles(childPath, root)));
+    } else if (child.isFile()) {
+      files.push(childPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Read every file below a directory on disk
+ * @param {string} dirPath - Resolved directory path
+ * @param {string} [displayRoot] - Path to report the files under instead of dirPath
+ * @returns {Promise<FileChangeRecord[]>} The files, as existing before the change
+ */
+async function snapshotTree(
+  dirPath: string,
+  displayRoot = dirPath
+): Promise<FileChangeRecord[]> {
+  const records: FileChangeRecord[] = [];
+  for (const filePath of await listDiskFiles(dirPath)) {
+    records.push({
+      path: path.join(displayRoot, path.relative(dirPath, filePath)),
+      before: await fs.readFile(filePath),
+      after: null,
+    });
+  }
+  return records;
+}
+
+/**
+ * Check the write precondition of every change against the files on disk
+ * @param {Map<string, StagedChange>} changes - The changes
+ */
+async function verifyPreconditions(
+  changes: Map<string, StagedChange>
+): Promise<void> {
+  for (const [filePath, change] of changes) {
+    if (change.type !== "directory") {
+      await verifyWritePrecondition(filePath, change.precondition);
+    }
+  }
+}
+
+/**
+ * Move a path into its own folder in the trash, named after the time of
+ * deletion so nothing in the trash is ever overwritten
+ * @param {string} currentPath - Where the path is now
+ * @param {string} originalPath - Where it was deleted from
+ * @returns {Promise<string>} Its path in the trash
+ */
+async function moveToTrash(
+  currentPath: string,
+  originalPath: string
+): Promise<string> {
+  const folder = path.join(
+    TRASH_DIR,
+    `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(
+      0,
+      8
+    )}`
+  );
+  await fs.mkdir(folder, { recursive: true });
+  const trashPath = path.join(folder, path.basename(originalPath));
+  await renameWithFallback(currentPath, trashPath);
+  logger.info(`Moved ${originalPath} to the trash at ${trashPath}`);
+  return trashPath;
+}
+
+/**
+ * Write changes to disk in order. Files are replaced atomically, and if any
+ * step fails, every path already touched is restored before the error is
+ * rethrown. Once everything is written the change is recorded in the file
+ * history.
+ * @param {Map<string, StagedChange>} changes - The changes to write
+ * @param {string} [sessionId] - The client's session ID
+ * @param {ChangeRecordOptions} [options] - How to record the change in history
+ * @returns {Promise<Map<string, string>>} Where each trashed path was moved to
+ */
+async function writeChanges(
+  changes: Map<string, StagedChange>,
+  sessionId?: string,
+  options: ChangeRecordOptions = {}
+): Promise<Map<string, string>> {
+  await verifyPreconditions(changes);
+
+  // Snapshot files first so a failed read aborts before anything is written
+  const originals = new Map<string, Buffer | null>();
+  for (const [filePath, change] of changes) {
+    if (change.type === "directory") {
+      continue;
+    }
+    try {
+      const stats = await fs.lstat(filePath);
+      if (!stats.isDirectory()) {
+        originals.set(filePath, await fs.readFile(filePath));
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      originals.set(filePath, null);
+    }
+  }
+
+  const touched: string[] = [];
+  const createdDirectories: string[] = [];
+  // Deleted directories and trashed files are moved aside, and only removed
+  // or moved to the trash once all writes succeed
+  const movedAside: Array<{ filePath: string; aside: string; trash: boolean }> =
+    [];
+  const trashed = new Map<string, string>();
+  // Content before and after, per file, for the history
+  const records = new Map<string, FileChangeRecord>();
+
+  try {
+    for (const [filePath, change] of changes) {
+      if (change.type === "directory") {
+        const created = await fs.mkdir(filePath, { recursive: true });
+        if (created) {
+          createdDirectories.push(created);
+        }
+      } else if (change.type === "file") {
+        const created = await fs.mkdir(path.dirname(filePath), {
+          recursive: true,
+        });
+        if (created) {
+          createdDirectories.push(created);
+        }
+        touched.push(filePath);
+        await writeFileAtomic(filePath, change.content);
+        records.set(filePath, {
+          path: filePath,
+          before:
+            records.get(filePath)?.before ?? originals.get(filePath) ?? null,
+          after: change.content,
+        });
+      } else {
+        const stats = await fs.lstat(filePath).catch(() => null);
+        if (stats && (stats.isDirectory() || change.trash)) {
+          const aside = path.join(
+            path.dirname(filePath),
+            `.${path.basename(filePath)}.${randomUUID().slice(0, 8)}.deleted`
+          );
+          await fs.rename(filePath, aside);
+          movedAside.push({ filePath, aside, trash: change.trash ?? false });
+          if (!stats.isDirectory()) {
+            records.set(filePath, {
+              path: filePath,
+              before:
+                records.get(filePath)?.before ??
+                originals.get(filePath) ??
+                null,
+              after: null,
+            });
+          } else if (isHistoryEnabled()) {
+            for (const record of await snapshotTree(aside, filePath)) {
+              records.set(record.path, {
+                ...record,
+                before: records.get(record.path)?.before ?? record.before,
+              });
+            }
+          }
+        } else if (stats) {
+          touched.push(filePath);
+          await fs.rm(filePath, { force: true });
+          records.set(filePath, {
+            path: filePath,
+            before:
+              records.get(filePath)?.before ?? originals.get(filePath) ?? null,
+            after: null,
+          });
+        }
+      }
+    }
+
+    for (const { filePath, aside, trash } of movedAside) {
+      if (trash) {
+        trashed.set(filePath, await moveToTrash(aside, filePath));
+      }
+    }
+  } catch (error) {
+    logger.error("Writing changes failed, restoring original files", {
+      error: (error as Error).message,
+    });
+    for (const filePath of touched.reverse()) {
+      const original = originals.get(filePath);
+      await (original
+        ? writeFileAtomic(filePath, original)
+        : fs.rm(filePath, { force: true })
+      ).catch(() => undefined);
+    }
+    for (const { filePath, aside } of movedAside.reverse()) {
+      const trashPath = trashed.get(filePath);
+      await (trashPath
+        ? renameWithFallback(trashPath, filePath)
+        : fs.rename(aside, filePath)
+      ).catch(() => undefined);
+    }
+    for (const dirPath of createdDirectories.reverse()) {
+      await fs
+        .rm(dirPath, { recursive: true, force: true })
+        .catch(() => undefined);
+    }
+    throw error;
+  }
+
+  for (const { aside, trash } of movedAside) {
+    if (!trash) {
+      await fs.rm(aside, { recursive: true, force: true });
+    }
+  }
+
+  invalidateFiles([...changes.keys()]);
+
+  const deletesOnly = [...changes.values()].every(
+    (change) => change.type === "delete"
+  );
+  await recordChange([...records.values()], sessionId, {
+    operation: deletesOnly ? "delete" : "write",
+    ...options,
+  });
+  return trashed;
+}
+
+/**
+ * Apply a batch of changes: stage them in the session's change set if one
+ * is active, otherwise write them to disk all-or-nothing
+ * @param {Map<string, StagedChange>} changes - Resolved paths and their changes, in order
+ * @param {string} [sessionId] - The client's session ID
+ * @param {ChangeRecordOptions} [options] - How to record the change in history
+ * @returns {Promise<boolean>} True if the changes were staged rather than written
+ */
+export async function applyChanges(
+  changes: Map<string, StagedChange>,
+  sessionId?: string,
+  options?: ChangeRecordOptions
+): Promise<boolean> {
+  const changeSet = changeSets.get(sessionId ?? "");
+  if (changeSet) {
+    await verifyPreconditions(changes);
+    changes.forEach((change, filePath) =>
+      stageChange(changeSet, filePath, change)
+    );
+    logger.debug(`Staged ${changes.size} change(s) in ${changeSet.id}`);
+    return true;
+  }
+
+  await writeChanges(changes, sessionId, options);
+  return false;
+}
+
+/**
+ * Write a file, creating parent directories as needed
+ * @param {string} filePath - Resolved path
+ * @param {string|Buffer} content - The content; strings are written as UTF-8
+ * @param {string} [sessionId] - The client's session ID
+ * @param {WritePrecondition} [precondition] - Version the file on disk must still have
+ * @returns {Promise<boolean>} True if the write was staged
+ */
+export async function writeFile(
+  filePath: string,
+  content: string | Buffer,
+  sessionId?: string,
+  precondition?: WritePrecondition
+): Promise<boolean> {
+  const buffer = typeof content === "string" ? Buffer.from(content) : content;
+  return applyChanges(
+    new Map([[filePath, { type: "file", content: buffer, precondition }]]),
+    sessionId
+  );
+}
+
+/**
+ * Create a directory
+ * @param {string} dirPath - Resolved path
+ * @param {boolean} recursive - Create missing parents, and accept an existing directory
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<boolean>} True if the directory was staged
+ */
+export async function createDirectory(
+  dirPath: string,
+  recursive: boolean,
+  sessionId?: string
+): Promise<boolean> {
+  if (!changeSets.has(sessionId ?? "")) {
+    await fs.mkdir(dirPath, { recursive });
+    return false;
+  }
+
+  // Mirror mkdir's errors against the staged view
+  if (await pathExists(dirPath, sessionId)) {
+    if (recursive && (await isDirectory(dirPath, sessionId))) {
+      return true;
+    }
+    throw createFsError("EEXIST", `file already exists, mkdir '${dirPath}'`);
+  }
+  if (!recursive && !(await isDirectory(path.dirname(dirPath), sessionId))) {
+    throw createFsError(
+      "ENOENT",
+      `no such file or directory, mkdir '${dirPath}'`
+    );
+  }
+  return applyChanges(new Map([[dirPath, { type: "directory" }]]), sessionId);
+}
+
+/**
+ * Copy a file, creating parent directories as needed
+ * @param {string} sourcePath - Resolved source path
+ * @param {string} destinationPath - Resolved destination path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<boolean>} True if the copy was staged
+ */
+export async function copyFile(
+  sourcePath: string,
+  destinationPath: string,
+  sessionId?: string
+): Promise<boolean> {
+  if (!changeSets.has(sessionId ?? "")) {
+    const before = await fs.readFile(destinationPath).catch(() => null);
+    await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+    await fs.copyFile(sourcePath, destinationPath);
+    if (isHistoryEnabled()) {
+      await recordChange(
+        [
+          {
+            path: destinationPath,
+            before,
+            after: await fs.readFile(destinationPath),
+          },
+        ],
+        sessionId,
+        { operation: "copy" }
+      );
+    }
+    return false;
+  }
+  return writeFile(
+    destinationPath,
+    await readFile(sourcePath, sessionId),
+    sessionId
+  );
+}
+
+/**
+ * Describe a move for the history: the source files disappear and the same
+ * content appears at the destination, replacing whatever file was there
+ * @param {string} sourcePath - Resolved source path
+ * @param {string} destinationPath - Resolved destination path
+ * @returns {Promise<FileChangeRecord[]>} The files the move changes
+ */
+async function snapshotMove(
+  sourcePath: string,
+  destinationPath: string
+): Promise<FileChangeRecord[]> {
+  const stats = await fs.lstat(sourcePath);
+  const sources = stats.isDirectory()
+    ? await snapshotTree(sourcePath)
+    : [
+        {
+          path: sourcePath,
+          before: await fs.readFile(sourcePath),
+          after: null,
+        },
+      ];
+
+  const records: FileChangeRecord[] = [];
+  for (const source of sources) {
+    const target = path.join(
+      destinationPath,
+      path.relative(sourcePath, source.path)
+    );
+    records.push(source, {
+      path: target,
+      before: await fs.readFile(target).catch(() => null),
+      after: source.before,
+    });
+  }
+  return records;
+}
+
+/**
+ * Move a file or directory, creating parent directories as needed. Moves
+ * to another device fall back to copying and deleting.
+ * @param {string} sourcePath - Resolved source path
+ * @param {string} destinationPath - Resolved destination path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<boolean>} True if the move was staged
+ */
+export async function movePath(
+  sourcePath: string,
+  destinationPath: string,
+  sessionId?: string
+): Promise<boolean> {
+  if (!changeSets.has(sessionId ?? "")) {
+    const records = isHistoryEnabled()
+      ? await snapshotMove(sourcePath, destinationPath)
+      : [];
+    await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+    await renameWithFallback(sourcePath, destinationPath);
+    await recordChange(records, sessionId, { operation: "move" });
+    return false;
+  }
+
+  if (isWithin(sourcePath, destinationPath)) {
+    throw createFsError(
+      "EINVAL",
+      `cannot move '${sourcePath}' into itself, rename '${destinationPath}'`
+    );
+  }
+
+  // Staged moves become a copy of every file followed by a delete
+  const changes = new Map<string, StagedChange>();
+  if (await isDirectory(sourcePath, sessionId)) {
+    changes.set(destinationPath, { type: "directory" });
+    for (const [entryPath, entryIsDirectory] of await listTree(
+      sourcePath,
+      sessionId
+    )) {
+      const target = path.join(
+        destinationPath,
+        path.relative(sourcePath, entryPath)
+      );
+      changes.set(
+        target,
+        entryIsDirectory
+          ? { type: "directory" }
+          : { type: "file", content: await readFile(entryPath, sessionId) }
+      );
+    }
+  } else {
+    changes.set(destinationPath, {
+      type: "file",
+      content: await readFile(sourcePath, sessionId),
+    });
+  }
+  changes.set(sourcePath, { type: "delete" });
+
+  return applyChanges(changes, sessionId);
+}
+
+/**
+ * Copy or move a file or directory. A directory is merged into an existing
+ * directory at the destination; include globs select which of its files are
+ * transferred and exclude globs skip files and whole subdirectories. Entries
+ * the path policy denies are never read, so a move leaves them behind. Every
+ * entry that collides with an existing one is handled by the conflict policy:
+ * fail, skip it, overwrite it, or transfer it under a free name such as
+ * `name-1.ext`. Directories merge without conflict. A dry run changes
+ * nothing and adds the diff of every file that would be overwritten.
+ * @param {"copy"|"move"} mode - Whether the source is kept
+ * @param {string} sourcePath - Resolved source path
+ * @param {string} destinationPath - Resolved destination path
+ * @param {TransferOptions} [options] - Globs, conflict policy and dry run
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<TransferResult>} What was transferred, skipped, renamed and overwritten
+ */
+export async function transferPath(
+  mode: "copy" | "move",
+  sourcePath: string,
+  destinationPath: string,
+  options: TransferOptions = {},
+  sessionId?: string
+): Promise<TransferResult> {
+  const { include, exclude, onConflict = "error", dryRun = false } = options;
+  const result: TransferResult = {
+    staged: !dryRun && changeSets.has(sessionId ?? ""),
+    files: 0,
+    skipped: [],
+    renamed: [],
+    overwritten: [],
+  };
+
+  /**
+   * Finish a dry run with the diff of every file that would be overwritten
+   * @returns {Promise<TransferResult>} The result
+   */
+  const dryRunResult = async (): Promise<TransferResult> => {
+    const diffs: string[] = [];
+    for (const { from, to } of result.overwritten) {
+      diffs.push(
+        diffFile(
+          displayPath(to, sessionId),
+          await readFile(to, sessionId),
+          await readFile(from, sessionId)
+        )
+      );
+    }
+    result.diff = diffs.join("\n");
+    return result;
+  };
+
+  if (!(await pathExists(sourcePath, sessionId))) {
+    throw createFsError(
+      "ENOENT",
+      `no such file or directory, ${mode} '${sourcePath}'`
+    );
+  }
+  if (isWithin(sourcePath, destinationPath)) {
+    throw createFsError(
+      "EINVAL",
+      `cannot ${mode} '${sourcePath}' into itself, '${destinationPath}'`
+    );
+  }
+
+  const changes = new Map<string, StagedChange>();
+
+  /**
+   * Decide where an entry goes when its target may already exist
+   * @param {string} entry - The source entry
+   * @param {string} target - The target path
+   * @param {boolean} entryIsDirectory - Whether the entry is a directory
+   * @returns {Promise<string|null>} The target to use, or null to skip the entry
+   */
+  const resolveTarget = async (
+    entry: string,
+    target: string,
+    entryIsDirectory: boolean
+  ): Promise<string | null> => {
+    const taken = async (candidate: string): Promise<boolean> =>
+      changes.has(candidate) || (await pathExists(candidate, sessionId));
+    if (!(await taken(target))) {
+      return target;
+    }
+    const targetIsDirectory = await isDirectory(target, sessionId);
+    if (entryIsDirectory && targetIsDirectory) {
+      return target;
+    }
+
+    switch (onConflict) {
+      case "skip":
+        result.skipped.push(target);
+        return null;
+      case "overwrite":
+        if (entryIsDirectory || targetIsDirectory) {
+          throw createFsError(
+            entryIsDirectory ? "ENOTDIR" : "EISDIR",
+            `cannot overwrite ${
+              targetIsDirectory
+                ? "a directory with a file"
+                : "a file with a directory"
+            }, ${mode} '${target}'`
+          );
+        }
+        result.overwritten.push({ from: entry, to: target });
+        return target;
+      case "rename": {
+        const extension = entryIsDirectory ? "" : path.extname(target);
+        const stem = target.slice(0, target.length - extension.length);
+        let counter = 1;
+        while (await taken(`${stem}-${counter}${extension}`)) {
+          counter++;
+        }
+        const renamed = `${stem}-${counter}${extension}`;
+        result.renamed.push({ from: target, to: renamed });
+        return renamed;
+      }
+      default:
+        throw createFsError(
+          "EEXIST",
+          `'${target}' already exists; set onConflict to skip, overwrite or rename`
+        );
+    }
+  };
+
+  if (!(await isDirectory(sourcePath, sessionId))) {
+    const target = await resolveTarget(sourcePath, destinationPath, false);
+    if (target) {
+      result.files = 1;
+      if (dryRun) {
+        return dryRunResult();
+      }
+      result.staged =
+        mode === "copy"
+          ? await copyFile(sourcePath, target, sessionId)
+          : await movePath(sourcePath, target, sessionId);
+    }
+    return result;
+  }
+
+  // Sorted, so every directory comes before its contents
+  const entries = [...(await listTree(sourcePath, sessionId))].sort(
+    ([a], [b]) => a.localeCompare(b)
+  );
+  const denyRoot = await findDenyRoot(sourcePath);
+  const denied = entries.some(([entryPath]) => isDenied(entryPath, denyRoot));
+
+  // A whole directory moved to a new place is a single rename
+  if (
+    mode === "move" &&
+    !include?.length &&
+    !exclude?.length &&
+    !denied &&
+    !(await pathExists(destinationPath, sessionId))
+  ) {
+    result.files = entries.filter(
+      ([, entryIsDirectory]) => !entryIsDirectory
+    ).length;
+    if (dryRun) {
+      return dryRunResult();
+    }
+    result.staged = await movePath(sourcePath, destinationPath, sessionId);
+    return result;
+  }
+
+  const root = await resolveTarget(sourcePath, destinationPath, true);
+  if (!root) {
+    return result;
+  }
+  if (!include?.length) {
+    changes.set(root, { type: "directory" });
+  }
+
+  // Target of every directory, or null when its contents are left behind
+  const directoryTargets = new Map<string, string | null>([[sourcePath, root]]);
+  // Entries not transferred, which a move leaves in place
+  const leftBehind: string[] = [];
+
+  for (const [entryPath, entryIsDirectory] of entries) {
+    const parentTarget = directoryTargets.get(path.dirname(entryPath));
+    const relativePath = toPosixPath(path.relative(sourcePath, entryPath));
+    let target: string | null = null;
+    if (
+      parentTarget &&
+      !(exclude && matchesAnyGlob(relativePath, exclude)) &&
+      !isDenied(entryPath, denyRoot) &&
+      (entryIsDirectory ||
+        !include?.length ||
+        matchesAnyGlob(relativePath, include))
+    ) {
+      target = await resolveTarget(
+        entryPath,
+        path.join(parentTarget, path.basename(entryPath)),
+        entryIsDirectory
+      );
+    }
+
+    if (entryIsDirectory) {
+      directoryTargets.set(entryPath, target);
+      if (target && !include?.length) {
+        changes.set(target, { type: "directory" });
+      }
+    } else if (target) {
+      changes.set(target, {
+        type: "file",
+        content: await readFile(entryPath, sessionId),
+      });
+      result.files++;
+    }
+    if (!target) {
+      leftBehind.push(entryPath);
+    }
+  }
+
+  if (mode === "move") {
+    // Delete the outermost paths that hold nothing left behind, which is the
+    // whole source when everything was moved
+    const deleted: string[] = [];
+    for (const entryPath of [sourcePath, ...entries.map(([entry]) => entry)]) {
+      if (
+        !deleted.some((deletedPath) => isWithin(deletedPath, entryPath)) &&
+        !leftBehind.some((keptPath) => isWithin(entryPath, keptPath))
+      ) {
+        changes.set(entryPath, { type: "delete" });
+        deleted.push(entryPath);
+      }
+    }
+  }
+
+  if (dryRun) {
+    return dryRunResult();
+  }
+  result.staged = await applyChanges(changes, sessionId, { operation: mode });
+  return result;
+}
+
+/**
+ * Delete a file or directory, either permanently or by moving it into the
+ * trash folder. A directory that is not empty is only deleted if recursive
+ * is set. In a change set the deletion is staged, and trashed on commit.
+ * A dry run only lists the files that would be deleted.
+ * @param {string} targetPath - Resolved path
+ * @param {DeleteOptions} [options] - Whether to recurse, to use the trash and to only list
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<DeleteResult>} Whether the deletion was staged, where it was trashed, or what a dry run would delete
+ */
+export async function deletePath(
+  targetPath: string,
+  options: DeleteOptions = {},
+  sessionId?: string
+): Promise<DeleteResult> {
+  const { recursive = false, trash = true, dryRun = false } = options;
+  if (!(await pathExists(targetPath, sessionId))) {
+    throw createFsError(
+      "ENOENT",
+      `no such file or directory, delete '${targetPath}'`
+    );
+  }
+  if (
+    !recursive &&
+    (await isDirectory(targetPath, sessionId)) &&
+    (await listTree(targetPath, sessionId)).size > 0
+  ) {
+    throw createFsError(
+      "ENOTEMPTY",
+      `directory not empty, delete '${targetPath}'; set recursive to delete its contents`
+    );
+  }
+  if (dryRun) {
+    const files = (await isDirectory(targetPath, sessionId))
+      ? [...(await listTree(targetPath, sessionId))]
+          .filter(([, entryIsDirectory]) => !entryIsDirectory)
+          .map(([entryPath]) => entryPath)
+          .sort()
+      : [targetPath];
+    return {
+      staged: false,
+      files: files.map((filePath) => displayPath(filePath, sessionId)),
+    };
+  }
+
+  const changes = new Map<string, StagedChange>([
+    [targetPath, { type: "delete", trash }],
+  ]);
+  if (changeSets.has(sessionId ?? "")) {
+    return { staged: await applyChanges(changes, sessionId) };
+  }
+  const trashed = await writeChanges(changes, sessionId);
+  return { staged: false, trashPath: trashed.get(targetPath) };
+}
+
+/**
+ * Format a path relative to the session's first root for display
+ * @param {string} filePath - Resolved path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {string} The display path, with forward slashes
+ */
+function displayPath(filePath: string, sessionId?: string): string {
+  const root = path.resolve(getAllowedRoots(sessionId)[0] ?? "/");
+  const relative = isWithin(root, filePath)
+    ? path.relative(root, filePath)
+    : filePath;
+  return relative.split(path.sep).join("/");
+}
+
+/**
+ * Build a git-style diff for one file
+ * @param {string} name - Display path
+ * @param {Buffer|null} before - Content on disk, or null if absent
+ * @param {Buffer|null} after - Staged content, or null if deleted
+ * @returns {string} The diff
+ */
+function diffFile(
+  name: string,
+  before: Buffer | null,
+  after: Buffer | null
+): string {
+  const header = [`diff --git a/${name} b/${name}`];
+  if (!before) {
+    header.push("new file mode 100644");
+  } else if (!after) {
+    header.push("deleted file mode 100644");
+  }
+
+  const oldText = before ? decodeContent(before) : { content: "" };
+  const newText = after ? decodeContent(after) : { content: "" };
+  if (!oldText || !newText) {
+    header.push(`Binary files a/${name} and b/${name} differ`);
+    return header.join("\n");
+  }
+
+  // Drop jsdiff's Index and separator lines to match git's format
+  const patch = Diff.createTwoFilesPatch(
+    before ? `a/${name}` : "/dev/null",
+    after ? `b/${name}` : "/dev/null",
+    oldText.content,
+    newText.content
+  ).replace(/^(Index: .*\n)?=+\n/, "");
+
+  return `${header.join("\n")}\n${patch}`.trimEnd();
+}
+
+/**
+ * Summarize the staged changes of a session with a combined diff
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<ChangeSetPreview>} The change set, file statuses and diff
+ */
+export async function previewChangeSet(
+  sessionId?: string
+): Promise<ChangeSetPreview> {
+  const changeSet = requireChangeSet(sessionId);
+  const files: ChangeSetFileStatus[] = [];
+  const diffs: string[] = [];
+
+  for (const [filePath, change] of changeSet.changes) {
+    const name = displayPath(filePath, sessionId);
+    const stats = await fs.lstat(filePath).catch(() => null);
+
+    if (change.type === "directory") {
+      if (!stats) {
+        files.push({ path: name, status: "directory" });
+      }
+    } else if (change.type === "delete") {
+      if (stats?.isDirectory()) {
+        const deletedFiles = await listDiskFiles(filePath);
+        if (deletedFiles.length === 0) {
+          files.push({ path: name, status: "deleted" });
+        }
+        for (const deletedFile of deletedFiles) {
+          const deletedName = displayPath(deletedFile, sessionId);
+          files.push({ path: deletedName, status: "deleted" });
+          diffs.push(
+            diffFile(deletedName, await fs.readFile(deletedFile), null)
+          );
+        }
+      } else if (stats) {
+        files.push({ path: name, status: "deleted" });
+        diffs.push(diffFile(name, await fs.readFile(filePath), null));
+      }
+    } else {
+      const before =
+        stats && !stats.isDirectory() ? await fs.readFile(filePath) : null;
+      if (!before || !before.equals(change.content)) {
+        files.push({ path: name, status: before ? "modified" : "added" });
+        diffs.push(diffFile(name, before, change.content));
+      }
+    }
+  }
+
+  return {
+    changeSet: describeChangeSet(changeSet),
+    files,
+    diff: diffs.join("\n"),
+  };
+}
+
+/**
+ * Describe the existing files that changes would overwrite or delete, as the
+ * session sees them. New files, unchanged content and files the path policy
+ * denies are left out.
+ * @param {Map<string, StagedChange>} changes - The changes
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<OverwritePreview>} The display paths of those files and their diff
+ */
+export async function previewOverwrites(
+  changes: Map<string, StagedChange>,
+  sessionId?: string
+): Promise<OverwritePreview> {
+  const files: string[] = [];
+  const diffs: string[] = [];
+
+  /**
+   * Add a file to the preview if it exists and its content changes
+   * @param {string} filePath - Resolved path
+   * @param {Buffer|null} after - New content, or null if deleted
+   */
+  const addFile = async (
+    filePath: string,
+    after: Buffer | null
+  ): Promise<void> => {
+    let before: Buffer;
+    try {
+      before = await readFile(filePath, sessionId);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+    if (after && before.equals(after)) {
+      return;
+    }
+    const name = displayPath(filePath, sessionId);
+    files.push(name);
+    diffs.push(diffFile(name, before, after));
+  };
+
+  for (const [filePath, change] of changes) {
+    if (change.type === "file") {
+      await addFile(filePath, Buffer.from(change.content));
+    } else if (change.type === "delete") {
+      if (await isDirectory(filePath, sessionId)) {
+        const denyRoot = await findDenyRoot(filePath);
+        for (const [entryPath, entryIsDirectory] of await listTree(
+          filePath,
+          sessionId
+        )) {
+          if (!entryIsDirectory && !isDenied(entryPath, denyRoot)) {
+            await addFile(entryPath, null);
+          }
+        }
+      } else {
+        await addFile(filePath, null);
+      }
+    }
+  }
+
+  return { files, diff: diffs.join("\n") };
+}
+
+/**
+ * Write the staged changes of a session to disk and close its change set.
+ * If writing fails the disk is restored and the change set stays open.
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<ChangeSetInfo>} The committed change set
+ */
+export async function commitChangeSet(
+  sessionId?: string
+): Promise<ChangeSetInfo> {
+  const changeSet = requireChangeSet(sessionId);
+  await writeChanges(changeSet.changes, sessionId, {
+    operation: `changeset ${changeSet.id}${
+      changeSet.description ? `: ${changeSet.description}` : ""
+    }`,
+  });
+  changeSets.delete(sessionId ?? "");
+  logger.info(`Committed change set ${changeSet.id}`, {
+    sessionId,
+    changes: changeSet.changes.size,
+  });
+  return describeChangeSet(changeSet);
+}
+
+/**
+ * Discard the staged changes of a session and close its change set
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {ChangeSetInfo} The discarded change set
+ */
+export function rollbackChangeSet(sessionId?: string): ChangeSetInfo {
+  const changeSet = requireChangeSet(sessionId);
+  changeSets.delete(sessionId ?? "");
+  logger.info(`Rolled back change set ${changeSet.id}`, { sessionId });
+  return describeChangeSet(changeSet);
+}
+
+/**
+ * Drop a session's change set without writing it, e.g. when the session closes
+ * @param {string|undefined} sessionId - The client's session ID
+ */
+export function clearChangeSet(sessionId: string | undefined): void {
+  changeSets.delete(sessionId ?? "");
+}
+
+const changeSetUtils: ChangeSetUtils = {
+  beginChangeSet,
+  getChangeSet,
+  readFile,
+  pathExists,
+  applyChanges,
+  writeFile,
+  createDirectory,
+  copyFile,
+  movePath,
+  transferPath,
+  deletePath,
+  previewChangeSet,
+  previewOverwrites,
+  commitChangeSet,
+  rollbackChangeSet,
+  clearChangeSet,
+};
+
+export default changeSetUtils;
@@ -0,0 +1,721 @@
+/**
+ * Command policy for CodeTools MCP
+ *
+ * Every process a tool starts is checked against this policy before it is
+ * spawned. Deny rules reject matching commands; when allow rules are
+ * configured, a command must also match one of them. A built-in set of
+ * deny rules catches commands that are almost never intended, such as
+ * deleting the filesystem root or piping a download into a shell.
+ *
+ * Deny rules marked overridable reject a command only until the user
+ * approves it: tools ask for confirmation and retry with the rule in
+ * `approvedRules`. The allowlist is never overridable.
+ *
+ * Shell scripts are split into their simple commands, and wrappers such as
+ * `sudo`, `env`, `xargs` or `sh -c` are looked through, so every program a
+ * command line would run is checked.
+ *
+ * Configuration is read from the environment:
+ * - CODE_TOOLS_COMMAND_POLICY: path to a JSON file with `allow` and `deny`
+ *   rule lists and an optional `defaultDenyRules: false`
+ * - CODE_TOOLS_ALLOWED_COMMANDS: comma-separated programs to allow
+ * - CODE_TOOLS_DENIED_COMMANDS: comma-separated programs to deny
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  CheckCommandOptions,
+  CommandPolicyConfig,
+  CommandPolicyError,
+  CommandPolicyUtils,
+  CommandRule,
+  ToolResponse,
+} from "../types/index.js";
+import { matchesGlob } from "./glob.js";
+import logger from "./logger.js";
+
+// Arguments naming the filesystem root or the home directory
+const ROOT_OR_HOME_ARG =
+  "(?:^|\\s)(?:/+|/\\*|~/?|~/\\*|\\$HOME/?|\\$\\{HOME\\}/?)(?:\\s|$)";
+
+// Commands that are almost never intended and hard to undo
+const DEFAULT_DENY_RULES: CommandRule[] = [
+  {
+    name: "recursive-delete-root",
+    description:
+      "Recursive removal of the filesystem root or the home directory",
+    executables: ["rm"],
+    args: `(?=.*(?:^|\\s)(?:-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)(?:\\s|$))(?=.*${ROOT_OR_HOME_ARG})|--no-preserve-root`,
+  },
+  {
+    name: "recursive-permissions-root",
+    description:
+      "Recursive permission or owner change of the filesystem root or the home directory",
+    executables: ["chmod", "chown", "chgrp"],
+    args: `(?=.*(?:^|\\s)(?:-[a-zA-Z]*R[a-zA-Z]*|--recursive)(?:\\s|$))(?=.*${ROOT_OR_HOME_ARG})`,
+  },
+  {
+    name: "pipe-to-shell",
+    description: "Running a downloaded script without looking at it",
+    overridable: true,
+    commandLine:
+      "\\b(?:curl|wget)\\b[^|;&]*\\|\\s*(?:sudo\\s+)?(?:ba|da|z|k|c|tc|fi)?sh\\b|\\b(?:ba|z)?sh\\s+<\\(\\s*(?:curl|wget)\\b",
+  },
+  {
+    name: "format-disk",
+    description: "Formatting or partitioning a disk",
+    executables: [
+      "mkfs",
+      "mkfs.*",
+      "mke2fs",
+      "mkswap",
+      "wipefs",
+      "fdisk",
+      "sfdisk",
+      "parted",
+    ],
+  },
+  {
+    name: "raw-device-write",
+    description: "Writing directly to a block device",
+    executables: ["dd"],
+    args: "(?:^|\\s)of=/dev/(?!null\\b|zero\\b|stdout\\b|stderr\\b)",
+  },
+  {
+    name: "device-redirect",
+    description: "Redirecting output onto a block device",
+    commandLine: ">\\s*/dev/(?:sd|hd|vd|xvd|nvme|mmcblk|disk)",
+  },
+  {
+    name: "fork-bomb",
+    description: "A function that endlessly starts copies of itself",
+    commandLine: ":\\s*\\(\\s*\\)\\s*\\{[^}]*:\\s*\\|\\s*:",
+  },
+  {
+    name: "kill-all-processes",
+    description: "Signalling every process of the user",
+    executables: ["kill"],
+    args: "(?:^|\\s)-1\\s*$",
+  },
+  {
+    name: "system-power",
+    description: "Shutting down or restarting the machine",
+    executables: ["shutdown", "reboot", "halt", "poweroff"],
+  },
+  {
+    name: "privilege-escalation",
+    description: "Running a command as another user",
+    executables: ["sudo", "su", "doas", "pkexec"],
+    overridable: true,
+  },
+  {
+    name: "git-push",
+    description: "Publishing commits to a remote repository",
+    executables: ["git"],
+    args: "^(?:(?:-C|-c|--git-dir|--work-tree)\\s+\\S+\\s+|-\\S+\\s+)*push(?:\\s|$)",
+    overridable: true,
+  },
+];
+
+// Programs that run another program given as their arguments
+const WRAPPERS = new Set([
+  "env",
+  "nohup",
+  "nice",
+  "ionice",
+  "time",
+  "timeout",
+  "command",
+  "exec",
+  "xargs",
+  "stdbuf",
+  "sudo",
+  "doas",
+]);
+
+// Shells whose -c argument is a script to check
+const SHELLS = new Set(["sh", "bash", "dash", "zsh", "ksh", "fish"]);
+
+// Words that may start a shell command without being the program
+const SHELL_KEYWORDS = new Set([
+  "if",
+  "then",
+  "else",
+  "elif",
+  "do",
+  "while",
+  "until",
+  "!",
+  "{",
+  "}",
+]);
+
+// Variable assignments in front of a command
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// Upper bound on nested wrappers and scripts before giving up
+const MAX_NESTING = 8;
+
+/**
+ * A rule with its regular expressions compiled
+ */
+interface CompiledRule {
+  rule: CommandRule;
+  args?: RegExp;
+  commandLine?: RegExp;
+}
+
+/**
+ * One program a command would run, and the command line it appears in
+ */
+interface Invocation {
+  argv: string[];
+  line: string;
+}
+
+/**
+ * Check a rule and compile its regular expressions
+ * @param {CommandRule} rule - The rule
+ * @param {string} list - "allow" or "deny", for error messages
+ * @returns {CompiledRule} The compiled rule
+ * @throws {Error} If the rule is malformed
+ */
+function compileRule(rule: CommandRule, list: string): CompiledRule {
+  if (!rule || typeof rule.name !== "string" || rule.name === "") {
+    throw new Error(`Every ${list} rule of the command policy needs a name`);
+  }
+  if (!rule.executables && !rule.args && !rule.commandLine && !rule.cwd) {
+    throw new Error(
+      `The ${list} rule '${rule.name}' needs executables, args, commandLine or cwd`
+    );
+  }
+  try {
+    return {
+      rule,
+      args: rule.args !== undefined ? new RegExp(rule.args) : undefined,
+      commandLine:
+        rule.commandLine !== undefined
+          ? new RegExp(rule.commandLine)
+          : undefined,
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid regular expression in the ${list} rule '${rule.name}': ${
+        (error as Error).message
+      }`
+    );
+  }
+}
+
+/**
+ * Split a comma-separated environment variable
+ * @param {string} name - The variable name
+ * @returns {string[]} The non-empty entries
+ */
+function readList(name: string): string[] {
+  return (process.env[name] || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build the initial policy from environment variables
+ * @returns {CommandPolicyConfig} The policy configuration
+ * @throws {Error} If the policy file cannot be read or parsed
+ */
+function loadPolicyFromEnv(): CommandPolicyConfig {
+  const config: CommandPolicyConfig = {
+    allow: [],
+    deny: [],
+    defaultDenyRules: true,
+  };
+
+  const policyFile = process.env.CODE_TOOLS_COMMAND_POLICY;
+  if (policyFile) {
+    try {
+      const parsed = JSON.parse(
+        fs.readFileSync(expandHome(policyFile), "utf8")
+      ) as Partial<CommandPolicyConfig>;
+      config.allow = parsed.allow ?? [];
+      config.deny = parsed.deny ?? [];
+      config.defaultDenyRules = parsed.defaultDenyRules ?? true;
+    } catch (error) {
+      throw new Error(
+        `Cannot load the command policy from '${policyFile}': ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  const allowedCommands = readList("CODE_TOOLS_ALLOWED_COMMANDS");
+  if (allowedCommands.length > 0) {
+    config.allow.push({
+      name: "CODE_TOOLS_ALLOWED_COMMANDS",
+      executables: allowedCommands,
+    });
+  }
+  const deniedCommands = readList("CODE_TOOLS_DENIED_COMMANDS");
+  if (deniedCommands.length > 0) {
+    config.deny.push({
+      name: "CODE_TOOLS_DENIED_COMMANDS",
+      executables: deniedCommands,
+    });
+  }
+
+  return config;
+}
+
+// Current policy (can be replaced via configureCommandPolicy)
+let currentPolicy: CommandPolicyConfig = loadPolicyFromEnv();
+
+// Compiled rules of the current policy, built-in deny rules first
+let allowRules: CompiledRule[] = [];
+let denyRules: CompiledRule[] = [];
+
+/**
+ * Compile the rules of the current policy
+ */
+function compilePolicy(): void {
+  allowRules = currentPolicy.allow.map((rule) => compileRule(rule, "allow"));
+  denyRules = [
+    ...(currentPolicy.defaultDenyRules ? DEFAULT_DENY_RULES : []),
+    ...currentPolicy.deny,
+  ].map((rule) => compileRule(rule, "deny"));
+}
+
+compilePolicy();
+
+/**
+ * Update the command policy
+ * @param {Partial<CommandPolicyConfig>} config - Fields to override
+ * @throws {Error} If a rule is malformed; the previous policy stays in place
+ */
+export function configureCommandPolicy(
+  config: Partial<CommandPolicyConfig>
+): void {
+  const previous = currentPolicy;
+  currentPolicy = {
+    allow: config.allow ?? currentPolicy.allow,
+    deny: config.deny ?? currentPolicy.deny,
+    defaultDenyRules: config.defaultDenyRules ?? currentPolicy.defaultDenyRules,
+  };
+  try {
+    compilePolicy();
+  } catch (error) {
+    currentPolicy = previous;
+    compilePolicy();
+    throw error;
+  }
+  logger.info("Command policy updated", {
+    allow: currentPolicy.allow.map((rule) => rule.name),
+    deny: currentPolicy.deny.map((rule) => rule.name),
+    defaultDenyRules: currentPolicy.defaultDenyRules,
+  });
+}
+
+/**
+ * Get a copy of the current command policy
+ * @returns {CommandPolicyConfig} The policy configuration
+ */
+export function getCommandPolicy(): CommandPolicyConfig {
+  return {
+    allow: currentPolicy.allow.map((rule) => ({ ...rule })),
+    deny: currentPolicy.deny.map((rule) => ({ ...rule })),
+    defaultDenyRules: currentPolicy.defaultDenyRules,
+  };
+}
+
+/**
+ * Get the built-in deny rules
+ * @returns {CommandRule[]} The rules
+ */
+export function getDefaultDenyRules(): CommandRule[] {
+  return DEFAULT_DENY_RULES.map((rule) => ({ ...rule }));
+}
+
+/**
+ * Create an error describing a rejected command
+ * @param {string} message - Human readable explanation
+ * @param {string} command - The command line as it would run
+ * @param {CommandPolicyError["reason"]} reason - Why the command was rejected
+ * @param {CommandRule} [rule] - The deny rule that matched
+ * @returns {CommandPolicyError} The error
+ */
+function createCommandPolicyError(
+  message: string,
+  command: string,
+  reason: CommandPolicyError["reason"],
+  rule?: CommandRule
+): CommandPolicyError {
+  const error = new Error(message) as CommandPolicyError;
+  error.name = "CommandPolicyError";
+  error.command = command;
+  error.reason = reason;
+  error.rule = rule?.name;
+  error.overridable = rule?.overridable === true;
+  return error;
+}
+
+/**
+ * Check whether an error was raised by the command policy
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True for command policy errors
+ */
+export function isCommandPolicyError(
+  error: unknown
+): error is CommandPolicyError {
+  return error instanceof Error && error.name === "CommandPolicyError";
+}
+
+/**
+ * Build the standard tool response for a rejected command
+ * @param {CommandPolicyError} error - The policy error
+ * @returns {ToolResponse} The error response
+ */
+export function commandPolicyErrorResponse(
+  error: CommandPolicyError
+): ToolResponse {
+  logger.warn(`Command rejected by policy: ${error.command}`, {
+    reason: error.reason,
+    rule: error.rule,
+  });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Command rejected: ${error.message}`,
+      },
+    ],
+    isError: true,
+    _meta: {
+      commandPolicy: {
+        command: error.command,
+        reason: error.reason,
+        rule: error.rule,
+        overridable: error.overridable,
+      },
+    },
+  };
+}
+
+/**
+ * Expand a leading `~` to the user's home directory
+ * @param {string} inputPath - The path to expand
+ * @returns {string} The expanded path
+ */
+function expandHome(inputPath: string): string {
+  if (inputPath === "~") {
+    return os.homedir();
+  }
+  if (inputPath.startsWith("~/") || inputPath.startsWith("~\\")) {
+    return path.join(os.homedir(), inputPath.slice(2));
+  }
+  return inputPath;
+}
+
+/**
+ * Get the name a program is matched by: its file name without a Windows
+ * executable extension
+ * @param {string} executable - The program as invoked
+ * @returns {string} The program name
+ */
+function programName(executable: string): string {
+  return path.basename(executable).replace(/\.(exe|cmd|bat|com)$/i, "");
+}
+
+/**
+ * Split a shell script into the words of its simple commands. Pipes,
+ * command lists, subshells and command substitutions all separate
+ * commands; redirections and their targets stay with their command.
+ * Parsing is lenient, since the shell reports real syntax errors itself.
+ * @param {string} script - The shell script
+ * @returns {string[][]} The words of every command
+ */
+function splitShellScript(script: string): string[][] {
+  const commands: string[][] = [];
+  let i = 0;
+
+  /**
+   * Parse commands until the end of the script or a terminator
+   * @param {string} [terminator] - ")" or "`" ending a command substitution
+   */
+  const parse = (terminator?: string): void => {
+    let words: string[] = [];
+    let word = "";
+    let inWord = false;
+    let quote: "'" | '"' | undefined;
+
+    const endWord = (): void => {
+      if (inWord) {
+        words.push(word);
+        word = "";
+        inWord = false;
+      }
+    };
+    const endCommand = (): void => {
+      endWord();
+      if (words.length > 0) {
+        commands.push(words);
+        words = [];
+      }
+    };
+
+    while (i < script.length) {
+      const char = script[i];
+      const next = script[i + 1];
+
+      if (quote === "'") {
+        if (char === "'") {
+          quote = undefined;
+        } else {
+          word += char;
+        }
+        i++;
+      } else if (char === "\\" && next !== undefined) {
+        word += next;
+        inWord = true;
+        i += 2;
+      } else if (char === "`" && terminator === "`") {
+        i++;
+        endCommand();
+        return;
+      } else if (char === "`" || (char === "$" && next === "(")) {
+        // The substituted command runs too; its output joins this word
+        i += char === "`" ? 1 : 2;
+        parse(char === "`" ? "`" : ")");
+        inWord = true;
+      } else if (quote === '"') {
+        if (char === '"') {
+          quote = undefined;
+        } else {
+          word += char;
+        }
+        i++;
+      } else if (char === "'" || char === '"') {
+        quote = char;
+        inWord = true;
+        i++;
+      } else if (char === ")" && terminator === ")") {
+        i++;
+        endCommand();
+        return;
+      } else if ("|&;()\n".includes(char)) {
+        endCommand();
+        i++;
+      } else if (/\s/.test(char) || char === "<" || char === ">") {
+        endWord();
+        i++;
+      } else if (char === "#" && !inWord) {
+        while (i < script.length && script[i] !== "\n") {
+          i++;
+        }
+      } else {
+        word += char;
+        inWord = true;
+        i++;
+      }
+    }
+    endCommand();
+  };
+
+  parse();
+  return commands;
+}
+
+/**
+ * List every program a command would run: the command itself, and what
+ * wrappers, `eval` and `sh -c` scripts inside it would run
+ * @param {string[]} argv - The command followed by its arguments
+ * @param {string} line - The command line the command appears in
+ * @param {number} [depth=0] - Current nesting depth
+ * @returns {Invocation[]} The invocations
+ */
+function collectInvocations(
+  argv: string[],
+  line: string,
+  depth = 0
+): Invocation[] {
+  let start = 0;
+  while (
+    start < argv.length &&
+    (ASSIGNMENT.test(argv[start]) || SHELL_KEYWORDS.has(argv[start]))
+  ) {
+    start++;
+  }
+  const words = argv.slice(start);
+  if (words.length === 0 || depth > MAX_NESTING) {
+    return [];
+  }
+
+  const invocations: Invocation[] = [{ argv: words, line }];
+  const name = programName(words[0]);
+  const fromScript = (script: string): void => {
+    for (const inner of splitShellScript(script)) {
+      invocations.push(...collectInvocations(inner, script, depth + 1));
+    }
+  };
+
+  if (SHELLS.has(name)) {
+    const flag = words.findIndex(
+      (word, index) => index > 0 && /^-[a-zA-Z]*c[a-zA-Z]*$/.test(word)
+    );
+    if (flag > 0 && words[flag + 1] !== undefined) {
+      fromScript(words[flag + 1]);
+    }
+  } else if (name === "eval") {
+    fromScript(words.slice(1).join(" "));
+  } else if (WRAPPERS.has(name)) {
+    // Skip the wrapper's options, assignments and durations or priorities
+    let index = 1;
+    while (
+      index < words.length &&
+      (words[index].startsWith("-") ||
+        ASSIGNMENT.test(words[index]) ||
+        /^\d+(\.\d+)?[smhd]?$/.test(words[index]))
+    ) {
+      index++;
+    }
+    if (index < words.length) {
+      invocations.push(
+        ...collectInvocations(words.slice(index), line, depth + 1)
+      );
+    }
+  }
+
+  return invocations;
+}
+
+/**
+ * List a directory followed by each of its ancestors
+ * @param {string} directory - Absolute directory
+ * @returns {string[]} The directory and its ancestors
+ */
+function withAncestors(directory: string): string[] {
+  const result = [directory];
+  let current = directory;
+  while (path.dirname(current) !== current) {
+    current = path.dirname(current);
+    result.push(current);
+  }
+  return result;
+}
+
+/**
+ * Check whether a rule matches one invocation. Every matcher the rule sets
+ * must match.
+ * @param {CompiledRule} compiled - The rule
+ * @param {Invocation} invocation - The program and its command line
+ * @param {string} cwd - Absolute working directory
+ * @returns {boolean} True if the rule matches
+ */
+function ruleMatches(
+  compiled: CompiledRule,
+  invocation: Invocation,
+  cwd: string
+): boolean {
+  const { rule } = compiled;
+  const name = programName(invocation.argv[0]);
+  if (
+    rule.executables &&
+    !rule.executables.some((pattern) => matchesGlob(name, pattern))
+  ) {
+    return false;
+  }
+  if (
+    compiled.args &&
+    !compiled.args.test(invocation.argv.slice(1).join(" "))
+  ) {
+    return false;
+  }
+  if (compiled.commandLine && !compiled.commandLine.test(invocation.line)) {
+    return false;
+  }
+  if (rule.cwd) {
+    const directories = withAncestors(cwd);
+    if (
+      !rule.cwd.some((pattern) =>
+        directories.some((directory) =>
+          matchesGlob(directory, expandHome(pattern))
+        )
+      )
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Check a command against the command policy
+ * @param {string} command - The program, or with shell set the start of a shell command line
+ * @param {string[]} [args] - Arguments for the program
+ * @param {CheckCommandOptions} [options] - Working directory, whether a shell runs the command and approved overridable rules
+ * @throws {CommandPolicyError} If a deny rule matches, or allow rules exist and none matches
+ */
+export function checkCommand(
+  command: string,
+  args: string[] = [],
+  options: CheckCommandOptions = {}
+): void {
+  const line = [command, ...args].join(" ");
+  const approvedRules = options.approvedRules ?? [];
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const invocations = options.shell
+    ? splitShellScript(line).flatMap((argv) => collectInvocations(argv, line))
+    : collectInvocations([command, ...args], line);
+
+  for (const invocation of invocations) {
+    const program = invocation.argv[0];
+    const denied = denyRules.find(
+      (compiled) =>
+        !(
+          compiled.rule.overridable &&
+          approvedRules.includes(compiled.rule.name)
+        ) && ruleMatches(compiled, invocation, cwd)
+    );
+    if (denied) {
+      const { rule } = denied;
+      // Name the program when it is not the one the line starts with
+      const at =
+        (rule.executables || rule.args) &&
+        (program !== command || options.shell)
+          ? ` at '${program}'`
+          : "";
+      throw createCommandPolicyError(
+        `'${line}' matches the deny rule '${rule.name}'${
+          rule.description ? ` (${rule.description})` : ""
+        }${at}${rule.overridable ? " and needs the user's approval" : ""}`,
+        line,
+        "denied",
+        rule
+      );
+    }
+    if (
+      allowRules.length > 0 &&
+      !allowRules.some((rule) => ruleMatches(rule, invocation, cwd))
+    ) {
+      throw createCommandPolicyError(
+        `'${program}' in '${line}' matches none of the allow rules (${allowRules
+          .map(({ rule }) => rule.name)
+          .join(", ")})`,
+        line,
+        "not-allowed"
+      );
+    }
+  }
+}
+
+const commandPolicyUtils: CommandPolicyUtils = {
+  checkCommand,
+  configureCommandPolicy,
+  getCommandPolicy,
+  getDefaultDenyRules,
+  isCommandPolicyError,
+  commandPolicyErrorResponse,
+};
+
+export default commandPolicyUtils;
@@ -0,0 +1,269 @@
+/**
+ * Confirmation utilities for CodeTools MCP
+ *
+ * Destructive operations ask the user before they run, through MCP
+ * elicitation: the client shows what is about to happen, such as a diff or
+ * the files to be deleted, and the operation only proceeds when the user
+ * accepts. Clients without elicitation get a fallback policy instead.
+ *
+ * Configured through environment variables:
+ * - CODE_TOOLS_CONFIRMATION_FALLBACK: "deny" (default) or "allow" for
+ *   clients that cannot be asked
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ConfirmationDeclinedError,
+  ConfirmationOutcome,
+  ConfirmationRequest,
+  ConfirmationUtils,
+  StagedChange,
+  ToolExtra,
+  ToolResponse,
+} from "../types/index.js";
+import { previewOverwrites } from "./changeset.js";
+import { isCommandPolicyError } from "./command-policy.js";
+import logger from "./logger.js";
+
+const FALLBACK: "deny" | "allow" =
+  process.env.CODE_TOOLS_CONFIRMATION_FALLBACK === "allow" ? "allow" : "deny";
+
+// How long the user has to answer
+const CONFIRMATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Longest details shown in a confirmation, so a huge diff stays readable
+const MAX_DETAILS_LENGTH = 20000;
+
+/**
+ * Get the policy for clients that do not support elicitation
+ * @returns {"deny"|"allow"} The fallback policy
+ */
+export function getConfirmationFallback(): "deny" | "allow" {
+  return FALLBACK;
+}
+
+/**
+ * Ask the user to confirm an operation. Uses elicitation when the client
+ * supports it, and the fallback policy otherwise. A failed or timed out
+ * elicitation counts as declined.
+ * @param {McpServer} server - The MCP server instance
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @param {ConfirmationRequest} request - What to confirm
+ * @returns {Promise<ConfirmationOutcome>} Whether the operation may proceed
+ */
+export async function requestConfirmation(
+  server: McpServer,
+  extra: ToolExtra,
+  request: ConfirmationRequest
+): Promise<ConfirmationOutcome> {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    logger.info(
+      `Client cannot confirm '${request.title}', fallback is ${FALLBACK}`
+    );
+    return { approved: FALLBACK === "allow", method: "fallback" };
+  }
+
+  let details = request.details ?? "";
+  if (details.length > MAX_DETAILS_LENGTH) {
+    details = `${details.slice(0, MAX_DETAILS_LENGTH)}\n[... ${
+      details.length - MAX_DETAILS_LENGTH
+    } more characters]`;
+  }
+
+  try {
+    const result = await server.server.elicitInput(
+      {
+        message: [request.title, request.summary, details]
+          .filter(Boolean)
+          .join("\n\n"),
+        requestedSchema: {
+          type: "object",
+          properties: {
+            confirm: {
+              type: "boolean",
+              title: "Proceed",
+              description: request.title,
+              default: true,
+            },
+          },
+          required: ["confirm"],
+        },
+      },
+      {
+        relatedRequestId: extra.requestId,
+        signal: extra.signal,
+        timeout: CONFIRMATION_TIMEOUT_MS,
+      }
+    );
+    const approved =
+      result.action === "accept" && result.content?.confirm !== false;
+    logger.info(`Confirmation of '${request.title}': ${result.action}`, {
+      approved,
+    });
+    return { approved, method: "elicitation", action: result.action };
+  } catch (error) {
+    logger.warn(`Could not confirm '${request.title}'`, {
+      error: (error as Error).message,
+    });
+    return { approved: false, method: "elicitation", action: "cancel" };
+  }
+}
+
+/**
+ * Create an error for an operation the user did not approve
+ * @param {ConfirmationRequest} request - What was to be confirmed
+ * @param {ConfirmationOutcome} outcome - How it was answered
+ * @returns {ConfirmationDeclinedError} The error
+ */
+function createConfirmationDeclinedError(
+  request: ConfirmationRequest,
+  outcome: ConfirmationOutcome
+): ConfirmationDeclinedError {
+  let message = `The user declined: ${request.title}`;
+  if (outcome.method === "fallback") {
+    message = `${request.title} needs confirmation, but the client does not support elicitation and CODE_TOOLS_CONFIRMATION_FALLBACK is '${FALLBACK}'`;
+  } else if (outcome.action === "cancel") {
+    message = `The confirmation was cancelled or not answered: ${request.title}`;
+  }
+  const error = new Error(message) as ConfirmationDeclinedError;
+  error.name = "ConfirmationDeclinedError";
+  error.operation = request.title;
+  error.method = outcome.method;
+  error.action = outcome.action;
+  return error;
+}
+
+/**
+ * Ask the user to confirm an operation, failing unless it is approved
+ * @param {McpServer} server - The MCP server instance
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @param {ConfirmationRequest} request - What to confirm
+ * @returns {Promise<void>}
+ * @throws {ConfirmationDeclinedError} If the operation was not approved
+ */
+export async function requireConfirmation(
+  server: McpServer,
+  extra: ToolExtra,
+  request: ConfirmationRequest
+): Promise<void> {
+  const outcome = await requestConfirmation(server, extra, request);
+  if (!outcome.approved) {
+    throw createConfirmationDeclinedError(request, outcome);
+  }
+}
+
+/**
+ * Ask the user to confirm changes that overwrite or delete existing files,
+ * showing the diff of each. Changes that only create files go ahead.
+ * @param {McpServer} server - The MCP server instance
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @param {string} title - What to confirm
+ * @param {Map<string, StagedChange>} changes - The changes about to be applied
+ * @returns {Promise<void>}
+ * @throws {ConfirmationDeclinedError} If the user does not approve
+ */
+export async function confirmOverwrites(
+  server: McpServer,
+  extra: ToolExtra,
+  title: string,
+  changes: Map<string, StagedChange>
+): Promise<void> {
+  const { files, diff } = await previewOverwrites(changes, extra.sessionId);
+  if (files.length === 0) {
+    return;
+  }
+  await requireConfirmation(server, extra, {
+    title,
+    summary: [
+      "Replaces or deletes these files:",
+      ...files.map((file) => `  ${file}`),
+    ].join("\n"),
+    details: diff,
+  });
+}
+
+/**
+ * Run something that starts a process, asking the user to approve commands
+ * that only an overridable deny rule of the command policy rejects. Each
+ * approved rule is passed to the next attempt.
+ * @param {McpServer} server - The MCP server instance
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @param {Function} run - Starts the process with the approved rule names
+ * @returns {Promise<T>} What run returns
+ * @throws {ConfirmationDeclinedError} If the user does not approve a rule
+ */
+export async function runWithCommandApproval<T>(
+  server: McpServer,
+  extra: ToolExtra,
+  run: (approvedRules: string[]) => Promise<T>
+): Promise<T> {
+  const approvedRules: string[] = [];
+  for (;;) {
+    try {
+      return await run(approvedRules);
+    } catch (error) {
+      if (
+        !isCommandPolicyError(error) ||
+        !error.overridable ||
+        !error.rule ||
+        approvedRules.includes(error.rule)
+      ) {
+        throw error;
+      }
+      await requireConfirmation(server, extra, {
+        title: `Run '${error.command}'`,
+        summary: `${error.message}. Run it anyway?`,
+      });
+      approvedRules.push(error.rule);
+    }
+  }
+}
+
+/**
+ * Check whether an error means an operation was not approved
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True for declined confirmations
+ */
+export function isConfirmationDeclinedError(
+  error: unknown
+): error is ConfirmationDeclinedError {
+  return error instanceof Error && error.name === "ConfirmationDeclinedError";
+}
+
+/**
+ * Build the standard tool response for an operation that was not approved
+ * @param {ConfirmationDeclinedError} error - The declined confirmation
+ * @returns {ToolResponse} The error response
+ */
+export function confirmationDeclinedResponse(
+  error: ConfirmationDeclinedError
+): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Cancelled: ${error.message}`,
+      },
+    ],
+    isError: true,
+    _meta: {
+      confirmation: {
+        operation: error.operation,
+        method: error.method,
+        action: error.action,
+      },
+    },
+  };
+}
+
+const confirmationUtils: ConfirmationUtils = {
+  getConfirmationFallback,
+  requestConfirmation,
+  requireConfirmation,
+  confirmOverwrites,
+  runWithCommandApproval,
+  isConfirmationDeclinedError,
+  confirmationDeclinedResponse,
+};
+
+export default confirmationUtils;
@@ -0,0 +1,348 @@
+/**
+ * Merge conflict utility functions for CodeTools MCP
+ *
+ * Parses the conflict markers git leaves in files after a merge, rebase,
+ * cherry-pick or stash pop, and rewrites them with a choice per hunk. Files
+ * merged without the diff3 conflict style carry no base section; it is
+ * recovered by merging the index stages again with `git merge-file --diff3`,
+ * which does not join nearby conflicts into one hunk, and joining its hunks
+ * until they reproduce each hunk in the file.
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  ConflictFile,
+  ConflictHunk,
+  ConflictResolution,
+  ConflictResolveResult,
+  ConflictUtils,
+} from "../types/index.js";
+import { getStatus, runGit } from "./git.js";
+import { runProcess } from "./process.js";
+import logger from "./logger.js";
+
+// Marker lines, with the label after the marker where git writes one
+const OURS_MARKER = /^<{7}(?: (.*))?$/;
+const BASE_MARKER = /^\|{7}(?: (.*))?$/;
+const SEPARATOR = /^={7}$/;
+const THEIRS_MARKER = /^>{7}(?: (.*))?$/;
+
+// Any line still showing a conflict
+const ANY_MARKER = /^(?:<{7}|\|{7}|>{7})(?: |$)|^={7}$/m;
+
+/**
+ * Split text into lines that keep their line endings
+ * @param {string} content - The text
+ * @returns {string[]} The lines
+ */
+function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Strip the line ending of a line
+ * @param {string} line - The line
+ * @returns {string} The line without \n or \r\n
+ */
+function stripEol(line: string): string {
+  return line.replace(/\r?\n$/, "");
+}
+
+/**
+ * Find the conflict hunks in a file's content. Unterminated hunks are
+ * not reported.
+ * @param {string} content - The file content
+ * @returns {ConflictHunk[]} The hunks, in file order
+ */
+export function parseConflictMarkers(content: string): ConflictHunk[] {
+  const lines = splitLines(content);
+  const hunks: ConflictHunk[] = [];
+  let hunk: ConflictHunk | undefined;
+  let section: "ours" | "base" | "theirs" = "ours";
+
+  lines.forEach((line, index) => {
+    const text = stripEol(line);
+    if (!hunk) {
+      const match = OURS_MARKER.exec(text);
+      if (match) {
+        hunk = {
+          index: hunks.length,
+          startLine: index + 1,
+          endLine: index + 1,
+          oursLabel: match[1] ?? "",
+          theirsLabel: "",
+          ours: "",
+          theirs: "",
+        };
+        section = "ours";
+      }
+      return;
+    }
+
+    const baseMatch = section === "ours" ? BASE_MARKER.exec(text) : null;
+    if (baseMatch) {
+      section = "base";
+      hunk.base = "";
+      hunk.baseLabel = baseMatch[1] ?? "";
+    } else if (section !== "theirs" && SEPARATOR.test(text)) {
+      section = "theirs";
+    } else if (section === "theirs" && THEIRS_MARKER.test(text)) {
+      hunk.theirsLabel = THEIRS_MARKER.exec(text)?.[1] ?? "";
+      hunk.endLine = index + 1;
+      hunks.push(hunk);
+      hunk = undefined;
+    } else if (section === "ours") {
+      hunk.ours += line;
+    } else if (section === "base") {
+      hunk.base += line;
+    } else {
+      hunk.theirs += line;
+    }
+  });
+
+  return hunks;
+}
+
+/**
+ * Check whether content still has conflict markers
+ * @param {string} content - The file content
+ * @returns {boolean} True if any marker line is left
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return ANY_MARKER.test(content);
+}
+
+/**
+ * Replace conflict hunks with the chosen side, both sides or custom text.
+ * Hunks without a resolution keep their markers.
+ * @param {string} content - The file content
+ * @param {ConflictResolution[]} resolutions - One choice per hunk to resolve
+ * @returns {ConflictResolveResult} The new content and the hunks left
+ * @throws {Error} If a resolution names a missing hunk, repeats one, or custom text is missing
+ */
+export function resolveConflictMarkers(
+  content: string,
+  resolutions: ConflictResolution[]
+): ConflictResolveResult {
+  const hunks = parseConflictMarkers(content);
+  const chosen = new Map<number, ConflictResolution>();
+  for (const resolution of resolutions) {
+    if (!hunks[resolution.hunk]) {
+      throw new Error(
+        `There is no conflict hunk ${resolution.hunk}; the file has ${hunks.length}`
+      );
+    }
+    if (chosen.has(resolution.hunk)) {
+      throw new Error(`Conflict hunk ${resolution.hunk} is resolved twice`);
+    }
+    if (resolution.choice === "custom" && resolution.content === undefined) {
+      throw new Error(
+        `Conflict hunk ${resolution.hunk} is resolved with custom text, but no content was given`
+      );
+    }
+    chosen.set(resolution.hunk, resolution);
+  }
+
+  const lines = splitLines(content);
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  let result = "";
+  let next = 0;
+  for (const hunk of hunks) {
+    const resolution = chosen.get(hunk.index);
+    if (!resolution) {
+      continue;
+    }
+    result += lines.slice(next, hunk.startLine - 1).join("");
+    if (resolution.choice === "ours") {
+      result += hunk.ours;
+    } else if (resolution.choice === "theirs") {
+      result += hunk.theirs;
+    } else if (resolution.choice === "both") {
+      result += hunk.ours + hunk.theirs;
+    } else {
+      const text = resolution.content ?? "";
+      // The lines after the hunk must still start on a line of their own
+      result += text === "" || text.endsWith("\n") ? text : text + eol;
+    }
+    next = hunk.endLine;
+  }
+  result += lines.slice(next).join("");
+
+  return {
+    content: result,
+    resolved: chosen.size,
+    remaining: hunks.length - chosen.size,
+    markersLeft: hasConflictMarkers(result),
+  };
+}
+
+/**
+ * Find the base of a hunk among the hunks of a diff3 merge: a run of them,
+ * with the merged text between them, that has the same ours and theirs
+ * @param {ConflictHunk} hunk - The hunk found in the working tree
+ * @param {ConflictHunk[]} remerged - The hunks of the diff3 merge
+ * @param {string[]} lines - The lines of the diff3 merge
+ * @param {number} from - The first diff3 hunk that may belong to the hunk
+ * @returns {{base: string, next: number}|undefined} The base and the first diff3 hunk after the run
+ */
+function findBase(
+  hunk: ConflictHunk,
+  remerged: ConflictHunk[],
+  lines: string[],
+  from: number
+): { base: string; next: number } | undefined {
+  for (let first = from; first < remerged.length; first++) {
+    let ours = "";
+    let theirs = "";
+    let base = "";
+    for (let last = first; last < remerged.length; last++) {
+      if (last > first) {
+        const between = lines
+          .slice(remerged[last - 1].endLine, remerged[last].startLine - 1)
+          .join("");
+        ours += between;
+        theirs += between;
+        base += between;
+      }
+      ours += remerged[last].ours;
+      theirs += remerged[last].theirs;
+      base += remerged[last].base ?? "";
+      if (ours === hunk.ours && theirs === hunk.theirs) {
+        return { base, next: last + 1 };
+      }
+      if (!hunk.ours.startsWith(ours) || !hunk.theirs.startsWith(theirs)) {
+        break;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Add the base section to hunks of a file merged without the diff3
+ * conflict style, by merging its index stages again. Hunks the new merge
+ * does not reproduce are left without a base.
+ * @param {string} cwd - Directory the path is relative to
+ * @param {string} filePath - Path relative to cwd
+ * @param {ConflictHunk[]} hunks - The hunks found in the working tree
+ * @returns {Promise<void>}
+ */
+async function addBaseSections(
+  cwd: string,
+  filePath: string,
+  hunks: ConflictHunk[]
+): Promise<void> {
+  const stages = new Map<string, string>();
+  const output = await runGit(["ls-files", "-u", "-z", "--", filePath], cwd);
+  for (const entry of output.split("\0").filter(Boolean)) {
+    // <mode> <object> <stage>\t<path>
+    const [, object, stage] = entry.split("\t")[0].split(" ");
+    stages.set(stage, object);
+  }
+  if (!stages.has("1") || !stages.has("2") || !stages.has("3")) {
+    return;
+  }
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "code-tools-merge-"));
+  try {
+    const files: string[] = [];
+    for (const stage of ["2", "1", "3"]) {
+      const file = path.join(dir, stage);
+      await fs.writeFile(
+        file,
+        await runGit(["cat-file", "blob", stages.get(stage) ?? ""], cwd)
+      );
+      files.push(file);
+    }
+    // The exit code is the number of conflicts
+    const merged = await runProcess(
+      "git",
+      ["merge-file", "-p", "--diff3", ...files],
+      { cwd, allowNonZeroExitCode: true }
+    );
+    if (merged.code < 0 || merged.truncated) {
+      return;
+    }
+
+    const remerged = parseConflictMarkers(merged.stdout);
+    const lines = splitLines(merged.stdout);
+    let next = 0;
+    for (const hunk of hunks) {
+      const found = findBase(hunk, remerged, lines, next);
+      if (found) {
+        hunk.base = found.base;
+        next = found.next;
+      }
+    }
+  } catch (error) {
+    logger.debug(`Could not recover the merge base of ${filePath}`, {
+      error: (error as Error).message,
+    });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * List the conflicted files of a repository with their conflict hunks
+ * @param {string} cwd - Directory inside the repository
+ * @param {string[]} [paths] - Only these files, relative to cwd
+ * @returns {Promise<ConflictFile[]>} The files, with paths relative to cwd
+ */
+export async function listConflicts(
+  cwd: string,
+  paths?: string[]
+): Promise<ConflictFile[]> {
+  const status = await getStatus(cwd, { untrackedFiles: "no" });
+  // Status paths are relative to the top of the working tree
+  const root = (await runGit(["rev-parse", "--show-cdup"], cwd)).trim();
+  const wanted = paths?.map((entry) => path.normalize(entry));
+
+  const files: ConflictFile[] = [];
+  for (const conflicted of status.conflicted) {
+    const filePath = path.normalize(path.join(root, conflicted.path));
+    if (wanted && !wanted.includes(filePath)) {
+      continue;
+    }
+    const file: ConflictFile = {
+      path: filePath,
+      conflict: conflicted.conflict,
+      exists: true,
+      binary: false,
+      hunks: [],
+    };
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(path.join(cwd, filePath));
+    } catch {
+      // Deleted on one side: nothing to parse
+      file.exists = false;
+      files.push(file);
+      continue;
+    }
+    if (buffer.includes(0)) {
+      file.binary = true;
+      files.push(file);
+      continue;
+    }
+
+    file.hunks = parseConflictMarkers(buffer.toString("utf8"));
+    if (file.hunks.some((hunk) => hunk.base === undefined)) {
+      await addBaseSections(cwd, filePath, file.hunks);
+    }
+    files.push(file);
+  }
+  return files;
+}
+
+const conflictUtils: ConflictUtils = {
+  parseConflictMarkers,
+  hasConflictMarkers,
+  resolveConflictMarkers,
+  listConflicts,
+};
+
+export default conflictUtils;
@@ -5,10 +5,26 @@
  */
 
 import fs from "fs/promises";
+import { createReadStream } from "fs";
 import path from "path";
-import { FileReadResult, FileUtils } from "../types/index.js";
+import { createHash, randomUUID } from "crypto";
+import {
+  DecodedText,
+  EncodingInfo,
+  FileReadResult,
+  FileUtils,
+  FileVersionInfo,
+  ReadRangeOptions,
+  TextEncoding,
+  ToolResponse,
+  WriteConflictError,
+  WritePrecondition,
+} from "../types/index.js";
 import logger from "./logger.js";
 
+// Number of bytes inspected when sniffing a file's encoding
+const SNIFF_BYTES = 8192;
+
 /**
  * Determine the MIME type based on file extension
  * @param {string} filePath - Path to the file
@@ -54,14 +70,172 @@ export function getMimeType(filePath: string): string {
 }
 
 /**
- * Check if a file is likely binary based on extension
+ * Get the length of a buffer without a trailing incomplete character
+ * @param {Buffer} buffer - The encoded bytes
+ * @param {TextEncoding} encoding - The text encoding
+ * @returns {number} Number of bytes that form complete characters
+ */
+export function completeCharacterLength(
+  buffer: Buffer,
+  encoding: TextEncoding
+): number {
+  if (encoding === "utf16le" || encoding === "utf16be") {
+    return buffer.length - (buffer.length % 2);
+  }
+  if (encoding !== "utf8") {
+    return buffer.length;
+  }
+
+  // Walk back over continuation bytes to the lead byte of the last sequence
+  for (let back = 1; back <= Math.min(4, buffer.length); back++) {
+    const byte = buffer[buffer.length - back];
+    if ((byte & 0xc0) === 0x80) {
+      continue;
+    }
+    const sequenceLength =
+      byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return sequenceLength > back ? buffer.length - back : buffer.length;
+  }
+  return buffer.length;
+}
+
+/**
+ * Detect the encoding of file content from its first bytes
+ * @param {Buffer} sample - The start of the file
+ * @returns {EncodingInfo} The detected encoding and BOM length
+ */
+export function detectEncoding(sample: Buffer): EncodingInfo {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return { encoding: "utf8", bomLength: 3 };
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return { encoding: "utf16le", bomLength: 2 };
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return { encoding: "utf16be", bomLength: 2 };
+  }
+  if (sample.length === 0) {
+    return { encoding: "utf8", bomLength: 0 };
+  }
+
+  // BOM-less UTF-16 has a zero byte in most code units, always on the same side
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) {
+        evenZeros++;
+      } else {
+        oddZeros++;
+      }
+    }
+  }
+  const units = Math.max(1, Math.floor(sample.length / 2));
+  if (oddZeros / units > 0.3 && evenZeros / units < 0.05) {
+    return { encoding: "utf16le", bomLength: 0 };
+  }
+  if (evenZeros / units > 0.3 && oddZeros / units < 0.05) {
+    return { encoding: "utf16be", bomLength: 0 };
+  }
+  if (evenZeros + oddZeros > 0) {
+    return { encoding: "binary", bomLength: 0 };
+  }
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(
+      sample.subarray(0, completeCharacterLength(sample, "utf8"))
+    );
+    return { encoding: "utf8", bomLength: 0 };
+  } catch (_error) {
+    // Not valid UTF-8, fall through to the single-byte check
+  }
+
+  // Legacy 8-bit text rarely contains control characters other than whitespace
+  const controlBytes = sample.filter(
+    (byte) => byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)
+  ).length;
+  return controlBytes / sample.length > 0.1
+    ? { encoding: "binary", bomLength: 0 }
+    : { encoding: "latin1", bomLength: 0 };
+}
+
+/**
+ * Check if content is binary by sniffing its bytes
+ * @param {Buffer} sample - The start of the content
+ * @returns {boolean} True if the content is not text
+ */
+export function isBinaryContent(sample: Buffer): boolean {
+  return detectEncoding(sample).encoding === "binary";
+}
+
+/**
+ * Detect the encoding of a file from its first bytes
  * @param {string} filePath - Path to the file
- * @returns {boolean} True if the file is likely binary
+ * @returns {Promise<EncodingInfo>} The detected encoding and BOM length
  */
-export function isBinaryFile(filePath: string): boolean {
-  const knownBinaryExtensions =
-    /\.(jpg|jpeg|png|gif|bmp|ico|pdf|zip|tar|gz|exe|dll|so|bin|dat|webp|woff|woff2|ttf|otf)$/i;
-  return knownBinaryExtensions.test(filePath);
+export async function detectFileEncoding(
+  filePath: string
+): Promise<EncodingInfo> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const sample = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(sample, 0, SNIFF_BYTES, 0);
+    return detectEncoding(sample.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Decode text bytes, including big-endian UTF-16 which Node lacks natively
+ * @param {Buffer} buffer - The encoded bytes
+ * @param {TextEncoding} encoding - The text encoding
+ * @returns {string} The decoded text
+ */
+export function decodeText(buffer: Buffer, encoding: TextEncoding): string {
+  if (encoding === "utf16be") {
+    const swapped = Buffer.from(buffer.subarray(0, buffer.length & ~1));
+    return swapped.swap16().toString("utf16le");
+  }
+  return buffer.toString(encoding);
+}
+
+/**
+ * Encode text, the inverse of decodeText
+ * @param {string} text - The text to encode
+ * @param {TextEncoding} encoding - The text encoding
+ * @param {boolean} [withBom=false] - Prepend a byte order mark
+ * @returns {Buffer} The encoded bytes
+ */
+export function encodeText(
+  text: string,
+  encoding: TextEncoding,
+  withBom = false
+): Buffer {
+  const bom = withBom && encoding !== "latin1" ? "\ufeff" : "";
+  if (encoding === "utf16be") {
+    return Buffer.from(bom + text, "utf16le").swap16();
+  }
+  return Buffer.from(bom + text, encoding);
+}
+
+/**
+ * Decode a whole file's bytes as text, detecting the encoding and BOM
+ * @param {Buffer} buffer - The file content
+ * @returns {DecodedText|null} The text, or null if the content is binary
+ */
+export function decodeContent(buffer: Buffer): DecodedText | null {
+  const { encoding, bomLength } = detectEncoding(
+    buffer.subarray(0, SNIFF_BYTES)
+  );
+  if (encoding === "binary") {
+    return null;
+  }
+  return {
+    content: decodeText(buffer.subarray(bomLength), encoding),
+    encoding,
+    hasBom: bomLength > 0,
+  };
 }
 
 /**
@@ -89,7 +263,91 @@ export async function ensureDirectory(
 }
 
 /**
- * Safely write to a file, ensuring the directory exists
+ * Replace a file's content atomically: the content is written and flushed to
+ * a temporary file next to the target, which is then renamed over it. Readers
+ * see either the old or the new content, never a partial write. An existing
+ * file keeps its permission bits, and a symlink keeps pointing at its target.
+ * @param {string} filePath - Path to the file
+ * @param {string|Buffer} content - Content to write; strings are written as UTF-8
+ * @returns {Promise<void>}
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string | Buffer
+): Promise<void> {
+  const targetPath = await fs.realpath(filePath).catch(() => filePath);
+  const existing = await fs.stat(targetPath).catch(() => null);
+  const tempPath = path.join(
+    path.dirname(targetPath),
+    `.${path.basename(targetPath)}.${randomUUID().slice(0, 8)}.tmp`
+  );
+
+  try {
+    const handle = await fs.open(tempPath, "wx");
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    if (existing) {
+      await fs.chmod(tempPath, existing.mode & 0o7777);
+    }
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Rename a file or directory. When the destination is on another device,
+ * where `rename` fails with EXDEV, the source is copied with its modes,
+ * timestamps and symlinks intact and then removed. A partial copy is
+ * removed again if copying fails.
+ * @param {string} sourcePath - Path to move
+ * @param {string} destinationPath - New path; must not exist unless both are files
+ * @returns {Promise<void>}
+ */
+export async function renameWithFallback(
+  sourcePath: string,
+  destinationPath: string
+): Promise<void> {
+  try {
+    await fs.rename(sourcePath, destinationPath);
+    return;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+  }
+
+  logger.debug(`Moving ${sourcePath} across devices by copying`);
+  const stats = await fs.lstat(sourcePath);
+  // Copy next to the destination first, so a failed copy never leaves a partial tree in place
+  const tempPath = path.join(
+    path.dirname(destinationPath),
+    `.${path.basename(destinationPath)}.${randomUUID().slice(0, 8)}.tmp`
+  );
+  try {
+    await fs.cp(sourcePath, tempPath, {
+      recursive: stats.isDirectory(),
+      errorOnExist: true,
+      force: false,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    });
+    await fs.rename(tempPath, destinationPath);
+  } catch (error) {
+    await fs.rm(tempPath, { recursive: true, force: true });
+    throw error;
+  }
+  await fs.rm(sourcePath, { recursive: true, force: true });
+}
+
+/**
+ * Safely write to a file, ensuring the directory exists. The file is
+ * replaced atomically.
  * @param {string} filePath - Path to the file
  * @param {string|Buffer} content - Content to write
  * @returns {Promise<void>}
@@ -100,19 +358,153 @@ export async function safeWriteFile(
 ): Promise<void> {
   const dirPath = path.dirname(filePath);
   await ensureDirectory(dirPath);
-  await fs.writeFile(filePath, content);
+  await writeFileAtomic(filePath, content);
   logger.debug(`Wrote file: ${filePath}`);
 }
 
 /**
- * Safely read a file as text or binary
+ * Hash content the way file versions are identified
+ * @param {Buffer} content - The content
+ * @returns {string} The SHA-256 hex digest
+ */
+export function hashContent(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Get the version of a file on disk, for use as a write precondition
+ * @param {string} filePath - Path to the file
+ * @returns {Promise<FileVersionInfo|null>} Its hash and mtime, or null if it does not exist
+ */
+export async function getFileVersionInfo(
+  filePath: string
+): Promise<FileVersionInfo | null> {
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats || !stats.isFile()) {
+    return null;
+  }
+
+  // Stream the file so large files are not held in memory
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return { hash: hash.digest("hex"), mtime: stats.mtime.toISOString() };
+}
+
+/**
+ * Create the error raised when a file changed after the agent read it
+ * @param {string} filePath - Path to the file
+ * @param {WritePrecondition} expected - The precondition that failed
+ * @param {FileVersionInfo|null} actual - The file's current version
+ * @returns {WriteConflictError} The error
+ */
+function createWriteConflictError(
+  filePath: string,
+  expected: WritePrecondition,
+  actual: FileVersionInfo | null
+): WriteConflictError {
+  const current = actual
+    ? `it now has hash ${actual.hash} and mtime ${actual.mtime}`
+    : "it no longer exists";
+  const error = new Error(
+    `${filePath} changed since it was read: ${current}. Read it again and reapply the change.`
+  ) as WriteConflictError;
+  error.name = "WriteConflictError";
+  error.filePath = filePath;
+  error.expected = expected;
+  error.actual = actual;
+  return error;
+}
+
+/**
+ * Check that a file is still the version a write was based on. Only the
+ * fields set in the precondition are compared.
+ * @param {string} filePath - Path to the file
+ * @param {WritePrecondition} [precondition] - Expected hash and/or mtime
+ * @returns {Promise<void>} Resolves if the precondition holds
+ */
+export async function verifyWritePrecondition(
+  filePath: string,
+  precondition?: WritePrecondition
+): Promise<void> {
+  const { expectedHash, expectedMtime } = precondition ?? {};
+  if (expectedHash === undefined && expectedMtime === undefined) {
+    return;
+  }
+
+  const expectedTime =
+    expectedMtime === undefined ? undefined : Date.parse(expectedMtime);
+  if (expectedTime !== undefined && Number.isNaN(expectedTime)) {
+    throw new Error(`Invalid expectedMtime: ${expectedMtime}`);
+  }
+
+  const actual = await getFileVersionInfo(filePath);
+  const hashMatches =
+    expectedHash === undefined ||
+    actual?.hash === expectedHash.trim().toLowerCase();
+  const mtimeMatches =
+    expectedTime === undefined ||
+    (actual !== null && Date.parse(actual.mtime) === expectedTime);
+
+  if (!hashMatches || !mtimeMatches) {
+    throw createWriteConflictError(filePath, precondition ?? {}, actual);
+  }
+}
+
+/**
+ * Check whether an error was raised by a failed write precondition
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True for write conflicts
+ */
+export function isWriteConflictError(
+  error: unknown
+): error is WriteConflictError {
+  return error instanceof Error && error.name === "WriteConflictError";
+}
+
+/**
+ * Build the standard tool response for a write conflict
+ * @param {WriteConflictError} error - The conflict
+ * @returns {ToolResponse} The error response
+ */
+export function writeConflictErrorResponse(
+  error: WriteConflictError
+): ToolResponse {
+  logger.warn(`Write rejected, file changed: ${error.filePath}`, {
+    expected: error.expected,
+  });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Conflict: ${error.message}`,
+      },
+    ],
+    isError: true,
+    _meta: {
+      conflict: {
+        path: error.filePath,
+        expected: error.expected,
+        actual: error.actual,
+      },
+    },
+  };
+}
+
+/**
+ * Safely read a file, or a byte range of it, as text or binary. Binary
+ * content and the text encoding are detected by sniffing the file's first
+ * bytes; a BOM is never included in the returned text.
  * @param {string} filePath - Path to the file
  * @param {boolean} [forceBinary=false] - Force reading as binary
- * @returns {Promise<{content: string|Buffer, isBinary: boolean}>}
+ * @param {ReadRangeOptions} [options] - Byte range and encoding override
+ * @returns {Promise<FileReadResult>}
  */
 export async function safeReadFile(
   filePath: string,
-  forceBinary = false
+  forceBinary = false,
+  options: ReadRangeOptions = {}
 ): Promise<FileReadResult> {
   try {
     const fileStats = await fs.stat(filePath);
@@ -121,15 +513,59 @@ export async function safeReadFile(
       throw new Error(`Path is a directory, not a file: ${filePath}`);
     }
 
-    const shouldReadAsBinary = forceBinary || isBinaryFile(filePath);
+    const detected = await detectFileEncoding(filePath);
+    const encoding =
+      options.encoding ??
+      (detected.encoding === "binary" ? undefined : detected.encoding);
+    const shouldReadAsBinary = forceBinary || !encoding;
+
+    // Skip the BOM unless reading raw bytes or overriding the encoding
+    const bomLength =
+      !shouldReadAsBinary && encoding === detected.encoding
+        ? detected.bomLength
+        : 0;
+    const start = Math.min(
+      fileStats.size,
+      Math.max(options.start ?? 0, bomLength)
+    );
+    const end = Math.min(
+      fileStats.size,
+      options.length !== undefined ? start + options.length : fileStats.size
+    );
+
+    const buffer = Buffer.alloc(end - start);
+    const handle = await fs.open(filePath, "r");
+    try {
+      await handle.read(buffer, 0, buffer.length, start);
+    } finally {
+      await handle.close();
+    }
 
     if (shouldReadAsBinary) {
-      const content = await fs.readFile(filePath);
-      return { content, isBinary: true };
-    } else {
-      const content = await fs.readFile(filePath, "utf8");
-      return { content, isBinary: false };
+      return {
+        content: buffer,
+        isBinary: true,
+        size: fileStats.size,
+        start,
+        bytesRead: buffer.length,
+      };
     }
+
+    // Leave a character cut off by the end of the range for the next read
+    const bytesRead =
+      end < fileStats.size
+        ? completeCharacterLength(buffer, encoding)
+        : buffer.length;
+
+    return {
+      content: decodeText(buffer.subarray(0, bytesRead), encoding),
+      isBinary: false,
+      encoding,
+      hasBom: bomLength > 0,
+      size: fileStats.size,
+      start,
+      bytesRead,
+    };
   } catch (error) {
     const err = error as Error;
     logger.error(`Failed to read file: ${filePath}`, { error: err.message });
@@ -139,10 +575,23 @@ export async function safeReadFile(
 
 const fileUtils: FileUtils = {
   getMimeType,
-  isBinaryFile,
+  detectEncoding,
+  detectFileEncoding,
+  isBinaryContent,
+  decodeText,
+  encodeText,
+  completeCharacterLength,
+  decodeContent,
   ensureDirectory,
+  writeFileAtomic,
+  renameWithFallback,
   safeWriteFile,
   safeReadFile,
+  hashContent,
+  getFileVersionInfo,
+  verifyWritePrecondition,
+  isWriteConflictError,
+  writeConflictErrorResponse,
 };
 
 export default fileUtils;
@@ -0,0 +1,945 @@
+/**
+ * Git utility functions for CodeTools MCP
+ *
+ * Runs git without a shell and parses its machine-readable output: status
+ * from porcelain v2, commits from a delimited log format, and per-file diff
+ * stats from --numstat and --name-status. Revisions given by a client are
+ * checked so they cannot be mistaken for options.
+ *
+ * Configured through environment variables:
+ * - CODE_TOOLS_CONVENTIONAL_COMMITS: "true" to require Conventional Commits
+ *   messages with the default types, or a comma-separated list of types
+ */
+
+import {
+  ConventionalCommitCheck,
+  GitBlameLine,
+  GitBlameOptions,
+  GitBlameResult,
+  GitBranch,
+  GitChangeStatus,
+  GitCommit,
+  GitCommitOptions,
+  GitCommitResult,
+  GitConflict,
+  GitDiffFile,
+  GitDiffOptions,
+  GitDiffResult,
+  GitFileChange,
+  GitFileHistoryEntry,
+  GitFileHistoryOptions,
+  GitLogOptions,
+  GitRunOptions,
+  GitShowResult,
+  GitStash,
+  GitStatus,
+  GitStatusOptions,
+  GitUtils,
+  ProcessResult,
+} from "../types/index.js";
+import { runProcess } from "./process.js";
+
+// Field and record separators for formats git fills in
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+
+// One commit per record, body last since it may span lines
+const LOG_FORMAT = [
+  "%H",
+  "%h",
+  "%P",
+  "%an",
+  "%ae",
+  "%aI",
+  "%cn",
+  "%ce",
+  "%cI",
+  "%D",
+  "%s",
+  "%b",
+].join("%x1f");
+
+const BRANCH_FORMAT = [
+  "%(HEAD)",
+  "%(refname)",
+  "%(refname:short)",
+  "%(objectname)",
+  "%(upstream:short)",
+  "%(upstream:track,nobracket)",
+  "%(committerdate:iso-strict)",
+  "%(contents:subject)",
+].join("%1f");
+
+// Status letters of porcelain v2, --name-status and --raw
+const CHANGE_STATUS: Record<string, GitChangeStatus> = {
+  A: "added",
+  M: "modified",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  T: "type-changed",
+  U: "unmerged",
+};
+
+// Unmerged XY codes of porcelain v2
+const CONFLICTS: Record<string, string> = {
+  DD: "both deleted",
+  AU: "added by us",
+  UD: "deleted by them",
+  UA: "added by them",
+  DU: "deleted by us",
+  AA: "both added",
+  UU: "both modified",
+};
+
+// Commit types of Conventional Commits, as used by commitlint
+const DEFAULT_COMMIT_TYPES = [
+  "build",
+  "chore",
+  "ci",
+  "docs",
+  "feat",
+  "fix",
+  "perf",
+  "refactor",
+  "revert",
+  "style",
+  "test",
+];
+
+const COMMIT_TYPES = parseCommitTypes(
+  process.env.CODE_TOOLS_CONVENTIONAL_COMMITS
+);
+
+// Longest commit header accepted with Conventional Commits
+const MAX_HEADER_LENGTH = 100;
+
+// type(scope)!: description
+const CONVENTIONAL_HEADER = /^([A-Za-z]+)(?:\(([^()]*)\))?(!)?: (.*)$/;
+
+/**
+ * Parse the commit types a Conventional Commits setting enables
+ * @param {string|undefined} value - "true", "false" or a comma-separated list of types
+ * @returns {string[]|undefined} The types, or undefined when not enforced
+ */
+function parseCommitTypes(value: string | undefined): string[] | undefined {
+  const setting = (value ?? "").trim().toLowerCase();
+  if (["", "0", "false", "no", "off"].includes(setting)) {
+    return undefined;
+  }
+  if (["1", "true", "yes", "on"].includes(setting)) {
+    return DEFAULT_COMMIT_TYPES;
+  }
+  return setting
+    .split(",")
+    .map((type) => type.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Run git and fail on a non-zero exit code
+ * @param {string[]} args - Arguments after `git`
+ * @param {string} cwd - Directory inside the repository
+ * @param {GitRunOptions} [options] - Abort signal and approved policy rules
+ * @returns {Promise<ProcessResult>} The result
+ * @throws {Error} With git's error output if it fails
+ */
+async function execGit(
+  args: string[],
+  cwd: string,
+  options: GitRunOptions = {}
+): Promise<ProcessResult> {
+  const result = await runProcess(
+    "git",
+    ["-c", "core.quotepath=false", "-c", "color.ui=false", ...args],
+    {
+      cwd,
+      // Keep read-only commands from taking the index lock or prompting
+      env: { GIT_OPTIONAL_LOCKS: "0", GIT_TERMINAL_PROMPT: "0" },
+      allowNonZeroExitCode: true,
+      signal: options.signal,
+      approvedRules: options.approvedRules,
+    }
+  );
+  if (result.timedOut || result.aborted) {
+    throw new Error(
+      `git ${args[0]} was ${
+        result.aborted ? "cancelled" : "stopped after timing out"
+      }`
+    );
+  }
+  if (result.code !== 0) {
+    throw new Error(
+      `git ${args[0]} failed: ${
+        result.stderr.trim() ||
+        result.stdout.trim() ||
+        `exit code ${result.code}`
+      }`
+    );
+  }
+  return result;
+}
+
+/**
+ * Run git and return its standard output
+ * @param {string[]} args - Arguments after `git`
+ * @param {string} cwd - Directory inside the repository
+ * @param {GitRunOptions} [options] - Abort signal and approved policy rules
+ * @returns {Promise<string>} The output
+ * @throws {Error} If git fails or its output was too large to keep whole
+ */
+export async function runGit(
+  args: string[],
+  cwd: string,
+  options: GitRunOptions = {}
+): Promise<string> {
+  const result = await execGit(args, cwd, options);
+  if (result.truncated) {
+    throw new Error(
+      `The output of git ${args[0]} is too large; narrow it down with paths or a smaller range`
+    );
+  }
+  return result.stdout;
+}
+
+/**
+ * Check a revision, range or ref name given by a client
+ * @param {string} revision - The revision
+ * @returns {string} The revision
+ * @throws {Error} If it is empty or would be read as an option
+ */
+export function checkRevision(revision: string): string {
+  if (revision.trim() === "" || revision.startsWith("-")) {
+    throw new Error(`Invalid revision '${revision}'`);
+  }
+  return revision;
+}
+
+/**
+ * Split a space-separated record whose last field may contain spaces
+ * @param {string} record - The record
+ * @param {number} count - Number of fields before the last one
+ * @returns {string[]} The fields, the last one holding the rest
+ */
+function splitFields(record: string, count: number): string[] {
+  const fields: string[] = [];
+  let rest = record;
+  for (let i = 0; i < count; i++) {
+    const space = rest.indexOf(" ");
+    fields.push(rest.slice(0, space));
+    rest = rest.slice(space + 1);
+  }
+  fields.push(rest);
+  return fields;
+}
+
+/**
+ * Map a status letter to a change status
+ * @param {string} letter - The letter, possibly followed by a score
+ * @returns {GitChangeStatus} The status
+ */
+function changeStatus(letter: string): GitChangeStatus {
+  return CHANGE_STATUS[letter.charAt(0)] ?? "unknown";
+}
+
+/**
+ * Get the status of a working tree
+ * @param {string} cwd - Directory inside the repository
+ * @param {GitStatusOptions} [options] - Which untracked and ignored files to list
+ * @returns {Promise<GitStatus>} Branch and changes, grouped by where they are
+ */
+export async function getStatus(
+  cwd: string,
+  options: GitStatusOptions = {}
+): Promise<GitStatus> {
+  const { untrackedFiles = "all", includeIgnored = false } = options;
+  const output = await runGit(
+    [
+      "status",
+      "--porcelain=v2",
+      "--branch",
+      "-z",
+      `--untracked-files=${untrackedFiles}`,
+      ...(includeIgnored ? ["--ignored"] : []),
+    ],
+    cwd
+  );
+
+  const status: GitStatus = {
+    branch: null,
+    commit: null,
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    ignored: [],
+    conflicted: [],
+    clean: true,
+  };
+
+  /**
+   * Record the index and worktree sides of a changed entry
+   * @param {string} xy - The XY status code
+   * @param {string} filePath - The path
+   * @param {string} [oldPath] - The path before a rename or copy
+   */
+  const addChange = (xy: string, filePath: string, oldPath?: string): void => {
+    if (xy[0] !== ".") {
+      const change: GitFileChange = {
+        path: filePath,
+        status: changeStatus(xy[0]),
+      };
+      if (oldPath !== undefined) {
+        change.oldPath = oldPath;
+      }
+      status.staged.push(change);
+    }
+    if (xy[1] !== ".") {
+      status.unstaged.push({ path: filePath, status: changeStatus(xy[1]) });
+    }
+  };
+
+  const records = output.split("\0");
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (record.startsWith("# branch.oid ")) {
+      const oid = record.slice("# branch.oid ".length);
+      status.commit = oid === "(initial)" ? null : oid;
+    } else if (record.startsWith("# branch.head ")) {
+      const head = record.slice("# branch.head ".length);
+      status.branch = head === "(detached)" ? null : head;
+    } else if (record.startsWith("# branch.upstream ")) {
+      status.upstream = record.slice("# branch.upstream ".length);
+    } else if (record.startsWith("# branch.ab ")) {
+      const [ahead, behind] = record
+        .slice("# branch.ab ".length)
+        .split(" ")
+        .map((count) => Math.abs(parseInt(count, 10)));
+      status.ahead = ahead;
+      status.behind = behind;
+    } else if (record.startsWith("1 ")) {
+      const fields = splitFields(record, 8);
+      addChange(fields[1], fields[8]);
+    } else if (record.startsWith("2 ")) {
+      // The path before the rename is the next record
+      const fields = splitFields(record, 9);
+      addChange(fields[1], fields[9], records[++i]);
+    } else if (record.startsWith("u ")) {
+      const fields = splitFields(record, 10);
+      const conflict: GitConflict = {
+        path: fields[10],
+        conflict: CONFLICTS[fields[1]] ?? fields[1],
+      };
+      status.conflicted.push(conflict);
+    } else if (record.startsWith("? ")) {
+      status.untracked.push(record.slice(2));
+    } else if (record.startsWith("! ")) {
+      status.ignored.push(record.slice(2));
+    }
+  }
+
+  status.clean =
+    status.staged.length === 0 &&
+    status.unstaged.length === 0 &&
+    status.untracked.length === 0 &&
+    status.conflicted.length === 0;
+  return status;
+}
+
+/**
+ * Parse a commit written with LOG_FORMAT
+ * @param {string} record - The fields of one commit
+ * @returns {GitCommit} The commit
+ */
+function parseCommit(record: string): GitCommit {
+  const [
+    hash,
+    shortHash,
+    parents,
+    authorName,
+    authorEmail,
+    authorDate,
+    committerName,
+    committerEmail,
+    committerDate,
+    refs,
+    subject,
+    body,
+  ] = record.split(FIELD);
+  return {
+    hash,
+    shortHash,
+    parents: parents ? parents.split(" ") : [],
+    author: { name: authorName, email: authorEmail, date: authorDate },
+    committer: {
+      name: committerName,
+      email: committerEmail,
+      date: committerDate,
+    },
+    refs: refs ? refs.split(", ") : [],
+    subject,
+    body: (body ?? "").trim(),
+  };
+}
+
+/**
+ * List commits, newest first
+ * @param {string} cwd - Directory inside the repository
+ * @param {GitLogOptions} [options] - Range and filters
+ * @returns {Promise<GitCommit[]>} The commits; none for a repository without commits
+ */
+export async function getLog(
+  cwd: string,
+  options: GitLogOptions = {}
+): Promise<GitCommit[]> {
+  const args = [
+    "log",
+    `--format=${RECORD}${LOG_FORMAT}`,
+    `--max-count=${options.maxCount ?? 20}`,
+  ];
+  if (options.skip) {
+    args.push(`--skip=${options.skip}`);
+  }
+  if (options.author) {
+    args.push(`--author=${options.author}`);
+  }
+  if (options.since) {
+    args.push(`--since=${options.since}`);
+  }
+  if (options.until) {
+    args.push(`--until=${options.until}`);
+  }
+  if (options.grep) {
+    args.push(`--grep=${options.grep}`);
+  }
+  if (options.noMerges) {
+    args.push("--no-merges");
+  }
+  if (options.firstParent) {
+    args.push("--first-parent");
+  }
+  if (options.range) {
+    args.push(checkRevision(options.range));
+  }
+  args.push("--", ...(options.paths ?? []));
+
+  let output: string;
+  try {
+    output = await runGit(args, cwd);
+  } catch (error) {
+    if (
+      !options.range &&
+      /does not have any commits yet/.test((error as Error).message)
+    ) {
+      return [];
+    }
+    throw error;
+  }
+
+  return output.split(RECORD).slice(1).map(parseCommit);
+}
+
+/**
+ * Get per-file stats, and optionally the patch, of a diff. Without options
+ * it is the unstaged changes; staged compares the index with HEAD, range
+ * is anything `git diff` accepts such as `main...feature`, and commit is
+ * the change a single commit made (against its first parent for merges).
+ * @param {string} cwd - Directory inside the repository
+ * @param {GitDiffOptions} [options] - What to compare and whether to include the patch
+ * @returns {Promise<GitDiffResult>} The changed files and totals
+ */
+export async function getDiff(
+  cwd: string,
+  options: GitDiffOptions = {}
+): Promise<GitDiffResult> {
+  const {
+    staged = false,
+    range,
+    commit,
+    paths = [],
+    contextLines = 3,
+    includePatch = false,
+  } = options;
+
+  const base = commit
+    ? ["show", "--format=", "--diff-merges=first-parent", checkRevision(commit)]
+    : [
+        "diff",
+        ...(staged ? ["--cached"] : []),
+        ...(range ? [checkRevision(range)] : []),
+      ];
+  const run = (mode: string[]): Promise<string> =>
+    runGit(
+      [...base, "--no-ext-diff", "--find-renames", ...mode, "--", ...paths],
+      cwd
+    );
+
+  // --name-status gives the kind of change, --numstat the line counts
+  const files = new Map<string, GitDiffFile>();
+  const statuses = (await run(["--name-status", "-z"])).split("\0");
+  for (let i = 0; i + 1 < statuses.length; i += 2) {
+    const status = statuses[i];
+    const file: GitDiffFile = {
+      path: statuses[i + 1],
+      status: changeStatus(status),
+      additions: 0,
+      deletions: 0,
+      binary: false,
+    };
+    if (status.startsWith("R") || status.startsWith("C")) {
+      file.oldPath = file.path;
+      file.path = statuses[++i + 1];
+    }
+    files.set(file.path, file);
+  }
+
+  const stats = (await run(["--numstat", "-z"])).split("\0");
+  for (let i = 0; i < stats.length; i++) {
+    const [additions, deletions, name] = stats[i].split("\t");
+    if (deletions === undefined) {
+      continue;
+    }
+    // Renames have an empty name followed by the old and new paths
+    let filePath = name;
+    if (name === "") {
+      filePath = stats[i + 2];
+      i += 2;
+    }
+    const file = files.get(filePath);
+    if (!file) {
+      continue;
+    }
+    if (additions === "-") {
+      file.binary = true;
+      file.additions = null;
+      file.deletions = null;
+    } else {
+      file.additions = parseInt(additions, 10);
+      file.deletions = parseInt(deletions, 10);
+    }
+  }
+
+  const result: GitDiffResult = {
+    files: [...files.values()],
+    additions: 0,
+    deletions: 0,
+  };
+  for (const file of result.files) {
+    result.additions += file.additions ?? 0;
+    result.deletions += file.deletions ?? 0;
+  }
+
+  if (includePatch) {
+    const patch = await execGit(
+      [
+        ...base,
+        "--no-ext-diff",
+        "--find-renames",
+        `--unified=${contextLines}`,
+        "--",
+        ...paths,
+      ],
+      cwd
+    );
+    result.patch = patch.stdout;
+    result.patchTruncated = patch.truncated;
+  }
+  return result;
+}
+
+/**
+ * Get a commit and the change it made
+ * @param {string} cwd - Directory inside the repository
+ * @param {string} ref - The commit, branch or tag
+ * @param {GitDiffOptions} [options] - Paths, context lines and whether to include the patch
+ * @returns {Promise<GitShowResult>} The commit and its diff
+ */
+export async function showCommit(
+  cwd: string,
+  ref: string,
+  options: GitDiffOptions = {}
+): Promise<GitShowResult> {
+  const [commit] = await getLog(cwd, { range: ref, maxCount: 1 });
+  if (!commit) {
+    throw new Error(`No commit found for '${ref}'`);
+  }
+  const diff = await getDiff(cwd, { ...options, commit: commit.hash });
+  return { commit, diff };
+}
+
+/**
+ * Get the content of a file at a revision
+ * @param {string} cwd - Directory the path is relative to
+ * @param {string} ref - The commit, branch or tag
+ * @param {string} filePath - Path relative to cwd
+ * @returns {Promise<string>} The content
+ */
+export async function showFile(
+  cwd: string,
+  ref: string,
+  filePath: string
+): Promise<string> {
+  return runGit(["show", `${checkRevision(ref)}:./${filePath}`], cwd);
+}
+
+/**
+ * Get the commit that last changed each line of a file
+ * @param {string} cwd - Directory the path is relative to
+ * @param {string} filePath - Path relative to cwd
+ * @param {GitBlameOptions} [options] - Revision, line range and whitespace handling
+ * @returns {Promise<GitBlameResult>} One entry per line
+ */
+export async function blameFile(
+  cwd: string,
+  filePath: string,
+  options: GitBlameOptions = {}
+): Promise<GitBlameResult> {
+  const { ref, startLine, endLine, ignoreWhitespace = false } = options;
+  const args = ["blame", "--porcelain"];
+  if (ignoreWhitespace) {
+    args.push("-w");
+  }
+  if (startLine !== undefined || endLine !== undefined) {
+    args.push(`-L${startLine ?? 1},${endLine ?? ""}`);
+  }
+  if (ref) {
+    args.push(checkRevision(ref));
+  }
+  args.push("--", filePath);
+  const output = await runGit(args, cwd);
+
+  // Commit details are only written the first time a commit appears
+  const commits = new Map<string, Omit<GitBlameLine, "line" | "content">>();
+  const lines: GitBlameLine[] = [];
+  let current: Omit<GitBlameLine, "line" | "content"> | null = null;
+  let lineNumber = 0;
+
+  for (const line of output.split("\n")) {
+    if (line.startsWith("\t")) {
+      if (current) {
+        lines.push({ line: lineNumber, content: line.slice(1), ...current });
+      }
+      continue;
+    }
+    const header = /^([0-9a-f]{40}) (\d+) (\d+)/.exec(line);
+    if (header) {
+      const [, commit, originalLine, finalLine] = header;
+      lineNumber = parseInt(finalLine, 10);
+      const known = commits.get(commit);
+      current = {
+        commit,
+        originalLine: parseInt(originalLine, 10),
+        originalPath: known?.originalPath ?? filePath,
+        author: known?.author ?? "",
+        authorEmail: known?.authorEmail ?? "",
+        date: known?.date ?? "",
+        summary: known?.summary ?? "",
+      };
+      commits.set(commit, current);
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const space = line.indexOf(" ");
+    const key = space === -1 ? line : line.slice(0, space);
+    const value = space === -1 ? "" : line.slice(space + 1);
+    if (key === "author") {
+      current.author = value;
+    } else if (key === "author-mail") {
+      current.authorEmail = value.replace(/^<|>$/g, "");
+    } else if (key === "author-time") {
+      current.date = new Date(parseInt(value, 10) * 1000).toISOString();
+    } else if (key === "summary") {
+      current.summary = value;
+    } else if (key === "filename") {
+      current.originalPath = value;
+    }
+  }
+
+  return { path: filePath, ref, lines };
+}
+
+/**
+ * List the commits that changed a file, newest first, following renames.
+ * Each entry has the file's path in that commit and its diff stats, and
+ * optionally the patch.
+ * @param {string} cwd - Directory the path is relative to
+ * @param {string} filePath - Path relative to cwd, as it is now or at ref
+ * @param {GitFileHistoryOptions} [options] - Revision, count and patch options
+ * @returns {Promise<GitFileHistoryEntry[]>} The commits and changes
+ */
+export async function getFileHistory(
+  cwd: string,
+  filePath: string,
+  options: GitFileHistoryOptions = {}
+): Promise<GitFileHistoryEntry[]> {
+  const { ref, maxCount = 10, includePatch = true, contextLines = 3 } = options;
+  const args = [
+    "log",
+    "--follow",
+    "--find-renames",
+    "--name-status",
+    "-z",
+    `--format=${RECORD}${LOG_FORMAT}`,
+    `--max-count=${maxCount}`,
+  ];
+  if (ref) {
+    args.push(checkRevision(ref));
+  }
+  args.push("--", filePath);
+  const output = await runGit(args, cwd);
+
+  // Paths in the output are relative to the top of the working tree
+  const root = (await runGit(["rev-parse", "--show-cdup"], cwd)).trim();
+  const history: GitFileHistoryEntry[] = [];
+  for (const record of output.split(RECORD).slice(1)) {
+    // The commit ends at the first NUL, the file's status follows
+    const end = record.indexOf("\0");
+    const commit = parseCommit(record.slice(0, end));
+    const [status = "", ...names] = record
+      .slice(end + 1)
+      .replace(/^\n/, "")
+      .split("\0")
+      .filter(Boolean);
+    const change: GitDiffFile = {
+      path: names[names.length - 1] ?? filePath,
+      status: changeStatus(status),
+      additions: null,
+      deletions: null,
+      binary: false,
+    };
+    if (names.length > 1) {
+      change.oldPath = names[0];
+    }
+
+    const diff = await getDiff(cwd, {
+      commit: commit.hash,
+      paths: [change.oldPath, change.path]
+        .filter((name): name is string => name !== undefined)
+        .map((name) => `${root}${name}`),
+      includePatch,
+      contextLines,
+    });
+    const entry: GitFileHistoryEntry = {
+      commit,
+      file: diff.files.find((file) => file.path === change.path) ?? change,
+    };
+    if (includePatch) {
+      entry.patch = diff.patch;
+    }
+    history.push(entry);
+  }
+  return history;
+}
+
+/**
+ * List local branches, and optionally remote-tracking ones
+ * @param {string} cwd - Directory inside the repository
+ * @param {boolean} [includeRemote=false] - Include remote-tracking branches
+ * @returns {Promise<GitBranch[]>} The branches
+ */
+export async function listBranches(
+  cwd: string,
+  includeRemote = false
+): Promise<GitBranch[]> {
+  const output = await runGit(
+    [
+      "for-each-ref",
+      `--format=${BRANCH_FORMAT}`,
+      "refs/heads",
+      ...(includeRemote ? ["refs/remotes"] : []),
+    ],
+    cwd
+  );
+
+  const branches: GitBranch[] = [];
+  for (const line of output.split("\n")) {
+    const [head, refName, name, commit, upstream, track, date, subject] =
+      line.split(FIELD);
+    // Skip blank lines and symbolic refs such as origin/HEAD
+    if (!refName || refName.endsWith("/HEAD")) {
+      continue;
+    }
+    const branch: GitBranch = {
+      name,
+      remote: refName.startsWith("refs/remotes/"),
+      current: head === "*",
+      commit,
+      ahead: parseInt(/ahead (\d+)/.exec(track)?.[1] ?? "0", 10),
+      behind: parseInt(/behind (\d+)/.exec(track)?.[1] ?? "0", 10),
+      upstreamGone: track === "gone",
+      date,
+      subject,
+    };
+    if (upstream) {
+      branch.upstream = upstream;
+    }
+    branches.push(branch);
+  }
+  return branches;
+}
+
+/**
+ * List the stash entries, newest first
+ * @param {string} cwd - Directory inside the repository
+ * @returns {Promise<GitStash[]>} The entries
+ */
+export async function listStashes(cwd: string): Promise<GitStash[]> {
+  const output = await runGit(
+    ["stash", "list", "--format=%gd%x1f%H%x1f%cI%x1f%gs"],
+    cwd
+  );
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line, index) => {
+      const [ref, hash, date, message] = line.split(FIELD);
+      return { index, ref, hash, date, message };
+    });
+}
+
+/**
+ * Get the commit types required by configuration
+ * @returns {string[]|undefined} The types, or undefined when Conventional Commits are not enforced
+ */
+export function getConventionalCommitTypes(): string[] | undefined {
+  return COMMIT_TYPES;
+}
+
+/**
+ * Check a commit message against Conventional Commits: a header
+ * "type(scope)!: description" with a known type, then optionally a blank
+ * line and a body with footers such as "BREAKING CHANGE: ..."
+ * @param {string} message - The commit message
+ * @param {string[]} [types] - Accepted types; the configured or default ones if omitted
+ * @returns {ConventionalCommitCheck} The parsed header and any problems
+ */
+export function checkConventionalCommit(
+  message: string,
+  types: string[] = COMMIT_TYPES ?? DEFAULT_COMMIT_TYPES
+): ConventionalCommitCheck {
+  const lines = message.trim().split(/\r?\n/);
+  const header = lines[0];
+  const breakingFooter = lines
+    .slice(1)
+    .some((line) => /^BREAKING[ -]CHANGE: /.test(line));
+  const problems: string[] = [];
+
+  const match = CONVENTIONAL_HEADER.exec(header);
+  if (!match) {
+    return {
+      valid: false,
+      breaking: breakingFooter,
+      problems: [
+        `The header '${header}' does not look like 'type(scope): description'`,
+      ],
+    };
+  }
+
+  const [, type, scope, bang, description] = match;
+  if (!types.includes(type.toLowerCase())) {
+    problems.push(`Unknown type '${type}'; use one of ${types.join(", ")}`);
+  }
+  if (scope !== undefined && scope.trim() === "") {
+    problems.push("The scope in parentheses cannot be empty");
+  }
+  if (description.trim() === "") {
+    problems.push("The description after the colon cannot be empty");
+  }
+  if (header.length > MAX_HEADER_LENGTH) {
+    problems.push(
+      `The header is ${header.length} characters long; keep it within ${MAX_HEADER_LENGTH}`
+    );
+  }
+  if (lines.length > 1 && lines[1].trim() !== "") {
+    problems.push("Separate the body from the header with a blank line");
+  }
+
+  return {
+    valid: problems.length === 0,
+    type,
+    scope,
+    breaking: bang === "!" || breakingFooter,
+    description,
+    problems,
+  };
+}
+
+/**
+ * Create a commit from the staged changes, after staging the given files
+ * @param {string} cwd - Directory the file paths are relative to
+ * @param {GitCommitOptions} options - Message, files to stage, author and whether to amend
+ * @returns {Promise<GitCommitResult>} The new commit and the change it made
+ * @throws {Error} If nothing is staged, the author is malformed or git fails
+ */
+export async function createCommit(
+  cwd: string,
+  options: GitCommitOptions
+): Promise<GitCommitResult> {
+  const {
+    message,
+    files = [],
+    author,
+    amend = false,
+    allowEmpty = false,
+    ...runOptions
+  } = options;
+  if (message.trim() === "") {
+    throw new Error("The commit message cannot be empty");
+  }
+  if (author !== undefined && !/^[^<>]+<[^<>\s]+>$/.test(author.trim())) {
+    throw new Error(
+      `The author '${author}' does not look like 'Name <email@example.com>'`
+    );
+  }
+
+  if (files.length > 0) {
+    // --all also stages deletions of the listed paths
+    await runGit(["add", "--all", "--", ...files], cwd, runOptions);
+  }
+  if (!amend && !allowEmpty) {
+    const staged = await getDiff(cwd, { staged: true, includePatch: false });
+    if (staged.files.length === 0) {
+      throw new Error(
+        "Nothing is staged to commit; list the files to stage in files"
+      );
+    }
+  }
+
+  const args = ["commit", "--message", message];
+  if (author !== undefined) {
+    args.push(`--author=${author.trim()}`);
+  }
+  if (amend) {
+    args.push("--amend");
+  }
+  if (allowEmpty) {
+    args.push("--allow-empty");
+  }
+  await runGit(args, cwd, runOptions);
+
+  const [commit] = await getLog(cwd, { range: "HEAD", maxCount: 1 });
+  const diff = await getDiff(cwd, { commit: commit.hash, includePatch: false });
+  return { commit, diff, amended: amend };
+}
+
+const gitUtils: GitUtils = {
+  runGit,
+  checkRevision,
+  getStatus,
+  getLog,
+  getDiff,
+  showCommit,
+  showFile,
+  blameFile,
+  getFileHistory,
+  listBranches,
+  listStashes,
+  getConventionalCommitTypes,
+  checkConventionalCommit,
+  createCommit,
+};
+
+export default gitUtils;
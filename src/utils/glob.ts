@@ -0,0 +1,136 @@
+/**
+ * Glob utility functions for CodeTools MCP
+ *
+ * Provides minimal glob matching (`*`, `**`, `?`, `[...]`, `{a,b}`) without
+ * pulling in an external dependency. Paths are always matched with forward
+ * slashes so patterns behave the same on every platform.
+ */
+
+import { GlobUtils } from "../types/index.js";
+
+// Compiled patterns, keyed by the glob source
+const regExpCache = new Map<string, RegExp>();
+
+/**
+ * Convert a path to use forward slashes
+ * @param {string} filePath - The path to convert
+ * @returns {string} The path with forward slashes
+ */
+export function toPosixPath(filePath: string): string {
+  return filePath.replace(/\\/g, "/");
+}
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ * @param {string} pattern - The glob pattern
+ * @returns {RegExp} The equivalent regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regExpCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = "";
+  let groupDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    switch (char) {
+      case "*":
+        if (pattern[i + 1] === "*") {
+          // "**/" matches zero or more directories, a trailing "**" matches anything
+          if (pattern[i + 2] === "/") {
+            source += "(?:.*/)?";
+            i += 2;
+          } else {
+            source += ".*";
+            i += 1;
+          }
+        } else {
+          source += "[^/]*";
+        }
+        break;
+      case "?":
+        source += "[^/]";
+        break;
+      case "[": {
+        const end = pattern.indexOf("]", i + 1);
+        if (end === -1) {
+          source += "\\[";
+        } else {
+          let charClass = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+          if (charClass.startsWith("!")) {
+            charClass = `^${charClass.slice(1)}`;
+          }
+          source += `[${charClass}]`;
+          i = end;
+        }
+        break;
+      }
+      case "{":
+        groupDepth++;
+        source += "(?:";
+        break;
+      case "}":
+        if (groupDepth > 0) {
+          groupDepth--;
+          source += ")";
+        } else {
+          source += "\\}";
+        }
+        break;
+      case ",":
+        source += groupDepth > 0 ? "|" : ",";
+        break;
+      default:
+        source += char.replace(/[.+^$()|\\\]]/g, "\\$&");
+    }
+  }
+
+  // Close any unbalanced brace groups so the expression stays valid
+  source += ")".repeat(groupDepth);
+
+  const regExp = new RegExp(`^${source}$`);
+  regExpCache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Test a path against a glob pattern. Patterns without a slash are matched
+ * against the last path segment only, like `.gitignore` entries.
+ * @param {string} filePath - The path to test
+ * @param {string} pattern - The glob pattern
+ * @returns {boolean} True if the path matches
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalizedPath = toPosixPath(filePath);
+  const normalizedPattern = toPosixPath(pattern);
+
+  if (!normalizedPattern.includes("/")) {
+    const basename = normalizedPath.slice(normalizedPath.lastIndexOf("/") + 1);
+    return globToRegExp(normalizedPattern).test(basename);
+  }
+
+  return globToRegExp(normalizedPattern).test(normalizedPath);
+}
+
+/**
+ * Test a path against a list of glob patterns
+ * @param {string} filePath - The path to test
+ * @param {string[]} patterns - The glob patterns
+ * @returns {boolean} True if the path matches at least one pattern
+ */
+export function matchesAnyGlob(filePath: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(filePath, pattern));
+}
+
+const globUtils: GlobUtils = {
+  toPosixPath,
+  globToRegExp,
+  matchesGlob,
+  matchesAnyGlob,
+};
+
+export default globUtils;
@@ -0,0 +1,401 @@
+/**
+ * File history for CodeTools MCP
+ *
+ * Keeps the previous content of every file changed through the write tools
+ * so changes can be listed, restored and undone. Each workspace root has its
+ * own store: an index of changes plus content-addressed snapshots.
+ *
+ * Configuration is read from the environment:
+ * - CODE_TOOLS_HISTORY_DIR: where stores live (defaults to
+ *   ~/.code-tools-mcp/history)
+ * - CODE_TOOLS_HISTORY_MAX_BYTES: snapshot size cap per workspace; the
+ *   oldest changes are pruned beyond it (default 100 MiB, 0 disables history)
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import {
+  ChangeRecordOptions,
+  FileChangeRecord,
+  FileVersion,
+  HistoryChange,
+  HistoryFileEntry,
+  HistoryUtils,
+} from "../types/index.js";
+import { hashContent, writeFileAtomic } from "./file.js";
+import { toPosixPath } from "./glob.js";
+import { getResolvedRoots, isWithin } from "./path-policy.js";
+import logger from "./logger.js";
+
+const HISTORY_DIR =
+  process.env.CODE_TOOLS_HISTORY_DIR ||
+  path.join(os.homedir(), ".code-tools-mcp", "history");
+
+const configuredMaxBytes = parseInt(
+  process.env.CODE_TOOLS_HISTORY_MAX_BYTES || "",
+  10
+);
+const MAX_HISTORY_BYTES = Number.isNaN(configuredMaxBytes)
+  ? 100 * 1024 * 1024
+  : configuredMaxBytes;
+
+/**
+ * The history of one workspace root, oldest change first
+ */
+interface HistoryIndex {
+  root: string;
+  changes: HistoryChange[];
+}
+
+// Index updates are read-modify-write, so run them one at a time
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a task after every previously queued index update has finished
+ * @param {() => Promise<T>} task - The task
+ * @returns {Promise<T>} The task's result
+ */
+function withIndexLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = indexQueue.then(task, task);
+  indexQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Check whether history is recorded at all
+ * @returns {boolean} True unless the size cap is 0
+ */
+export function isHistoryEnabled(): boolean {
+  return MAX_HISTORY_BYTES > 0;
+}
+
+/**
+ * Get the store directory of a workspace root
+ * @param {string} root - Resolved workspace root
+ * @returns {string} The store directory
+ */
+function storeDir(root: string): string {
+  const key = createHash("sha256").update(root).digest("hex").slice(0, 16);
+  return path.join(HISTORY_DIR, key);
+}
+
+/**
+ * Load the history index of a workspace root
+ * @param {string} root - Resolved workspace root
+ * @returns {Promise<HistoryIndex>} The index, empty if none was saved yet
+ */
+async function loadIndex(root: string): Promise<HistoryIndex> {
+  try {
+    const data = await fs.readFile(path.join(storeDir(root), "index.json"));
+    return JSON.parse(data.toString("utf8")) as HistoryIndex;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { root, changes: [] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Save a history index, replacing the previous one atomically
+ * @param {HistoryIndex} index - The index
+ */
+async function saveIndex(index: HistoryIndex): Promise<void> {
+  const dir = storeDir(index.root);
+  await fs.mkdir(dir, { recursive: true });
+  await writeFileAtomic(path.join(dir, "index.json"), JSON.stringify(index));
+}
+
+/**
+ * Collect the snapshots an index still refers to
+ * @param {HistoryIndex} index - The index
+ * @returns {Map<string, number>} Snapshot hashes and their sizes
+ */
+function referencedSnapshots(index: HistoryIndex): Map<string, number> {
+  const snapshots = new Map<string, number>();
+  index.changes.forEach((change) =>
+    change.files.forEach((file) => {
+      if (file.before && file.stored) {
+        snapshots.set(file.before, file.beforeSize);
+      }
+    })
+  );
+  return snapshots;
+}
+
+/**
+ * Drop the oldest changes until the snapshots fit the size cap, then delete
+ * snapshots nothing refers to any more
+ * @param {HistoryIndex} index - The index, modified in place
+ */
+async function pruneIndex(index: HistoryIndex): Promise<void> {
+  const totalSize = (snapshots: Map<string, number>): number =>
+    [...snapshots.values()].reduce((sum, size) => sum + size, 0);
+
+  let snapshots = referencedSnapshots(index);
+  let pruned = 0;
+  while (index.changes.length > 1 && totalSize(snapshots) > MAX_HISTORY_BYTES) {
+    index.changes.shift();
+    snapshots = referencedSnapshots(index);
+    pruned++;
+  }
+  if (pruned === 0) {
+    return;
+  }
+
+  const objectsDir = path.join(storeDir(index.root), "objects");
+  const stored = await fs.readdir(objectsDir).catch(() => [] as string[]);
+  for (const name of stored) {
+    if (!snapshots.has(name)) {
+      await fs.rm(path.join(objectsDir, name), { force: true });
+    }
+  }
+  logger.debug(`Pruned ${pruned} change(s) from history`, {
+    root: index.root,
+  });
+}
+
+/**
+ * Store a snapshot unless an identical one is already stored
+ * @param {string} root - Resolved workspace root
+ * @param {string} hash - Hash of the content
+ * @param {Buffer} content - The content
+ */
+async function writeSnapshot(
+  root: string,
+  hash: string,
+  content: Buffer
+): Promise<void> {
+  const objectsDir = path.join(storeDir(root), "objects");
+  await fs.mkdir(objectsDir, { recursive: true });
+  try {
+    await fs.writeFile(path.join(objectsDir, hash), content, { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Find the workspace root that contains a path
+ * @param {string} filePath - Resolved path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<string|undefined>} The root, if any contains the path
+ */
+async function findRoot(
+  filePath: string,
+  sessionId?: string
+): Promise<string | undefined> {
+  const roots = await getResolvedRoots(sessionId);
+  return roots.find((root) => isWithin(root, filePath));
+}
+
+/**
+ * Record the previous content of files that were just written. Failures are
+ * logged rather than thrown because the write itself already happened.
+ * @param {FileChangeRecord[]} records - Paths with their content before and after
+ * @param {string} [sessionId] - The client's session ID
+ * @param {ChangeRecordOptions} [options] - Operation name and undo link
+ * @returns {Promise<string|undefined>} The change ID, if anything was recorded
+ */
+export async function recordChange(
+  records: FileChangeRecord[],
+  sessionId?: string,
+  options: ChangeRecordOptions = {}
+): Promise<string | undefined> {
+  const changed = records.filter(
+    ({ before, after }) =>
+      before !== after && !(before && after && before.equals(after))
+  );
+  if (!isHistoryEnabled() || changed.length === 0) {
+    return undefined;
+  }
+
+  const id = `${Date.now().toString(36)}-${randomUUID().slice(0, 4)}`;
+  try {
+    const roots = await getResolvedRoots(sessionId);
+    const byRoot = new Map<string, FileChangeRecord[]>();
+    changed.forEach((record) => {
+      const root = roots.find((candidate) => isWithin(candidate, record.path));
+      if (root) {
+        byRoot.set(root, [...(byRoot.get(root) ?? []), record]);
+      }
+    });
+
+    for (const [root, rootRecords] of byRoot) {
+      await withIndexLock(async () => {
+        const files: HistoryFileEntry[] = [];
+        for (const { path: filePath, before, after } of rootRecords) {
+          const beforeHash = before ? hashContent(before) : null;
+          // Content larger than the whole cap is listed but cannot be restored
+          const stored = !before || before.length <= MAX_HISTORY_BYTES;
+          if (before && beforeHash && stored) {
+            await writeSnapshot(root, beforeHash, before);
+          }
+          files.push({
+            path: toPosixPath(path.relative(root, filePath)),
+            before: beforeHash,
+            beforeSize: before?.length ?? 0,
+            after: after ? hashContent(after) : null,
+            stored,
+          });
+        }
+
+        const index = await loadIndex(root);
+        index.changes.push({
+          id,
+          timestamp: new Date().toISOString(),
+          operation: options.operation ?? "write",
+          files,
+          ...(options.undoOf ? { undoOf: options.undoOf } : {}),
+        });
+        await pruneIndex(index);
+        await saveIndex(index);
+      });
+    }
+    return id;
+  } catch (error) {
+    logger.warn("Failed to record file history", {
+      error: (error as Error).message,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * List the recorded versions of a file, newest first. Each version is the
+ * content the file had before the change that replaced it.
+ * @param {string} filePath - Resolved path
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<FileVersion[]>} The versions
+ */
+export async function listFileHistory(
+  filePath: string,
+  sessionId?: string
+): Promise<FileVersion[]> {
+  const root = await findRoot(filePath, sessionId);
+  if (!root) {
+    return [];
+  }
+
+  const relativePath = toPosixPath(path.relative(root, filePath));
+  const index = await loadIndex(root);
+  const versions: FileVersion[] = [];
+  index.changes.forEach((change) => {
+    const file = change.files.find((entry) => entry.path === relativePath);
+    if (file) {
+      versions.push({
+        changeId: change.id,
+        timestamp: change.timestamp,
+        operation: change.operation,
+        exists: file.before !== null,
+        size: file.beforeSize,
+        stored: file.stored,
+        undone: Boolean(change.undone),
+      });
+    }
+  });
+  return versions.reverse();
+}
+
+/**
+ * Get the content a file had before a recorded change
+ * @param {string} filePath - Resolved path
+ * @param {string} changeId - The change ID
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<Buffer|null>} The content, or null if the file did not exist
+ */
+export async function getFileVersion(
+  filePath: string,
+  changeId: string,
+  sessionId?: string
+): Promise<Buffer | null> {
+  const root = await findRoot(filePath, sessionId);
+  const relativePath = root ? toPosixPath(path.relative(root, filePath)) : "";
+  const index = root ? await loadIndex(root) : { changes: [] };
+  const file = index.changes
+    .find((change) => change.id === changeId)
+    ?.files.find((entry) => entry.path === relativePath);
+
+  if (!root || !file) {
+    throw new Error(`Change ${changeId} did not modify ${filePath}`);
+  }
+  if (file.before === null) {
+    return null;
+  }
+  if (!file.stored) {
+    throw new Error(
+      `The version of ${filePath} before change ${changeId} was too large to keep`
+    );
+  }
+
+  try {
+    return await fs.readFile(path.join(storeDir(root), "objects", file.before));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(
+        `The version of ${filePath} before change ${changeId} has been pruned`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find the most recent change that can still be undone in any of the
+ * session's workspace roots. Undo operations themselves are skipped, so
+ * repeated undos walk further back.
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<{root: string, change: HistoryChange}|undefined>} The change and its root
+ */
+export async function getLastChange(
+  sessionId?: string
+): Promise<{ root: string; change: HistoryChange } | undefined> {
+  let latest: { root: string; change: HistoryChange } | undefined;
+  for (const root of await getResolvedRoots(sessionId)) {
+    const index = await loadIndex(root);
+    const candidate = [...index.changes]
+      .reverse()
+      .find((change) => !change.undone && !change.undoOf);
+    if (
+      candidate &&
+      (!latest || candidate.timestamp > latest.change.timestamp)
+    ) {
+      latest = { root, change: candidate };
+    }
+  }
+  return latest;
+}
+
+/**
+ * Mark a change as undone so it is not undone twice
+ * @param {string} root - Resolved workspace root
+ * @param {string} changeId - The change ID
+ */
+export async function markUndone(
+  root: string,
+  changeId: string
+): Promise<void> {
+  await withIndexLock(async () => {
+    const index = await loadIndex(root);
+    const change = index.changes.find((entry) => entry.id === changeId);
+    if (change) {
+      change.undone = true;
+      await saveIndex(index);
+    }
+  });
+}
+
+const historyUtils: HistoryUtils = {
+  isHistoryEnabled,
+  recordChange,
+  listFileHistory,
+  getFileVersion,
+  getLastChange,
+  markUndone,
+};
+
+export default historyUtils;
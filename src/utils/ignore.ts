@@ -0,0 +1,177 @@
+/**
+ * Ignore file utility functions for CodeTools MCP
+ *
+ * Implements the `.gitignore` rules used when walking a workspace: patterns
+ * are anchored to the directory of the file that declares them, later rules
+ * override earlier ones, `!` re-includes a path and a trailing `/` only
+ * matches directories. Like git, a file inside an ignored directory cannot be
+ * re-included.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { IgnoreContext, IgnoreRule, IgnoreUtils } from "../types/index.js";
+import { globToRegExp, toPosixPath } from "./glob.js";
+
+// Directories skipped whenever ignore files are honoured
+export const DEFAULT_IGNORED_DIRECTORIES = [".git", "node_modules"];
+
+/**
+ * Parse the content of a `.gitignore` file
+ * @param {string} content - The file content
+ * @param {string} [base=""] - Directory of the file, relative to the walk root, with forward slashes
+ * @returns {IgnoreRule[]} The rules, in file order
+ */
+export function parseIgnoreFile(content: string, base = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped with a backslash
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+
+    let negated = false;
+    if (line.startsWith("!")) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith("\\#") || line.startsWith("\\!")) {
+      line = line.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith("/")) {
+      directoryOnly = true;
+      line = line.slice(0, -1);
+    }
+
+    // A slash anywhere but the end anchors the pattern to its directory
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "").replace(/\\(.)/g, "$1");
+    if (line === "") {
+      continue;
+    }
+
+    rules.push({
+      pattern: line,
+      regExp: globToRegExp(anchored ? line : `**/${line}`),
+      base,
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Check a path against ignore rules. The last matching rule decides.
+ * @param {string} relativePath - Path relative to the walk root, with forward slashes
+ * @param {boolean} isDirectory - Whether the path is a directory
+ * @param {IgnoreRule[]} rules - The rules that apply, outermost file first
+ * @returns {boolean} True if the path is ignored
+ */
+export function isIgnored(
+  relativePath: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[]
+): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+    const localPath = rule.base
+      ? relativePath.slice(rule.base.length + 1)
+      : relativePath;
+    if (rule.regExp.test(localPath)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Read the ignore rules a directory declares in its `.gitignore`
+ * @param {string} dirPath - Absolute directory path
+ * @param {string} base - The directory relative to the walk root, with forward slashes
+ * @returns {Promise<IgnoreRule[]>} The rules, or none if there is no file
+ */
+export async function loadIgnoreFile(
+  dirPath: string,
+  base: string
+): Promise<IgnoreRule[]> {
+  try {
+    const content = await fs.readFile(path.join(dirPath, ".gitignore"), "utf8");
+    return parseIgnoreFile(content, base);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find the ignore rules that already apply at the start of a walk. Inside a
+ * git repository these are `.git/info/exclude` and the `.gitignore` files of
+ * the repository root and every directory down to the start; rule bases and
+ * the paths matched against them are then relative to the repository root.
+ * @param {string} startDir - Absolute path the walk starts from
+ * @returns {Promise<IgnoreContext>} The directory paths are matched relative to, and its rules
+ */
+export async function loadInheritedRules(
+  startDir: string
+): Promise<IgnoreContext> {
+  let repositoryRoot: string | undefined;
+  for (let dir = startDir; ; dir = path.dirname(dir)) {
+    const hasGitDir = await fs
+      .stat(path.join(dir, ".git"))
+      .then(() => true)
+      .catch(() => false);
+    if (hasGitDir) {
+      repositoryRoot = dir;
+      break;
+    }
+    if (path.dirname(dir) === dir) {
+      break;
+    }
+  }
+  if (!repositoryRoot) {
+    return { root: startDir, rules: [] };
+  }
+
+  const exclude = await fs
+    .readFile(path.join(repositoryRoot, ".git", "info", "exclude"), "utf8")
+    .catch(() => "");
+  const rules = parseIgnoreFile(exclude);
+
+  // The start directory's own file is read by the walk itself
+  const ancestors: string[] = [];
+  for (let dir = startDir; dir !== repositoryRoot; ) {
+    dir = path.dirname(dir);
+    ancestors.unshift(dir);
+  }
+  for (const dir of ancestors) {
+    rules.push(
+      ...(await loadIgnoreFile(
+        dir,
+        toPosixPath(path.relative(repositoryRoot, dir))
+      ))
+    );
+  }
+
+  return { root: repositoryRoot, rules };
+}
+
+const ignoreUtils: IgnoreUtils = {
+  parseIgnoreFile,
+  isIgnored,
+  loadIgnoreFile,
+  loadInheritedRules,
+};
+
+export default ignoreUtils;
@@ -5,14 +5,66 @@
 import logger from "./logger.js";
 import file from "./file.js";
 import process from "./process.js";
+import glob from "./glob.js";
+import pathPolicy from "./path-policy.js";
+import commandPolicy from "./command-policy.js";
+import confirmation from "./confirmation.js";
+import patch from "./patch.js";
+import changeSet from "./changeset.js";
+import history from "./history.js";
+import ignore from "./ignore.js";
+import search from "./search.js";
+import tree from "./tree.js";
+import progress from "./progress.js";
+import jobs from "./jobs.js";
+import git from "./git.js";
+import sandbox from "./sandbox.js";
+import conflict from "./conflict.js";
+import languageService from "./language-service.js";
 import { Utils } from "../types/index.js";
 
-export { logger, file, process };
+export {
+  logger,
+  file,
+  process,
+  glob,
+  pathPolicy,
+  commandPolicy,
+  confirmation,
+  patch,
+  changeSet,
+  history,
+  ignore,
+  search,
+  tree,
+  progress,
+  jobs,
+  git,
+  sandbox,
+  conflict,
+  languageService,
+};
 
 const utils: Utils = {
   logger,
   file,
   process,
+  glob,
+  pathPolicy,
+  commandPolicy,
+  confirmation,
+  patch,
+  changeSet,
+  history,
+  ignore,
+  search,
+  tree,
+  progress,
+  jobs,
+  git,
+  sandbox,
+  conflict,
+  languageService,
 };
 
 export default utils;
@@ -0,0 +1,349 @@
+/**
+ * Background job utility functions for CodeTools MCP
+ *
+ * Runs long-lived commands such as dev servers and watchers without blocking
+ * the request that started them. Each job keeps the most recent part of its
+ * output in a ring buffer addressed by absolute offsets, so a client can
+ * poll for new output with the offset of its last read. Jobs belong to the
+ * session that started them and are stopped when it closes, or when the
+ * server exits.
+ *
+ * Configured through environment variables:
+ * - CODE_TOOLS_JOB_LOG_SIZE: characters of output kept per job (1048576)
+ * - CODE_TOOLS_MAX_JOBS: running jobs allowed per session (10)
+ */
+
+import { randomUUID } from "crypto";
+import {
+  JobInfo,
+  JobOutput,
+  JobUtils,
+  ProcessControl,
+  StartJobOptions,
+} from "../types/index.js";
+import { checkCommand } from "./command-policy.js";
+import { formatCommandLine, runProcess } from "./process.js";
+import logger from "./logger.js";
+
+/**
+ * A background job and its output log
+ */
+interface Job {
+  info: JobInfo;
+  abort: AbortController;
+  control?: ProcessControl;
+  done: Promise<void>;
+  // Retained output and the absolute offset of its first character
+  log: string;
+  logStart: number;
+}
+
+const LOG_SIZE =
+  parseInt(process.env.CODE_TOOLS_JOB_LOG_SIZE || "", 10) || 1024 * 1024;
+
+const MAX_JOBS = parseInt(process.env.CODE_TOOLS_MAX_JOBS || "", 10) || 10;
+
+// Finished jobs kept per session for their exit status and output
+const MAX_FINISHED_JOBS = 20;
+
+// Jobs by session ID ("" for stdio), then by job ID, in start order
+const jobs = new Map<string, Map<string, Job>>();
+
+let exitHandlerInstalled = false;
+
+/**
+ * Find a job of a session, failing if there is none with that ID
+ * @param {string} jobId - The job ID
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Job} The job
+ */
+function requireJob(jobId: string, sessionId?: string): Job {
+  const job = jobs.get(sessionId ?? "")?.get(jobId);
+  if (!job) {
+    throw new Error(`No job with ID '${jobId}'. Use list_jobs to see jobs.`);
+  }
+  return job;
+}
+
+/**
+ * Append output to a job's log, dropping the oldest output beyond the limit
+ * @param {Job} job - The job
+ * @param {string} chunk - New output
+ */
+function appendOutput(job: Job, chunk: string): void {
+  job.log += chunk;
+  if (job.log.length > LOG_SIZE) {
+    const dropped = job.log.length - LOG_SIZE;
+    job.log = job.log.slice(dropped);
+    job.logStart += dropped;
+  }
+  job.info.outputLength = job.logStart + job.log.length;
+}
+
+/**
+ * Drop the oldest finished jobs of a session beyond the retention limit
+ * @param {Map<string, Job>} sessionJobs - The session's jobs
+ */
+function pruneFinishedJobs(sessionJobs: Map<string, Job>): void {
+  const finished = [...sessionJobs.values()].filter(
+    (job) => job.info.status !== "running"
+  );
+  for (const job of finished.slice(
+    0,
+    Math.max(0, finished.length - MAX_FINISHED_JOBS)
+  )) {
+    sessionJobs.delete(job.info.id);
+  }
+}
+
+/**
+ * Kill every running job's process group when the server process exits.
+ * Only synchronous calls work here, so there is no grace period.
+ */
+function installExitHandler(): void {
+  if (exitHandlerInstalled) {
+    return;
+  }
+  exitHandlerInstalled = true;
+  process.once("exit", () => {
+    for (const sessionJobs of jobs.values()) {
+      for (const job of sessionJobs.values()) {
+        if (job.info.status === "running" && job.info.pid !== undefined) {
+          try {
+            process.kill(-job.info.pid, "SIGKILL");
+          } catch (error) {
+            // Already gone
+          }
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Start a command as a background job. The command runs without a shell and
+ * with no timeout unless one is given.
+ * @param {string} command - The executable
+ * @param {string[]} args - Arguments for the executable
+ * @param {StartJobOptions} [options] - Working directory, environment, name and timeout
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {JobInfo} The started job
+ * @throws {CommandPolicyError} If the command policy rejects the command
+ */
+export function startJob(
+  command: string,
+  args: string[],
+  options: StartJobOptions = {},
+  sessionId?: string
+): JobInfo {
+  const key = sessionId ?? "";
+  const sessionJobs = jobs.get(key) ?? new Map<string, Job>();
+  const running = [...sessionJobs.values()].filter(
+    (job) => job.info.status === "running"
+  ).length;
+  if (running >= MAX_JOBS) {
+    throw new Error(
+      `Too many running jobs (${running}). Stop a job before starting another.`
+    );
+  }
+  // Rejected here rather than as a failed job
+  checkCommand(command, args, {
+    cwd: options.cwd,
+    approvedRules: options.approvedRules,
+  });
+  jobs.set(key, sessionJobs);
+  installExitHandler();
+
+  const job: Job = {
+    info: {
+      id: randomUUID().slice(0, 8),
+      name: options.name,
+      command: formatCommandLine([command, ...args]),
+      cwd: options.cwd,
+      status: "running",
+      startedAt: new Date().toISOString(),
+      outputLength: 0,
+    },
+    abort: new AbortController(),
+    done: Promise.resolve(),
+    log: "",
+    logStart: 0,
+  };
+
+  job.done = runProcess(command, args, {
+    cwd: options.cwd,
+    env: options.env,
+    inheritEnv: options.inheritEnv,
+    approvedRules: options.approvedRules,
+    allowNonZeroExitCode: true,
+    timeoutMs: options.timeoutMs ?? 0,
+    // The log keeps the output, so runProcess does not need to
+    maxOutputBytes: 0,
+    keepStdinOpen: true,
+    signal: job.abort.signal,
+    onOutput: (_stream, chunk) => appendOutput(job, chunk),
+    onSpawn: (control) => {
+      job.control = control;
+      job.info.pid = control.pid;
+    },
+  }).then(
+    (result) => {
+      job.info.status = result.aborted
+        ? "stopped"
+        : result.timedOut
+        ? "timed out"
+        : "exited";
+      job.info.exitCode = result.code;
+      job.info.signal = result.signal;
+    },
+    (error) => {
+      job.info.status = "failed";
+      job.info.error = (error as Error).message;
+    }
+  );
+  void job.done.then(() => {
+    job.info.endedAt = new Date().toISOString();
+    job.control = undefined;
+    logger.info(`Job ${job.info.id} ${job.info.status}`, {
+      command: job.info.command,
+      exitCode: job.info.exitCode,
+    });
+    pruneFinishedJobs(sessionJobs);
+  });
+
+  sessionJobs.set(job.info.id, job);
+  logger.info(`Started job ${job.info.id}: ${job.info.command}`, {
+    sessionId,
+    pid: job.info.pid,
+  });
+  return { ...job.info };
+}
+
+/**
+ * List the jobs of a session, oldest first
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {JobInfo[]} The jobs
+ */
+export function listJobs(sessionId?: string): JobInfo[] {
+  return [...(jobs.get(sessionId ?? "")?.values() ?? [])].map((job) => ({
+    ...job.info,
+  }));
+}
+
+/**
+ * Read a job's output from an offset. Output before the start of the ring
+ * buffer is gone; reading from there starts at the oldest retained output.
+ * @param {string} jobId - The job ID
+ * @param {number} [offset=0] - Absolute offset to read from
+ * @param {number} [maxLength=20000] - Maximum number of characters to return
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {JobOutput} The output and the offset to continue from
+ */
+export function readJobOutput(
+  jobId: string,
+  offset = 0,
+  maxLength = 20000,
+  sessionId?: string
+): JobOutput {
+  const job = requireJob(jobId, sessionId);
+  const start = Math.max(offset, job.logStart);
+  const output = job.log.slice(
+    start - job.logStart,
+    start - job.logStart + maxLength
+  );
+  const nextOffset = start + output.length;
+  return {
+    job: { ...job.info },
+    output,
+    offset: start,
+    nextOffset,
+    missed: start - Math.min(offset, start),
+    more: nextOffset < job.logStart + job.log.length,
+  };
+}
+
+/**
+ * Write to a running job's standard input
+ * @param {string} jobId - The job ID
+ * @param {string} input - The text to write
+ * @param {boolean} [close=false] - Close standard input afterwards
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {JobInfo} The job
+ */
+export function writeJobStdin(
+  jobId: string,
+  input: string,
+  close = false,
+  sessionId?: string
+): JobInfo {
+  const job = requireJob(jobId, sessionId);
+  if (job.info.status !== "running" || !job.control) {
+    throw new Error(`Job '${jobId}' is not running (${job.info.status})`);
+  }
+  if (input && !job.control.writeStdin(input)) {
+    throw new Error(`Standard input of job '${jobId}' is closed`);
+  }
+  if (close) {
+    job.control.endStdin();
+  }
+  return { ...job.info };
+}
+
+/**
+ * Stop a job: its process group gets SIGTERM, and SIGKILL if it is still
+ * running after the grace period. Resolves once the job has ended.
+ * @param {string} jobId - The job ID
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<JobInfo>} The stopped job
+ */
+export async function stopJob(
+  jobId: string,
+  sessionId?: string
+): Promise<JobInfo> {
+  const job = requireJob(jobId, sessionId);
+  if (job.info.status === "running") {
+    job.abort.abort();
+    await job.done;
+  }
+  return { ...job.info };
+}
+
+/**
+ * Stop every job of a session and forget them, e.g. when the session closes
+ * @param {string|undefined} sessionId - The client's session ID
+ * @returns {Promise<void>}
+ */
+export async function stopSessionJobs(
+  sessionId: string | undefined
+): Promise<void> {
+  const sessionJobs = jobs.get(sessionId ?? "");
+  if (!sessionJobs) {
+    return;
+  }
+  jobs.delete(sessionId ?? "");
+  const running = [...sessionJobs.values()].filter(
+    (job) => job.info.status === "running"
+  );
+  if (running.length > 0) {
+    logger.info(`Stopping ${running.length} job(s) of closed session`, {
+      sessionId,
+    });
+  }
+  await Promise.all(
+    running.map((job) => {
+      job.abort.abort();
+      return job.done;
+    })
+  );
+}
+
+const jobUtils: JobUtils = {
+  startJob,
+  listJobs,
+  readJobOutput,
+  writeJobStdin,
+  stopJob,
+  stopSessionJobs,
+};
+
+export default jobUtils;
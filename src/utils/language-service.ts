@@ -0,0 +1,982 @@
+/**
+ * TypeScript language service utility functions for CodeTools MCP
+ *
+ * Answers symbol questions about TypeScript and JavaScript files with the
+ * compiler's language service: one service per project, found like tsserver
+ * does through the nearest tsconfig.json or jsconfig.json, or inferred for
+ * the file's directory when none includes the file. Files are re-read when
+ * their modification time changes, and writes through the change set
+ * module invalidate them right away, so new and deleted files also update
+ * the project's file list. Renames and moves are returned as edit sets,
+ * the old and new text of each file, for the caller to preview and write.
+ * TypeScript is only loaded on first use.
+ */
+
+import fs from "fs";
+import path from "path";
+import type ts from "typescript";
+import {
+  CodeDefinition,
+  CodeEditSet,
+  CodeFileEdit,
+  CodeHoverInfo,
+  CodeLocation,
+  CodeOutline,
+  CodeOutlineItem,
+  CodePosition,
+  CodeReference,
+  CodeReferencesResult,
+  FindReferencesOptions,
+  LanguageServiceUtils,
+  RenameSymbolOptions,
+} from "../types/index.js";
+import { decodeContent } from "./file.js";
+import { isWithin } from "./path-policy.js";
+import logger from "./logger.js";
+
+/**
+ * A project with its language service
+ */
+interface Project {
+  key: string;
+  configPath?: string;
+  rootDir: string;
+  options: ts.CompilerOptions;
+  fileNames: Set<string>;
+  // Files outside the config's file list, for inferred projects
+  extraFiles: Set<string>;
+  stale: boolean;
+  service: ts.LanguageService;
+}
+
+// Projects kept at once; the least recently used is dropped
+const MAX_PROJECTS = 5;
+
+// Files the language service can read
+const SOURCE_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/i;
+
+// Options for files without a project, as tsserver infers them
+const INFERRED_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  checkJs: false,
+  allowNonTsExtensions: true,
+  jsx: 1, // Preserve
+  target: 99, // ESNext
+  module: 99, // ESNext
+  moduleResolution: 100, // Bundler
+  esModuleInterop: true,
+  skipLibCheck: true,
+};
+
+// Outline items whose members are listed
+const MEMBER_CONTAINERS = new Set([
+  "class",
+  "local class",
+  "interface",
+  "enum",
+  "module",
+]);
+
+// Outline items listed inside functions and variables
+const NESTED_DECLARATIONS = new Set([
+  "class",
+  "local class",
+  "function",
+  "local function",
+  "interface",
+  "enum",
+  "type",
+]);
+
+// Anonymous functions, which the navigation tree names after their call
+const ANONYMOUS = /^<.*>$|\) callback$/;
+
+// The refactoring behind move_symbol_to_file, and its only action
+const MOVE_TO_FILE = "Move to file";
+
+// Projects by config file path, or by directory for inferred ones
+const projects = new Map<string, Project>();
+
+// Bumped whenever a write through our tools touches a file
+const generations = new Map<string, number>();
+
+// File contents by path, with the version they were read at
+const snapshots = new Map<
+  string,
+  { version: string; snapshot: ts.IScriptSnapshot }
+>();
+
+let typescript: Promise<typeof ts> | undefined;
+let documentRegistry: ts.DocumentRegistry | undefined;
+
+/**
+ * Load the TypeScript compiler once
+ * @returns {Promise<typeof ts>} The compiler API
+ */
+function loadTypeScript(): Promise<typeof ts> {
+  typescript ??= import("typescript").then((module) => module.default);
+  return typescript;
+}
+
+/**
+ * Get the version of a file the language service sees
+ * @param {string} fileName - Absolute path
+ * @returns {string} A version that changes when the file does
+ */
+function getScriptVersion(fileName: string): string {
+  const generation = generations.get(fileName) ?? 0;
+  try {
+    const stats = fs.statSync(fileName);
+    return `${generation}:${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return `${generation}:missing`;
+  }
+}
+
+/**
+ * Get the content of a file for the language service
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {string} fileName - Absolute path
+ * @returns {ts.IScriptSnapshot|undefined} The content, or undefined if the file is missing
+ */
+function getScriptSnapshot(
+  tsApi: typeof ts,
+  fileName: string
+): ts.IScriptSnapshot | undefined {
+  const version = getScriptVersion(fileName);
+  const cached = snapshots.get(fileName);
+  if (cached?.version === version) {
+    return cached.snapshot;
+  }
+  try {
+    // Decoded as the file tools do, so edits apply to the same text
+    const decoded = decodeContent(fs.readFileSync(fileName));
+    if (!decoded) {
+      return undefined;
+    }
+    const snapshot = tsApi.ScriptSnapshot.fromString(decoded.content);
+    snapshots.set(fileName, { version, snapshot });
+    return snapshot;
+  } catch {
+    snapshots.delete(fileName);
+    return undefined;
+  }
+}
+
+/**
+ * Read a project's compiler options and file list from its config file
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {Project} project - The project
+ */
+function loadProjectConfig(tsApi: typeof ts, project: Project): void {
+  project.stale = false;
+  if (!project.configPath) {
+    return;
+  }
+  const parsed = tsApi.getParsedCommandLineOfConfigFile(
+    project.configPath,
+    {},
+    {
+      ...tsApi.sys,
+      onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+        logger.warn(`Cannot read ${project.configPath}`, {
+          error: tsApi.flattenDiagnosticMessageText(
+            diagnostic.messageText,
+            "\n"
+          ),
+        });
+      },
+    }
+  );
+  project.options = parsed?.options ?? {};
+  project.fileNames = new Set(
+    (parsed?.fileNames ?? []).map((fileName) => path.resolve(fileName))
+  );
+}
+
+/**
+ * Create a project and its language service
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {string} key - The project's key
+ * @param {string} rootDir - The directory module names are resolved from
+ * @param {string} [configPath] - The tsconfig.json or jsconfig.json
+ * @returns {Project} The project
+ */
+function createProject(
+  tsApi: typeof ts,
+  key: string,
+  rootDir: string,
+  configPath?: string
+): Project {
+  documentRegistry ??= tsApi.createDocumentRegistry();
+  const project = {
+    key,
+    configPath,
+    rootDir,
+    options: INFERRED_OPTIONS,
+    fileNames: new Set<string>(),
+    extraFiles: new Set<string>(),
+    stale: true,
+  } as Project;
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => project.options,
+    getScriptFileNames: () => [...project.fileNames, ...project.extraFiles],
+    getScriptVersion,
+    getScriptSnapshot: (fileName) => getScriptSnapshot(tsApi, fileName),
+    getCurrentDirectory: () => project.rootDir,
+    getDefaultLibFileName: (options) => tsApi.getDefaultLibFilePath(options),
+    fileExists: tsApi.sys.fileExists,
+    readFile: tsApi.sys.readFile,
+    readDirectory: tsApi.sys.readDirectory,
+    directoryExists: tsApi.sys.directoryExists,
+    getDirectories: tsApi.sys.getDirectories,
+    realpath: tsApi.sys.realpath,
+    useCaseSensitiveFileNames: () => tsApi.sys.useCaseSensitiveFileNames,
+  };
+  project.service = tsApi.createLanguageService(host, documentRegistry);
+  loadProjectConfig(tsApi, project);
+  logger.info(`Created TypeScript project ${key}`, {
+    files: project.fileNames.size,
+  });
+  return project;
+}
+
+/**
+ * Get a project by key, creating it if needed, and mark it recently used
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {string} key - The project's key
+ * @param {string} rootDir - The directory module names are resolved from
+ * @param {string} [configPath] - The tsconfig.json or jsconfig.json
+ * @returns {Project} The project, with its config up to date
+ */
+function useProject(
+  tsApi: typeof ts,
+  key: string,
+  rootDir: string,
+  configPath?: string
+): Project {
+  let project = projects.get(key);
+  if (project) {
+    projects.delete(key);
+    if (project.stale) {
+      loadProjectConfig(tsApi, project);
+    }
+  } else {
+    project = createProject(tsApi, key, rootDir, configPath);
+  }
+  projects.set(key, project);
+
+  for (const [oldKey, oldProject] of projects) {
+    if (projects.size <= MAX_PROJECTS) {
+      break;
+    }
+    oldProject.service.dispose();
+    projects.delete(oldKey);
+  }
+  return project;
+}
+
+/**
+ * Get the language service for a file: its tsconfig.json or jsconfig.json
+ * project if that includes it, an inferred project for its directory
+ * otherwise
+ * @param {string} filePath - Absolute path of a TypeScript or JavaScript file
+ * @returns {Promise<{tsApi: typeof ts, project: Project, sourceFile: ts.SourceFile}>} The project and the parsed file
+ * @throws {Error} If the file is not a TypeScript or JavaScript file
+ */
+async function openFile(filePath: string): Promise<{
+  tsApi: typeof ts;
+  project: Project;
+  sourceFile: ts.SourceFile;
+}> {
+  if (!SOURCE_FILE.test(filePath)) {
+    throw new Error(
+      `${filePath} is not a TypeScript or JavaScript file (.ts, .tsx, .js, .jsx, .mts, .cts, .mjs, .cjs)`
+    );
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  const tsApi = await loadTypeScript();
+  const dir = path.dirname(filePath);
+
+  let project: Project | undefined;
+  const configPath =
+    tsApi.findConfigFile(dir, tsApi.sys.fileExists, "tsconfig.json") ??
+    tsApi.findConfigFile(dir, tsApi.sys.fileExists, "jsconfig.json");
+  if (configPath) {
+    const resolvedConfig = path.resolve(configPath);
+    project = useProject(
+      tsApi,
+      resolvedConfig,
+      path.dirname(resolvedConfig),
+      resolvedConfig
+    );
+  }
+  if (!project?.fileNames.has(filePath)) {
+    project = useProject(tsApi, `inferred:${dir}`, dir);
+    project.extraFiles.add(filePath);
+  }
+
+  const sourceFile = project.service.getProgram()?.getSourceFile(filePath);
+  if (!sourceFile) {
+    throw new Error(`TypeScript could not load ${filePath}`);
+  }
+  return { tsApi, project, sourceFile };
+}
+
+/**
+ * Turn a 1-based line with a column or a symbol name into an offset
+ * @param {ts.SourceFile} sourceFile - The file
+ * @param {CodePosition} position - The line, and a column or a symbol on it
+ * @returns {number} The offset
+ * @throws {Error} If the line is out of range or the symbol is not on it
+ */
+function getOffset(sourceFile: ts.SourceFile, position: CodePosition): number {
+  const lineStarts = sourceFile.getLineStarts();
+  if (position.line < 1 || position.line > lineStarts.length) {
+    throw new Error(
+      `Line ${position.line} is out of range; the file has ${lineStarts.length} lines`
+    );
+  }
+  const lineStart = lineStarts[position.line - 1];
+  const lineEnd =
+    position.line < lineStarts.length
+      ? lineStarts[position.line]
+      : sourceFile.text.length;
+  const lineText = sourceFile.text.slice(lineStart, lineEnd);
+
+  if (position.column !== undefined) {
+    return lineStart + Math.min(position.column - 1, lineText.length);
+  }
+  if (position.symbol) {
+    const escaped = position.symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(lineText);
+    if (!match) {
+      throw new Error(
+        `'${position.symbol}' does not appear on line ${position.line}`
+      );
+    }
+    return lineStart + match.index;
+  }
+  throw new Error("Give the column or the symbol name on the line");
+}
+
+/**
+ * Describe a span of a file as a location with 1-based lines and columns
+ * @param {Project} project - The project the file is in
+ * @param {string} fileName - The file
+ * @param {ts.TextSpan} span - The span
+ * @returns {CodeLocation} The location, with the text of its first line
+ */
+function toLocation(
+  project: Project,
+  fileName: string,
+  span: ts.TextSpan
+): CodeLocation {
+  const filePath = path.resolve(fileName);
+  const sourceFile = project.service.getProgram()?.getSourceFile(fileName);
+  if (!sourceFile) {
+    return {
+      path: filePath,
+      line: 0,
+      column: 0,
+      endLine: 0,
+      endColumn: 0,
+    };
+  }
+  const start = sourceFile.getLineAndCharacterOfPosition(span.start);
+  const end = sourceFile.getLineAndCharacterOfPosition(
+    span.start + span.length
+  );
+  const lineStarts = sourceFile.getLineStarts();
+  const lineEnd =
+    start.line + 1 < lineStarts.length
+      ? lineStarts[start.line + 1]
+      : sourceFile.text.length;
+  return {
+    path: filePath,
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+    text: sourceFile.text.slice(lineStarts[start.line], lineEnd).trim(),
+  };
+}
+
+/**
+ * Get the classes, functions, interfaces, types, variables and members of
+ * a file, with their line spans and whether the module exports them
+ * @param {string} filePath - Absolute path of the file
+ * @returns {Promise<CodeOutline>} The outline
+ */
+export async function getOutline(filePath: string): Promise<CodeOutline> {
+  const { tsApi, project, sourceFile } = await openFile(filePath);
+  const checker = project.service.getProgram()?.getTypeChecker();
+
+  // Declarations the module exports, by where they start
+  const exportedStarts = new Set<number>();
+  const exports: string[] = [];
+  const moduleSymbol = checker?.getSymbolAtLocation(sourceFile);
+  if (checker && moduleSymbol) {
+    for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+      exports.push(symbol.name);
+      const target =
+        symbol.flags & tsApi.SymbolFlags.Alias
+          ? checker.getAliasedSymbol(symbol)
+          : symbol;
+      for (const declaration of target.declarations ?? []) {
+        if (declaration.getSourceFile() === sourceFile) {
+          exportedStarts.add(declaration.getStart(sourceFile));
+        }
+      }
+    }
+  }
+
+  const toItem = (
+    node: ts.NavigationTree,
+    topLevel: boolean
+  ): CodeOutlineItem => {
+    const span = node.spans[0];
+    const start = sourceFile.getLineAndCharacterOfPosition(span.start);
+    const end = sourceFile.getLineAndCharacterOfPosition(
+      span.start + span.length
+    );
+    const modifiers = node.kindModifiers.split(",").filter(Boolean);
+    const keep = MEMBER_CONTAINERS.has(node.kind)
+      ? (child: ts.NavigationTree) =>
+          child.kind !== "alias" && !ANONYMOUS.test(child.text)
+      : (child: ts.NavigationTree) =>
+          NESTED_DECLARATIONS.has(child.kind) && !ANONYMOUS.test(child.text);
+    return {
+      name: node.text,
+      kind: node.kind,
+      modifiers,
+      exported:
+        topLevel &&
+        (modifiers.includes("export") ||
+          node.spans.some((candidate) => exportedStarts.has(candidate.start))),
+      startLine: start.line + 1,
+      endLine: end.line + 1,
+      children: (node.childItems ?? [])
+        .filter(keep)
+        .map((child) => toItem(child, false)),
+    };
+  };
+
+  const tree = project.service.getNavigationTree(filePath);
+  const items = (tree.childItems ?? [])
+    .filter((node) => node.kind !== "alias" && !ANONYMOUS.test(node.text))
+    .map((node) => toItem(node, true))
+    .sort((a, b) => a.startLine - b.startLine);
+
+  return {
+    path: filePath,
+    project: project.configPath ?? project.rootDir,
+    exports,
+    items,
+  };
+}
+
+/**
+ * Find where the symbol at a position is defined
+ * @param {string} filePath - Absolute path of the file
+ * @param {CodePosition} position - The line, and a column or a symbol on it
+ * @returns {Promise<CodeDefinition[]>} The definitions, several for overloads or merged declarations
+ */
+export async function getDefinitions(
+  filePath: string,
+  position: CodePosition
+): Promise<CodeDefinition[]> {
+  const { project, sourceFile } = await openFile(filePath);
+  const definitions =
+    project.service.getDefinitionAtPosition(
+      filePath,
+      getOffset(sourceFile, position)
+    ) ?? [];
+  return definitions.map((definition) => ({
+    ...toLocation(project, definition.fileName, definition.textSpan),
+    name: definition.name,
+    kind: definition.kind,
+    ...(definition.containerName
+      ? { containerName: definition.containerName }
+      : {}),
+  }));
+}
+
+/**
+ * Find every reference to the symbol at a position across the project
+ * @param {string} filePath - Absolute path of the file
+ * @param {CodePosition} position - The line, and a column or a symbol on it
+ * @param {FindReferencesOptions} [options] - Whether to include declarations, and how many to return
+ * @returns {Promise<CodeReferencesResult>} The references, by file and line
+ */
+export async function findReferences(
+  filePath: string,
+  position: CodePosition,
+  options: FindReferencesOptions = {}
+): Promise<CodeReferencesResult> {
+  const { includeDeclaration = true, maxResults = 200 } = options;
+  const { project, sourceFile } = await openFile(filePath);
+  const referenced =
+    project.service.findReferences(filePath, getOffset(sourceFile, position)) ??
+    [];
+
+  // Each symbol along an import chain flags only its own declaration
+  const declarations = new Set(
+    referenced.map(
+      ({ definition }) => `${definition.fileName}:${definition.textSpan.start}`
+    )
+  );
+  const seen = new Set<string>();
+  const references: CodeReference[] = [];
+  for (const { references: entries } of referenced) {
+    for (const entry of entries) {
+      const key = `${entry.fileName}:${entry.textSpan.start}`;
+      const isDefinition = Boolean(entry.isDefinition) || declarations.has(key);
+      if (seen.has(key) || (!includeDeclaration && isDefinition)) {
+        continue;
+      }
+      seen.add(key);
+      references.push({
+        ...toLocation(project, entry.fileName, entry.textSpan),
+        isDefinition,
+        isWriteAccess: entry.isWriteAccess,
+      });
+    }
+  }
+  references.sort(
+    (a, b) =>
+      a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column
+  );
+
+  // The definition's name is its whole signature; take the identifier
+  const definition = referenced[0]?.definition;
+  const definitionText = definition
+    ? project.service
+        .getProgram()
+        ?.getSourceFile(definition.fileName)
+        ?.text.substr(definition.textSpan.start, definition.textSpan.length)
+    : undefined;
+
+  return {
+    symbol: definitionText ?? position.symbol ?? "",
+    references: references.slice(0, maxResults),
+    total: references.length,
+    truncated: references.length > maxResults,
+  };
+}
+
+/**
+ * Get the type, signature and documentation of the symbol at a position,
+ * as an editor shows them on hover
+ * @param {string} filePath - Absolute path of the file
+ * @param {CodePosition} position - The line, and a column or a symbol on it
+ * @returns {Promise<CodeHoverInfo|undefined>} The information, or undefined if there is no symbol there
+ */
+export async function getHoverInfo(
+  filePath: string,
+  position: CodePosition
+): Promise<CodeHoverInfo | undefined> {
+  const { tsApi, project, sourceFile } = await openFile(filePath);
+  const info = project.service.getQuickInfoAtPosition(
+    filePath,
+    getOffset(sourceFile, position)
+  );
+  if (!info) {
+    return undefined;
+  }
+  return {
+    kind: info.kind,
+    modifiers: info.kindModifiers.split(",").filter(Boolean),
+    signature: tsApi.displayPartsToString(info.displayParts),
+    documentation: tsApi.displayPartsToString(info.documentation),
+    tags: (info.tags ?? []).map((tag) => ({
+      name: tag.name,
+      text: tsApi.displayPartsToString(tag.text),
+    })),
+    location: toLocation(project, filePath, info.textSpan),
+  };
+}
+
+/**
+ * Apply text changes to the text they were computed from
+ * @param {string} text - The text
+ * @param {readonly ts.TextChange[]} changes - The changes, as spans of the original text
+ * @returns {string} The changed text
+ */
+function applyTextChanges(
+  text: string,
+  changes: readonly ts.TextChange[]
+): string {
+  // Last change first so earlier spans stay valid; insertions at the same
+  // offset keep their order
+  return changes
+    .map((change, index) => ({ change, index }))
+    .sort(
+      (a, b) => b.change.span.start - a.change.span.start || b.index - a.index
+    )
+    .reduce(
+      (result, { change }) =>
+        result.slice(0, change.span.start) +
+        change.newText +
+        result.slice(change.span.start + change.span.length),
+      text
+    );
+}
+
+/**
+ * Turn the language service's text changes into an edit set with the old
+ * and new text of each file
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {Project} project - The project the changes were computed in
+ * @param {string} symbol - What is renamed or moved
+ * @param {readonly ts.FileTextChanges[]} fileChanges - The changes
+ * @returns {CodeEditSet} The files that change
+ */
+function toEditSet(
+  tsApi: typeof ts,
+  project: Project,
+  symbol: string,
+  fileChanges: readonly ts.FileTextChanges[]
+): CodeEditSet {
+  const byFile = new Map<
+    string,
+    { isNewFile: boolean; changes: ts.TextChange[] }
+  >();
+  for (const fileChange of fileChanges) {
+    const filePath = path.resolve(fileChange.fileName);
+    const entry = byFile.get(filePath) ?? {
+      isNewFile: Boolean(fileChange.isNewFile),
+      changes: [],
+    };
+    entry.changes.push(...fileChange.textChanges);
+    byFile.set(filePath, entry);
+  }
+
+  const files: CodeFileEdit[] = [];
+  for (const [filePath, { isNewFile, changes }] of byFile) {
+    const snapshot = isNewFile ? undefined : getScriptSnapshot(tsApi, filePath);
+    const original = snapshot ? snapshot.getText(0, snapshot.getLength()) : "";
+    const content = applyTextChanges(original, changes);
+    if (content !== original || isNewFile) {
+      files.push({
+        path: filePath,
+        isNewFile,
+        original,
+        content,
+        changes: changes.length,
+      });
+    }
+  }
+  logger.debug(`Computed edits for ${symbol}`, {
+    project: project.key,
+    files: files.length,
+  });
+  return { symbol, files };
+}
+
+/**
+ * Find the innermost node at an offset
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {ts.SourceFile} sourceFile - The file
+ * @param {number} offset - The offset
+ * @returns {ts.Node} The node, or the file if the offset is between statements
+ */
+function getNodeAt(
+  tsApi: typeof ts,
+  sourceFile: ts.SourceFile,
+  offset: number
+): ts.Node {
+  let node: ts.Node = sourceFile;
+  for (;;) {
+    const child = tsApi.forEachChild(node, (candidate) =>
+      candidate.getStart(sourceFile) <= offset && offset < candidate.end
+        ? candidate
+        : undefined
+    );
+    if (!child) {
+      return node;
+    }
+    node = child;
+  }
+}
+
+/**
+ * Check whether text can name a variable: one identifier, which may be a
+ * contextual keyword such as `type`, but not a reserved word
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {string} text - The text
+ * @returns {boolean} True if the text is an identifier
+ */
+function isIdentifierName(tsApi: typeof ts, text: string): boolean {
+  const scanner = tsApi.createScanner(tsApi.ScriptTarget.Latest, false);
+  scanner.setText(text);
+  const token = scanner.scan();
+  return (
+    scanner.getTokenEnd() === text.length &&
+    (token === tsApi.SyntaxKind.Identifier ||
+      (token > tsApi.SyntaxKind.LastReservedWord &&
+        token <= tsApi.SyntaxKind.LastKeyword))
+  );
+}
+
+/**
+ * Rename the symbol at a position everywhere the project uses it,
+ * including imports, re-exports and shorthand properties
+ * @param {string} filePath - Absolute path of the file
+ * @param {CodePosition} position - The line, and a column or a symbol on it
+ * @param {string} newName - The new name
+ * @param {RenameSymbolOptions} [options] - Whether to also rename in strings and comments
+ * @returns {Promise<CodeEditSet>} The files that change
+ * @throws {Error} If the symbol cannot be renamed or the name is not valid
+ */
+export async function getRenameEdits(
+  filePath: string,
+  position: CodePosition,
+  newName: string,
+  options: RenameSymbolOptions = {}
+): Promise<CodeEditSet> {
+  const { findInStrings = false, findInComments = false } = options;
+  const { tsApi, project, sourceFile } = await openFile(filePath);
+  let fileName = filePath;
+  let offset = getOffset(sourceFile, position);
+
+  // A named import is renamed where it is declared; renaming it here would
+  // only alias it in this file
+  const node = getNodeAt(tsApi, sourceFile, offset);
+  if (
+    tsApi.isIdentifier(node) &&
+    tsApi.isImportSpecifier(node.parent) &&
+    !node.parent.propertyName
+  ) {
+    const [definition] =
+      project.service.getDefinitionAtPosition(filePath, offset) ?? [];
+    if (definition) {
+      fileName = path.resolve(definition.fileName);
+      offset = definition.textSpan.start;
+    }
+  }
+
+  const info = project.service.getRenameInfo(fileName, offset, {
+    allowRenameOfImportPath: false,
+  });
+  if (!info.canRename) {
+    throw new Error(info.localizedErrorMessage);
+  }
+  const current = (
+    project.service.getProgram()?.getSourceFile(fileName)?.text ?? ""
+  ).substr(info.triggerSpan.start, info.triggerSpan.length);
+  if (isIdentifierName(tsApi, current) && !isIdentifierName(tsApi, newName)) {
+    throw new Error(`'${newName}' is not a valid identifier`);
+  }
+  if (newName === current) {
+    throw new Error(`The symbol is already named '${newName}'`);
+  }
+
+  const locations =
+    project.service.findRenameLocations(
+      fileName,
+      offset,
+      findInStrings,
+      findInComments,
+      { providePrefixAndSuffixTextForRename: true }
+    ) ?? [];
+  return toEditSet(
+    tsApi,
+    project,
+    current,
+    locations.map((location) => ({
+      fileName: location.fileName,
+      textChanges: [
+        {
+          span: location.textSpan,
+          newText: `${location.prefixText ?? ""}${newName}${
+            location.suffixText ?? ""
+          }`,
+        },
+      ],
+    }))
+  );
+}
+
+/**
+ * Get formatting settings matching a file's indentation and line endings
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {string} text - The file's text
+ * @returns {ts.FormatCodeSettings} The settings
+ */
+function getFormatSettings(
+  tsApi: typeof ts,
+  text: string
+): ts.FormatCodeSettings {
+  const settings = tsApi.getDefaultFormatCodeSettings(
+    text.includes("\r\n") ? "\r\n" : "\n"
+  );
+  // The first indented line that is not inside a block comment
+  const indent = /^( +|\t+)[^\s*]/m.exec(text)?.[1];
+  if (indent?.startsWith("\t")) {
+    return { ...settings, convertTabsToSpaces: false };
+  }
+  if (indent) {
+    return { ...settings, indentSize: indent.length, tabSize: indent.length };
+  }
+  return settings;
+}
+
+/**
+ * Get how a file writes relative imports, for the imports a move adds.
+ * TypeScript only infers this from the file an import is added to, which
+ * a new file does not have.
+ * @param {typeof ts} tsApi - The compiler API
+ * @param {ts.SourceFile} sourceFile - The file
+ * @returns {ts.UserPreferences["importModuleSpecifierEnding"]} The ending preference
+ */
+function getImportEnding(
+  tsApi: typeof ts,
+  sourceFile: ts.SourceFile
+): ts.UserPreferences["importModuleSpecifierEnding"] {
+  const relative = sourceFile.statements
+    .filter(tsApi.isImportDeclaration)
+    .map((statement) => statement.moduleSpecifier)
+    .filter(tsApi.isStringLiteral)
+    .map((specifier) => specifier.text)
+    .filter((specifier) => specifier.startsWith("."));
+  if (relative.some((specifier) => /\.[cm]?jsx?$/.test(specifier))) {
+    return "js";
+  }
+  return relative.length > 0 ? "minimal" : "auto";
+}
+
+/**
+ * Move the top-level declaration at a position to another file, new or
+ * existing, adding the imports it needs there and rewriting the imports
+ * of every file that uses it
+ * @param {string} filePath - Absolute path of the file
+ * @param {CodePosition} position - A line of the declaration, and a column or a symbol on it
+ * @param {string} targetPath - Absolute path of the file to move it to
+ * @returns {Promise<CodeEditSet>} The files that change, including a new target file
+ * @throws {Error} If there is no declaration there or it cannot be moved
+ */
+export async function getMoveToFileEdits(
+  filePath: string,
+  position: CodePosition,
+  targetPath: string
+): Promise<CodeEditSet> {
+  if (!SOURCE_FILE.test(targetPath)) {
+    throw new Error(
+      `${targetPath} is not a TypeScript or JavaScript file (.ts, .tsx, .js, .jsx, .mts, .cts, .mjs, .cjs)`
+    );
+  }
+  if (targetPath === filePath) {
+    throw new Error(`The declaration is already in ${filePath}`);
+  }
+  const { tsApi, project, sourceFile } = await openFile(filePath);
+  const offset = getOffset(sourceFile, position);
+  const statement = sourceFile.statements.find(
+    (candidate) =>
+      candidate.getStart(sourceFile) <= offset && offset < candidate.end
+  );
+  if (!statement) {
+    throw new Error(
+      `There is no top-level declaration on line ${position.line}`
+    );
+  }
+  // An existing target outside the project must be part of the program
+  if (
+    fs.existsSync(targetPath) &&
+    !project.service.getProgram()?.getSourceFile(targetPath)
+  ) {
+    project.extraFiles.add(targetPath);
+  }
+
+  const names = tsApi.isVariableStatement(statement)
+    ? statement.declarationList.declarations.map((declaration) =>
+        declaration.name.getText(sourceFile)
+      )
+    : [tsApi.getNameOfDeclaration(statement as ts.DeclarationStatement)]
+        .filter((name): name is ts.DeclarationName => name !== undefined)
+        .map((name) => name.getText(sourceFile));
+  const symbol = names.join(", ") || `line ${position.line}`;
+
+  const range = { pos: statement.getStart(sourceFile), end: statement.end };
+  const preferences: ts.UserPreferences = {
+    allowTextChangesInNewFiles: true,
+    importModuleSpecifierEnding: getImportEnding(tsApi, sourceFile),
+  };
+  const movable = project.service
+    .getApplicableRefactors(
+      filePath,
+      range,
+      preferences,
+      "invoked",
+      undefined,
+      true
+    )
+    .some((refactor) =>
+      refactor.actions.some(
+        (action) => action.name === MOVE_TO_FILE && !action.notApplicableReason
+      )
+    );
+  if (!movable) {
+    throw new Error(
+      `The statement on line ${position.line} cannot be moved to another file`
+    );
+  }
+
+  const edits = project.service.getEditsForRefactor(
+    filePath,
+    getFormatSettings(tsApi, sourceFile.text),
+    range,
+    MOVE_TO_FILE,
+    MOVE_TO_FILE,
+    preferences,
+    { targetFile: targetPath }
+  );
+  if (!edits || edits.edits.length === 0) {
+    throw new Error(`TypeScript found no way to move ${symbol}`);
+  }
+  return toEditSet(tsApi, project, symbol, edits.edits);
+}
+
+/**
+ * Tell the language services that files or directories changed, so they
+ * are read again, and projects whose file list they may change reload it
+ * @param {string[]} paths - Absolute paths that were written, moved or deleted
+ */
+export function invalidateFiles(paths: string[]): void {
+  for (const changedPath of paths.map((entry) => path.resolve(entry))) {
+    generations.set(changedPath, (generations.get(changedPath) ?? 0) + 1);
+    // A directory that was moved or deleted takes its files with it
+    for (const fileName of snapshots.keys()) {
+      if (fileName !== changedPath && isWithin(changedPath, fileName)) {
+        generations.set(fileName, (generations.get(fileName) ?? 0) + 1);
+      }
+    }
+
+    const exists = fs.existsSync(changedPath);
+    for (const project of projects.values()) {
+      if (
+        changedPath === project.configPath ||
+        (isWithin(project.rootDir, changedPath) &&
+          (!exists || !project.fileNames.has(changedPath)) &&
+          (SOURCE_FILE.test(changedPath) || path.extname(changedPath) === ""))
+      ) {
+        project.stale = true;
+      }
+    }
+  }
+}
+
+const languageServiceUtils: LanguageServiceUtils = {
+  getOutline,
+  getDefinitions,
+  findReferences,
+  getHoverInfo,
+  getRenameEdits,
+  getMoveToFileEdits,
+  invalidateFiles,
+};
+
+export default languageServiceUtils;
@@ -0,0 +1,451 @@
+/**
+ * Patch utility functions for CodeTools MCP
+ *
+ * Parses unified diffs that may span several files (including `git diff`
+ * extended headers for created, deleted, renamed and copied files) and
+ * applies hunks one at a time so each can report its own result. Fuzz works
+ * like `patch --fuzz`: up to N lines of leading and trailing context may be
+ * ignored when a hunk does not match exactly.
+ */
+
+import {
+  FilePatch,
+  HunkResult,
+  PatchApplyResult,
+  PatchHunk,
+  PatchUtils,
+} from "../types/index.js";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// Single-character escapes used by git when quoting file names
+const C_ESCAPES: Record<string, number> = {
+  a: 7,
+  b: 8,
+  t: 9,
+  n: 10,
+  v: 11,
+  f: 12,
+  r: 13,
+};
+
+/**
+ * Decode a file name that git quoted because it contains special characters
+ * @param {string} name - The possibly quoted name
+ * @returns {string} The decoded name
+ */
+function unquotePath(name: string): string {
+  if (name.length < 2 || !name.startsWith('"') || !name.endsWith('"')) {
+    return name;
+  }
+
+  // Octal escapes are raw UTF-8 bytes, so decode into a buffer first
+  const parts: Buffer[] = [];
+  for (const match of name.slice(1, -1).matchAll(/\\([0-7]{3}|.)|[^\\]+/gs)) {
+    const escape = match[1];
+    if (escape === undefined) {
+      parts.push(Buffer.from(match[0], "utf8"));
+    } else if (/^[0-7]{3}$/.test(escape)) {
+      parts.push(Buffer.from([parseInt(escape, 8)]));
+    } else if (C_ESCAPES[escape] !== undefined) {
+      parts.push(Buffer.from([C_ESCAPES[escape]]));
+    } else {
+      parts.push(Buffer.from(escape, "utf8"));
+    }
+  }
+  return Buffer.concat(parts).toString("utf8");
+}
+
+/**
+ * Extract the file name from a `---` or `+++` header
+ * @param {string} header - The header without its marker
+ * @returns {string} The file name
+ */
+function parseHeaderName(header: string): string {
+  // Plain diffs append a tab and a timestamp after the name
+  const name = header.startsWith('"') ? header : header.split("\t")[0];
+  return unquotePath(name.trimEnd());
+}
+
+/**
+ * Extract both file names from a `diff --git` line
+ * @param {string} names - The line without `diff --git `
+ * @returns {[string, string]|null} The old and new names, if they can be told apart
+ */
+function parseGitHeaderNames(names: string): [string, string] | null {
+  const simple = /^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*"|\S+)$/.exec(
+    names
+  );
+  if (simple) {
+    return [unquotePath(simple[1]), unquotePath(simple[2])];
+  }
+
+  // Unquoted names containing spaces are only unambiguous when both are equal
+  const middle = (names.length - 1) / 2;
+  if (Number.isInteger(middle) && names[middle] === " ") {
+    return [names.slice(0, middle), names.slice(middle + 1)];
+  }
+  return null;
+}
+
+/**
+ * Remove leading path components from a file name
+ * @param {string} name - The file name from the patch
+ * @param {string} prefix - The git prefix removed when strip is not given
+ * @param {number} [strip] - Number of components to remove, like `patch -p`
+ * @returns {string} The stripped name
+ */
+function stripPath(name: string, prefix: string, strip?: number): string {
+  if (strip === undefined) {
+    return name.startsWith(prefix) ? name.slice(prefix.length) : name;
+  }
+  return name.split("/").slice(strip).join("/");
+}
+
+/**
+ * Parse one hunk, consuming exactly the number of lines its header declares
+ * @param {string[]} lines - All lines of the patch
+ * @param {number} start - Index of the `@@` header line
+ * @returns {{hunk: PatchHunk, next: number}} The hunk and the index after it
+ */
+function parseHunk(
+  lines: string[],
+  start: number
+): { hunk: PatchHunk; next: number } {
+  const match = HUNK_HEADER.exec(lines[start]) as RegExpExecArray;
+  const hunk: PatchHunk = {
+    oldStart: Number(match[1]),
+    oldLines: match[2] === undefined ? 1 : Number(match[2]),
+    newStart: Number(match[3]),
+    newLines: match[4] === undefined ? 1 : Number(match[4]),
+    lines: [],
+  };
+
+  let oldRemaining = hunk.oldLines;
+  let newRemaining = hunk.newLines;
+  let i = start + 1;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith("\\")) {
+      hunk.lines.push(line);
+    } else if (oldRemaining === 0 && newRemaining === 0) {
+      break;
+    } else if (line === "" || line.startsWith(" ")) {
+      // Editors often strip the trailing space from empty context lines
+      hunk.lines.push(line === "" ? " " : line);
+      oldRemaining--;
+      newRemaining--;
+    } else if (line.startsWith("-")) {
+      hunk.lines.push(line);
+      oldRemaining--;
+    } else if (line.startsWith("+")) {
+      hunk.lines.push(line);
+      newRemaining--;
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  if (oldRemaining !== 0 || newRemaining !== 0) {
+    throw new Error(
+      `Malformed hunk at line ${
+        start + 1
+      } of the patch: the line counts in ${formatHunkHeader(
+        hunk
+      )} do not match its body`
+    );
+  }
+
+  return { hunk, next: i };
+}
+
+/**
+ * Parse a unified diff into per-file patches
+ * @param {string} diffText - The unified diff, for one or more files
+ * @param {number} [strip] - Path components to remove from file names; by default git's `a/` and `b/` prefixes are removed
+ * @returns {FilePatch[]} The file patches, in patch order
+ */
+export function parsePatch(diffText: string, strip?: number): FilePatch[] {
+  const lines = diffText.split(/\r?\n/);
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let sawFileHeader = false;
+
+  const startFile = (): FilePatch => {
+    const filePatch: FilePatch = {
+      operation: "modify",
+      oldPath: "",
+      newPath: "",
+      hunks: [],
+      isBinary: false,
+    };
+    patches.push(filePatch);
+    sawFileHeader = false;
+    return filePatch;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith("diff --git ")) {
+      current = startFile();
+      const names = parseGitHeaderNames(line.slice("diff --git ".length));
+      if (names) {
+        current.oldPath = stripPath(names[0], "a/", strip);
+        current.newPath = stripPath(names[1], "b/", strip);
+      }
+    } else if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      // Plain diffs have no `diff` line, so a second file header starts a new file
+      if (!current || sawFileHeader || current.hunks.length > 0) {
+        current = startFile();
+      }
+      sawFileHeader = true;
+
+      const oldName = parseHeaderName(line.slice(4));
+      const newName = parseHeaderName(lines[i + 1].slice(4));
+      i++;
+
+      if (oldName === "/dev/null") {
+        current.operation = "create";
+      } else {
+        current.oldPath = stripPath(oldName, "a/", strip);
+      }
+      if (newName === "/dev/null") {
+        current.operation = "delete";
+      } else {
+        current.newPath = stripPath(newName, "b/", strip);
+      }
+    } else if (HUNK_HEADER.test(line)) {
+      if (!current) {
+        current = startFile();
+      }
+      const { hunk, next } = parseHunk(lines, i);
+      current.hunks.push(hunk);
+      i = next - 1;
+    } else if (current) {
+      if (line.startsWith("new file mode ")) {
+        current.operation = "create";
+      } else if (line.startsWith("deleted file mode ")) {
+        current.operation = "delete";
+      } else if (line.startsWith("rename from ")) {
+        current.operation = "rename";
+        current.oldPath = unquotePath(line.slice("rename from ".length));
+      } else if (line.startsWith("rename to ")) {
+        current.newPath = unquotePath(line.slice("rename to ".length));
+      } else if (line.startsWith("copy from ")) {
+        current.operation = "copy";
+        current.oldPath = unquotePath(line.slice("copy from ".length));
+      } else if (line.startsWith("copy to ")) {
+        current.newPath = unquotePath(line.slice("copy to ".length));
+      } else if (
+        line.startsWith("Binary files ") ||
+        line === "GIT binary patch"
+      ) {
+        current.isBinary = true;
+      }
+    }
+  }
+
+  // Created and deleted files only name one side
+  patches.forEach((filePatch) => {
+    if (filePatch.operation === "create" || !filePatch.oldPath) {
+      filePatch.oldPath = filePatch.newPath;
+    }
+    if (filePatch.operation === "delete" || !filePatch.newPath) {
+      filePatch.newPath = filePatch.oldPath;
+    }
+  });
+
+  return patches;
+}
+
+/**
+ * Format the `@@` header of a hunk
+ * @param {PatchHunk} hunk - The hunk
+ * @returns {string} The header
+ */
+export function formatHunkHeader(hunk: PatchHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Test whether a block of lines appears at a position
+ * @param {string[]} lines - The file lines
+ * @param {string[]} block - The lines to look for
+ * @param {number} position - Index to test
+ * @returns {boolean} True if every line matches
+ */
+function blockMatches(
+  lines: string[],
+  block: string[],
+  position: number
+): boolean {
+  return block.every((line, index) => lines[position + index] === line);
+}
+
+/**
+ * Find a block of lines, searching outwards from where the hunk expects it
+ * @param {string[]} lines - The file lines
+ * @param {string[]} block - The lines to look for
+ * @param {number} expected - Index the hunk header points at
+ * @param {number} minLine - First index not already changed by an earlier hunk
+ * @returns {number} The index of the block, or -1 if it is not found
+ */
+function locateBlock(
+  lines: string[],
+  block: string[],
+  expected: number,
+  minLine: number
+): number {
+  const lastLine = lines.length - block.length;
+
+  for (let distance = 0; ; distance++) {
+    const forward = expected + distance;
+    const backward = expected - distance;
+    if (forward > lastLine && backward < minLine) {
+      return -1;
+    }
+    if (
+      forward >= minLine &&
+      forward <= lastLine &&
+      blockMatches(lines, block, forward)
+    ) {
+      return forward;
+    }
+    if (
+      distance > 0 &&
+      backward >= minLine &&
+      backward <= lastLine &&
+      blockMatches(lines, block, backward)
+    ) {
+      return backward;
+    }
+  }
+}
+
+/**
+ * Count the context lines at the start or end of a hunk side
+ * @param {string[]} hunkLines - The hunk body
+ * @param {boolean} fromEnd - Count trailing instead of leading context
+ * @returns {number} The number of context lines
+ */
+function countContext(hunkLines: string[], fromEnd: boolean): number {
+  const body = hunkLines.filter((line) => !line.startsWith("\\"));
+  if (fromEnd) {
+    body.reverse();
+  }
+  const firstChange = body.findIndex((line) => !line.startsWith(" "));
+  return firstChange === -1 ? body.length : firstChange;
+}
+
+/**
+ * Apply hunks to text one at a time, recording the outcome of each. Hunks that
+ * fail are skipped so the remaining ones can still be checked.
+ * @param {string} content - The original text
+ * @param {PatchHunk[]} hunks - The hunks to apply, in order
+ * @param {number} [fuzzFactor=0] - Context lines that may be ignored at each end of a hunk
+ * @returns {PatchApplyResult} The patched text and per-hunk results
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+  fuzzFactor = 0
+): PatchApplyResult {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.split(/\r?\n/);
+  let finalNewline = lines[lines.length - 1] === "";
+  if (finalNewline) {
+    lines.pop();
+  }
+
+  // Line drift caused by earlier hunks and the offsets they were found at
+  let shift = 0;
+  let minLine = 0;
+
+  const results = hunks.map((hunk, index): HunkResult => {
+    const header = formatHunkHeader(hunk);
+    const oldSide: string[] = [];
+    const newSide: string[] = [];
+    let newMissingNewline = false;
+
+    hunk.lines.forEach((line, lineIndex) => {
+      const text = line.slice(1);
+      if (line.startsWith(" ")) {
+        oldSide.push(text);
+        newSide.push(text);
+      } else if (line.startsWith("-")) {
+        oldSide.push(text);
+      } else if (line.startsWith("+")) {
+        newSide.push(text);
+      } else if (line.startsWith("\\")) {
+        const previous = hunk.lines[lineIndex - 1] ?? "";
+        if (previous.startsWith("+") || previous.startsWith(" ")) {
+          newMissingNewline = true;
+        }
+      }
+    });
+
+    const leading = countContext(hunk.lines, false);
+    const trailing = countContext(hunk.lines, true);
+    const expected =
+      (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + shift;
+
+    let lastTop = -1;
+    let lastBottom = -1;
+
+    for (let fuzz = 0; fuzz <= fuzzFactor; fuzz++) {
+      const top = Math.min(fuzz, leading);
+      const bottom = Math.min(fuzz, trailing, oldSide.length - top);
+
+      // Stop once there is no more context left to ignore
+      if (top === lastTop && bottom === lastBottom) {
+        break;
+      }
+      lastTop = top;
+      lastBottom = bottom;
+
+      const oldBlock = oldSide.slice(top, oldSide.length - bottom);
+      const newBlock = newSide.slice(top, newSide.length - bottom);
+      const position = locateBlock(lines, oldBlock, expected + top, minLine);
+
+      if (position !== -1) {
+        const endsAtEof = position + oldBlock.length === lines.length;
+        lines.splice(position, oldBlock.length, ...newBlock);
+        if (endsAtEof && bottom === 0) {
+          finalNewline = !newMissingNewline;
+        }
+
+        const offset = position - (expected + top);
+        minLine = position + newBlock.length;
+        shift += offset + newSide.length - oldSide.length;
+        return { hunk: index + 1, header, applied: true, offset, fuzz };
+      }
+    }
+
+    return {
+      hunk: index + 1,
+      header,
+      applied: false,
+      offset: 0,
+      fuzz: 0,
+      error: `context does not match the file near line ${expected + 1}`,
+    };
+  });
+
+  return {
+    content: lines.join(eol) + (finalNewline && lines.length > 0 ? eol : ""),
+    applied: results.every((result) => result.applied),
+    hunks: results,
+  };
+}
+
+const patchUtils: PatchUtils = {
+  parsePatch,
+  applyHunks,
+  formatHunkHeader,
+};
+
+export default patchUtils;
@@ -0,0 +1,534 @@
+/**
+ * Path policy for CodeTools MCP
+ *
+ * Every tool and resource that touches the filesystem resolves its paths
+ * through this module. Paths are resolved against the allowed workspace
+ * roots, symlinks are followed so they cannot be used to escape a root,
+ * and paths matching a deny pattern are rejected.
+ *
+ * Configuration is read from the environment:
+ * - CODE_TOOLS_ALLOWED_ROOTS: roots separated by the platform path
+ *   delimiter (defaults to the server's working directory)
+ * - CODE_TOOLS_DENY_PATTERNS: comma-separated globs added to the defaults
+ *
+ * Roots reported by an MCP client replace the configured roots for that
+ * client's session. When roots were configured explicitly, client roots
+ * must also lie inside one of them.
+ *
+ * A session working in a sandbox worktree is confined to the sandbox
+ * instead: relative paths resolve against it and nothing outside it is
+ * reachable until the session leaves it.
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  PathPolicyConfig,
+  PathPolicyError,
+  PathPolicyUtils,
+  ResolvePathOptions,
+  ToolResponse,
+} from "../types/index.js";
+import { matchesGlob } from "./glob.js";
+import logger from "./logger.js";
+
+// Secrets that should never be readable or writable by an agent
+const DEFAULT_DENY_PATTERNS = [
+  ".env",
+  ".env.*",
+  "*.pem",
+  "id_rsa*",
+  "id_ed25519*",
+  "~/.ssh",
+  "~/.aws",
+  "~/.gnupg",
+];
+
+// Upper bound on dangling symlink hops before giving up
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Build the initial policy from environment variables
+ * @returns {PathPolicyConfig} The policy configuration
+ */
+function loadPolicyFromEnv(): PathPolicyConfig {
+  const allowedRoots = (process.env.CODE_TOOLS_ALLOWED_ROOTS || "")
+    .split(path.delimiter)
+    .map((root) => root.trim())
+    .filter(Boolean);
+
+  const extraDenyPatterns = (process.env.CODE_TOOLS_DENY_PATTERNS || "")
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+
+  rootsConfigured = allowedRoots.length > 0;
+
+  return {
+    allowedRoots: rootsConfigured ? allowedRoots : [process.cwd()],
+    denyPatterns: [...DEFAULT_DENY_PATTERNS, ...extraDenyPatterns],
+  };
+}
+
+// Whether the roots were set explicitly rather than defaulting to the CWD
+let rootsConfigured = false;
+
+// Current policy (can be replaced via configurePathPolicy)
+let currentPolicy: PathPolicyConfig = loadPolicyFromEnv();
+
+// Roots reported by MCP clients, keyed by session ID ("" for stdio)
+const clientRoots = new Map<string, string[]>();
+
+// Sandbox worktree each session works in, keyed like clientRoots
+const sandboxRoots = new Map<string, string>();
+
+/**
+ * Update the path policy
+ * @param {Partial<PathPolicyConfig>} config - Fields to override
+ */
+export function configurePathPolicy(config: Partial<PathPolicyConfig>): void {
+  if (config.allowedRoots) {
+    rootsConfigured = true;
+  }
+  currentPolicy = {
+    allowedRoots: (config.allowedRoots ?? currentPolicy.allowedRoots).map(
+      (root) => path.resolve(expandHome(root))
+    ),
+    denyPatterns: config.denyPatterns ?? currentPolicy.denyPatterns,
+  };
+  logger.info("Path policy updated", { ...currentPolicy });
+}
+
+/**
+ * Get a copy of the current path policy
+ * @returns {PathPolicyConfig} The policy configuration
+ */
+export function getPathPolicy(): PathPolicyConfig {
+  return {
+    allowedRoots: [...currentPolicy.allowedRoots],
+    denyPatterns: [...currentPolicy.denyPatterns],
+  };
+}
+
+/**
+ * Set the workspace roots reported by an MCP client
+ * @param {string|undefined} sessionId - The client's session ID
+ * @param {string[]} roots - Absolute root directories
+ */
+export function setClientRoots(
+  sessionId: string | undefined,
+  roots: string[]
+): void {
+  const resolvedRoots = roots.map((root) => path.resolve(root));
+  const acceptedRoots = rootsConfigured
+    ? resolvedRoots.filter((root) =>
+        currentPolicy.allowedRoots.some((allowed) =>
+          isWithin(path.resolve(expandHome(allowed)), root)
+        )
+      )
+    : resolvedRoots;
+
+  if (acceptedRoots.length < resolvedRoots.length) {
+    logger.warn("Ignoring client roots outside the configured roots", {
+      sessionId,
+      ignored: resolvedRoots.filter((root) => !acceptedRoots.includes(root)),
+    });
+  }
+
+  if (acceptedRoots.length === 0) {
+    clientRoots.delete(sessionId ?? "");
+    logger.info("No usable client roots, using configured roots", {
+      sessionId,
+    });
+    return;
+  }
+
+  clientRoots.set(sessionId ?? "", acceptedRoots);
+  logger.info("Client roots updated", { sessionId, roots: acceptedRoots });
+}
+
+/**
+ * Forget the workspace roots reported by an MCP client
+ * @param {string|undefined} sessionId - The client's session ID
+ */
+export function clearClientRoots(sessionId: string | undefined): void {
+  clientRoots.delete(sessionId ?? "");
+}
+
+/**
+ * Confine a session to a sandbox worktree, or with no root, return it to
+ * its workspace roots
+ * @param {string|undefined} sessionId - The client's session ID
+ * @param {string} [root] - Absolute path of the sandbox
+ */
+export function setSandboxRoot(
+  sessionId: string | undefined,
+  root?: string
+): void {
+  if (root) {
+    sandboxRoots.set(sessionId ?? "", path.resolve(root));
+  } else {
+    sandboxRoots.delete(sessionId ?? "");
+  }
+  logger.info(root ? "Session entered a sandbox" : "Session left its sandbox", {
+    sessionId,
+    root,
+  });
+}
+
+/**
+ * Get the sandbox worktree a session is confined to
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {string|undefined} The sandbox path, if any
+ */
+export function getSandboxRoot(sessionId?: string): string | undefined {
+  return sandboxRoots.get(sessionId ?? "");
+}
+
+/**
+ * Get the roots that confine a session: its sandbox when it is in one, the
+ * client's roots when it reported any, the configured roots otherwise
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {string[]} The allowed roots
+ */
+export function getAllowedRoots(sessionId?: string): string[] {
+  const sandbox = sandboxRoots.get(sessionId ?? "");
+  if (sandbox) {
+    return [sandbox];
+  }
+  return [...(clientRoots.get(sessionId ?? "") ?? currentPolicy.allowedRoots)];
+}
+
+/**
+ * Create an error describing a policy violation
+ * @param {string} message - Human readable explanation
+ * @param {string} requestedPath - The path as supplied by the caller
+ * @param {PathPolicyError["reason"]} reason - Why the path was rejected
+ * @param {string[]} allowedRoots - The roots the path was checked against
+ * @returns {PathPolicyError} The error
+ */
+function createPathPolicyError(
+  message: string,
+  requestedPath: string,
+  reason: PathPolicyError["reason"],
+  allowedRoots: string[] = currentPolicy.allowedRoots
+): PathPolicyError {
+  const error = new Error(message) as PathPolicyError;
+  error.name = "PathPolicyError";
+  error.requestedPath = requestedPath;
+  error.reason = reason;
+  error.allowedRoots = allowedRoots;
+  return error;
+}
+
+/**
+ * Check whether an error was raised by the path policy
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True for path policy errors
+ */
+export function isPathPolicyError(error: unknown): error is PathPolicyError {
+  return error instanceof Error && error.name === "PathPolicyError";
+}
+
+/**
+ * Build the standard tool response for a rejected path
+ * @param {PathPolicyError} error - The policy error
+ * @returns {ToolResponse} The error response
+ */
+export function pathPolicyErrorResponse(error: PathPolicyError): ToolResponse {
+  logger.warn(`Path rejected by policy: ${error.requestedPath}`, {
+    reason: error.reason,
+    error: error.message,
+  });
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Access denied: ${error.message}`,
+      },
+    ],
+    isError: true,
+    _meta: {
+      pathPolicy: {
+        path: error.requestedPath,
+        reason: error.reason,
+        allowedRoots: error.allowedRoots,
+      },
+    },
+  };
+}
+
+/**
+ * Expand a leading `~` to the user's home directory
+ * @param {string} inputPath - The path to expand
+ * @returns {string} The expanded path
+ */
+function expandHome(inputPath: string): string {
+  if (inputPath === "~") {
+    return os.homedir();
+  }
+  if (inputPath.startsWith("~/") || inputPath.startsWith("~\\")) {
+    return path.join(os.homedir(), inputPath.slice(2));
+  }
+  return inputPath;
+}
+
+/**
+ * Check whether a path is equal to or contained in a directory
+ * @param {string} parent - The directory
+ * @param {string} child - The path to check
+ * @returns {boolean} True if child is inside parent
+ */
+export function isWithin(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return (
+    relative === "" ||
+    (relative !== ".." &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Resolve symlinks in a path whose tail may not exist yet. The deepest
+ * existing ancestor is resolved and the missing segments re-appended;
+ * dangling symlinks are followed to the location they would create.
+ * @param {string} target - Absolute path to resolve
+ * @param {number} [depth=0] - Current symlink depth
+ * @returns {Promise<string>} The resolved path
+ */
+async function realpathAllowMissing(
+  target: string,
+  depth = 0
+): Promise<string> {
+  if (depth > MAX_SYMLINK_DEPTH) {
+    throw createPathPolicyError(
+      `Too many levels of symbolic links: ${target}`,
+      target,
+      "invalid"
+    );
+  }
+
+  const missing: string[] = [];
+  let current = target;
+
+  for (;;) {
+    try {
+      const real = await fs.realpath(current);
+      return path.join(real, ...missing);
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code !== "ENOENT" && err.code !== "ENOTDIR") {
+        throw error;
+      }
+
+      // A dangling symlink would be followed on write, so resolve its target
+      const linkStats = await fs.lstat(current).catch(() => null);
+      if (linkStats?.isSymbolicLink()) {
+        const linkTarget = path.resolve(
+          path.dirname(current),
+          await fs.readlink(current)
+        );
+        return realpathAllowMissing(
+          path.join(linkTarget, ...missing),
+          depth + 1
+        );
+      }
+
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return target;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * List a path followed by each of its ancestors
+ * @param {string} inputPath - Relative or absolute path
+ * @returns {string[]} The path and its ancestors
+ */
+function withAncestors(inputPath: string): string[] {
+  const result: string[] = [];
+  let current = inputPath;
+  while (current && current !== ".") {
+    result.push(current);
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+  return result;
+}
+
+/**
+ * Find the deny pattern matching a path, if any. Relative patterns are
+ * matched against the path relative to its workspace root, absolute (or
+ * home-relative) patterns against the absolute path. Ancestors are checked
+ * too so that denying a directory also denies everything inside it.
+ * @param {string} targetPath - Absolute path to check
+ * @param {string} root - The workspace root containing the path
+ * @returns {string|undefined} The matching pattern
+ */
+function findDenyPattern(targetPath: string, root: string): string | undefined {
+  const relativeCandidates = withAncestors(path.relative(root, targetPath));
+  const absoluteCandidates = withAncestors(targetPath);
+
+  return currentPolicy.denyPatterns.find((pattern) => {
+    const expanded = expandHome(pattern);
+    const candidates = path.isAbsolute(expanded)
+      ? absoluteCandidates
+      : relativeCandidates;
+    return candidates.some((candidate) => matchesGlob(candidate, expanded));
+  });
+}
+
+/**
+ * Resolve the real paths of a list of roots
+ * @param {string[]} roots - The roots to resolve
+ * @returns {Promise<string[]>} The resolved roots
+ */
+async function resolveRoots(roots: string[]): Promise<string[]> {
+  return Promise.all(
+    roots.map((root) => realpathAllowMissing(path.resolve(expandHome(root))))
+  );
+}
+
+/**
+ * Get a session's allowed roots as absolute, symlink-free paths
+ * @param {string} [sessionId] - The client's session ID
+ * @returns {Promise<string[]>} The resolved roots
+ */
+export async function getResolvedRoots(sessionId?: string): Promise<string[]> {
+  return resolveRoots(getAllowedRoots(sessionId));
+}
+
+/**
+ * Check whether a path matches a deny pattern, as resolvePath checks it.
+ * Tools that list or read a whole tree use this to leave denied entries
+ * out.
+ * @param {string} targetPath - Absolute path to check
+ * @param {string} root - The workspace root containing the path
+ * @returns {boolean} True if the path is denied
+ */
+export function isDenied(targetPath: string, root: string): boolean {
+  return findDenyPattern(targetPath, root) !== undefined;
+}
+
+/**
+ * Find the workspace root a path is in, among the configured roots and
+ * the client and sandbox roots of every session, for matching relative
+ * deny patterns. The innermost root wins.
+ * @param {string} targetPath - Absolute, symlink-free path
+ * @returns {Promise<string|undefined>} The root, or undefined if the path is in none
+ */
+export async function findWorkspaceRoot(
+  targetPath: string
+): Promise<string | undefined> {
+  const roots = await resolveRoots([
+    ...currentPolicy.allowedRoots,
+    ...[...clientRoots.values()].flat(),
+    ...sandboxRoots.values(),
+  ]);
+  return roots
+    .filter((root) => isWithin(root, targetPath))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Resolve a user-supplied path and enforce the path policy
+ * @param {string} inputPath - The path to resolve
+ * @param {ResolvePathOptions} [options] - Resolution options
+ * @returns {Promise<string>} The absolute, symlink-free path
+ * @throws {PathPolicyError} If the path is empty, outside every allowed root or denied
+ */
+export async function resolvePath(
+  inputPath: string,
+  options: ResolvePathOptions = {}
+): Promise<string> {
+  if (!inputPath || inputPath.trim() === "") {
+    throw createPathPolicyError("Path cannot be empty", inputPath, "invalid");
+  }
+  if (inputPath.includes("\0")) {
+    throw createPathPolicyError(
+      `Path contains a null byte: ${inputPath}`,
+      inputPath,
+      "invalid"
+    );
+  }
+
+  const allowedRoots = getAllowedRoots(options.sessionId);
+  const baseDir = options.baseDir ?? allowedRoots[0];
+  const absolutePath = path.resolve(baseDir, expandHome(inputPath.trim()));
+  // With noFollow the final segment is kept so a symlink itself can be moved or removed
+  const realPath = options.noFollow
+    ? path.join(
+        await realpathAllowMissing(path.dirname(absolutePath)),
+        path.basename(absolutePath)
+      )
+    : await realpathAllowMissing(absolutePath);
+  const roots = await resolveRoots(allowedRoots);
+
+  const root = roots.find((candidate) => isWithin(candidate, realPath));
+  if (!root) {
+    throw createPathPolicyError(
+      `'${inputPath}' resolves to '${realPath}', which is outside the allowed workspace roots (${roots.join(
+        ", "
+      )})`,
+      inputPath,
+      "outside-roots",
+      allowedRoots
+    );
+  }
+
+  // Client roots are only trusted inside explicitly configured roots
+  if (rootsConfigured && clientRoots.has(options.sessionId ?? "")) {
+    const configuredRoots = await resolveRoots(currentPolicy.allowedRoots);
+    if (!configuredRoots.some((candidate) => isWithin(candidate, realPath))) {
+      throw createPathPolicyError(
+        `'${inputPath}' resolves to '${realPath}', which is outside the configured workspace roots (${configuredRoots.join(
+          ", "
+        )})`,
+        inputPath,
+        "outside-roots"
+      );
+    }
+  }
+
+  const deniedBy =
+    findDenyPattern(realPath, root) ?? findDenyPattern(absolutePath, root);
+  if (deniedBy) {
+    throw createPathPolicyError(
+      `'${inputPath}' matches the deny pattern '${deniedBy}'`,
+      inputPath,
+      "denied",
+      allowedRoots
+    );
+  }
+
+  logger.debug(`Resolved path: ${inputPath} -> ${realPath}`);
+  return realPath;
+}
+
+const pathPolicyUtils: PathPolicyUtils = {
+  resolvePath,
+  configurePathPolicy,
+  getPathPolicy,
+  setClientRoots,
+  clearClientRoots,
+  setSandboxRoot,
+  getSandboxRoot,
+  getAllowedRoots,
+  getResolvedRoots,
+  isWithin,
+  isDenied,
+  findWorkspaceRoot,
+  isPathPolicyError,
+  pathPolicyErrorResponse,
+};
+
+export default pathPolicyUtils;
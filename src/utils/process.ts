@@ -1,19 +1,274 @@
 /**
  * Process utility functions for CodeTools MCP
  *
- * Provides helper functions for running child processes safely
+ * Provides helper functions for running child processes safely. Every
+ * process runs in its own process group so that a timeout or a cancelled
+ * request can stop it together with everything it started, and captured
+ * output is capped so a noisy command cannot exhaust memory. Commands run
+ * without a shell unless asked for; splitCommandLine turns a command line
+ * into arguments with shell quoting rules but no expansion.
+ *
+ * Configured through environment variables:
+ * - CODE_TOOLS_PROCESS_TIMEOUT_MS: default timeout per process (300000; 0 disables)
+ * - CODE_TOOLS_MAX_OUTPUT_BYTES: stdout and stderr kept per process (1048576)
  */
 
 import { spawn } from "child_process";
+import { StringDecoder } from "string_decoder";
 import { ProcessOptions, ProcessResult, ProcessUtils } from "../types/index.js";
+import { checkCommand } from "./command-policy.js";
+import { completeCharacterLength } from "./file.js";
 import logger from "./logger.js";
 
 /**
- * Safely run a command in a child process
+ * Read a non-negative integer from the environment
+ * @param {string} name - The variable name
+ * @param {number} fallback - Value when unset or invalid
+ * @returns {number} The value
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+const DEFAULT_TIMEOUT_MS = readLimit("CODE_TOOLS_PROCESS_TIMEOUT_MS", 300000);
+const DEFAULT_MAX_OUTPUT_BYTES = readLimit(
+  "CODE_TOOLS_MAX_OUTPUT_BYTES",
+  1024 * 1024
+);
+
+// Characters that only a shell can interpret. Rejected outside quotes so a
+// pipeline or redirection is not silently passed to a program as arguments.
+const SHELL_OPERATORS = new Set(["|", "&", ";", "<", ">", "(", ")", "`"]);
+
+// Variables passed to commands that do not inherit the server's environment,
+// so that executables are still found and behave normally
+const BASE_ENVIRONMENT = [
+  "PATH",
+  "HOME",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "LANG",
+  "TERM",
+  "TMPDIR",
+  "TMP",
+  "TEMP",
+  "SYSTEMROOT",
+  "COMSPEC",
+  "PATHEXT",
+  "WINDIR",
+];
+
+/**
+ * Split a command line into words the way a POSIX shell does, without
+ * running a shell. Single quotes keep everything literally, double quotes
+ * allow backslash escapes of \, ", $ and `, and a backslash outside quotes
+ * escapes the next character. Variables and globs are not expanded, and
+ * unquoted operators such as | or > are rejected.
+ * @param {string} commandLine - The command line
+ * @returns {string[]} The command followed by its arguments
+ */
+export function splitCommandLine(commandLine: string): string[] {
+  const words: string[] = [];
+  let word = "";
+  let inWord = false;
+  let quote: "'" | '"' | undefined;
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+    const next = commandLine[i + 1];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = undefined;
+      } else {
+        word += char;
+      }
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = undefined;
+      } else if (
+        char === "\\" &&
+        next !== undefined &&
+        '\\"$`\n'.includes(next)
+      ) {
+        // An escaped newline continues the line
+        if (next !== "\n") {
+          word += next;
+        }
+        i++;
+      } else if (char === "`" || (char === "$" && next === "(")) {
+        throw new Error(
+          `Command substitution is not supported in '${commandLine}'. Use the shell tool for shell syntax.`
+        );
+      } else {
+        word += char;
+      }
+    } else if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(word);
+        word = "";
+        inWord = false;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+    } else if (char === "\\") {
+      if (next === undefined) {
+        throw new Error(`Command line ends with a backslash: '${commandLine}'`);
+      }
+      if (next !== "\n") {
+        word += next;
+        inWord = true;
+      }
+      i++;
+    } else if (SHELL_OPERATORS.has(char) || (char === "$" && next === "(")) {
+      throw new Error(
+        `Shell syntax '${char}' is not supported in '${commandLine}'. Quote it to pass it as an argument, or use the shell tool for pipes, redirections and command lists.`
+      );
+    } else if (char === "#" && !inWord) {
+      // The rest of the line is a comment
+      break;
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in '${commandLine}'`);
+  }
+  if (inWord) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Join a command and its arguments into a command line for display,
+ * quoting arguments so that splitCommandLine gives them back unchanged
+ * @param {string[]} argv - The command followed by its arguments
+ * @returns {string} The command line
+ */
+export function formatCommandLine(argv: string[]): string {
+  return argv
+    .map((arg) =>
+      /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`
+    )
+    .join(" ");
+}
+
+/**
+ * Build the environment for a child process
+ * @param {Record<string, string>} [env] - Variables to set or override
+ * @param {boolean} [inheritEnv=true] - Start from the server's environment; otherwise only from PATH, HOME and similar basics
+ * @returns {NodeJS.ProcessEnv} The environment
+ */
+export function buildEnvironment(
+  env: Record<string, string> = {},
+  inheritEnv = true
+): NodeJS.ProcessEnv {
+  const base: NodeJS.ProcessEnv = {};
+  if (inheritEnv) {
+    Object.assign(base, process.env);
+  } else {
+    for (const name of BASE_ENVIRONMENT) {
+      if (process.env[name] !== undefined) {
+        base[name] = process.env[name];
+      }
+    }
+  }
+  return { ...base, ...env };
+}
+
+/**
+ * Captured output of one stream, keeping the head and the tail once the
+ * limit is reached
+ */
+interface OutputBuffer {
+  append: (chunk: Buffer) => void;
+  toString: () => string;
+  truncatedBytes: () => number;
+}
+
+/**
+ * Create an output buffer that keeps the first and last half of maxBytes and
+ * drops what lies between
+ * @param {number} maxBytes - Bytes to keep
+ * @returns {OutputBuffer} The buffer
+ */
+function createOutputBuffer(maxBytes: number): OutputBuffer {
+  const headLimit = Math.ceil(maxBytes / 2);
+  const tailLimit = maxBytes - headLimit;
+  const head: Buffer[] = [];
+  let headSize = 0;
+  const tail: Buffer[] = [];
+  let tailSize = 0;
+  let dropped = 0;
+
+  // Bytes between head and tail that are not kept
+  const truncatedBytes = (): number =>
+    dropped + Math.max(0, tailSize - tailLimit);
+
+  return {
+    append(chunk: Buffer): void {
+      if (headSize < headLimit) {
+        const taken = chunk.subarray(0, headLimit - headSize);
+        head.push(taken);
+        headSize += taken.length;
+        chunk = chunk.subarray(taken.length);
+      }
+      if (chunk.length === 0) {
+        return;
+      }
+      tail.push(chunk);
+      tailSize += chunk.length;
+      // Drop whole chunks; the rest of the excess is cut when formatting
+      while (tail.length > 0 && tailSize - tail[0].length >= tailLimit) {
+        const first = tail.shift() as Buffer;
+        dropped += first.length;
+        tailSize -= first.length;
+      }
+    },
+    toString(): string {
+      const headBytes = Buffer.concat(head);
+      const omittedInTail = Math.max(0, tailSize - tailLimit);
+      const tailBytes = Buffer.concat(tail).subarray(omittedInTail);
+      if (truncatedBytes() === 0) {
+        return Buffer.concat([headBytes, tailBytes]).toString("utf8");
+      }
+      // Cut on character boundaries so the marker does not split a character
+      const headEnd = completeCharacterLength(headBytes, "utf8");
+      let tailStart = 0;
+      while (
+        tailStart < tailBytes.length &&
+        (tailBytes[tailStart] & 0xc0) === 0x80
+      ) {
+        tailStart++;
+      }
+      const omitted = truncatedBytes() + headBytes.length - headEnd + tailStart;
+      return `${headBytes
+        .subarray(0, headEnd)
+        .toString("utf8")}\n[... ${omitted} bytes truncated ...]\n${tailBytes
+        .subarray(tailStart)
+        .toString("utf8")}`;
+    },
+    truncatedBytes,
+  };
+}
+
+/**
+ * Safely run a command in a child process. The process is stopped with
+ * SIGTERM, and SIGKILL after a grace period, when it times out or the
+ * signal is aborted; such a run is reported with timedOut or aborted set.
+ * Output is passed to onOutput as it arrives, before any truncation, and
+ * onSpawn receives a handle for writing to the process while it runs.
  * @param {string} command - The command to run
  * @param {string[]} args - Arguments for the command
  * @param {ProcessOptions} options - Additional options
  * @returns {Promise<ProcessResult>}
+ * @throws {CommandPolicyError} If the command policy rejects the command
  */
 export async function runProcess(
   command: string,
@@ -23,57 +278,187 @@ export async function runProcess(
   const {
     cwd,
     stdinData,
-    shell = true,
+    shell = false,
+    env,
+    inheritEnv = true,
+    approvedRules,
     allowNonZeroExitCode = false,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    killGraceMs = 5000,
+    maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES,
+    signal,
+    onOutput,
+    keepStdinOpen = false,
+    onSpawn,
   } = options;
 
   logger.debug(`Running command: ${command} ${args.join(" ")}`, { cwd });
+  checkCommand(command, args, { cwd, shell, approvedRules });
 
   return new Promise((resolve, reject) => {
+    const description = `${command} ${args.join(" ")}`.trim();
+    if (signal?.aborted) {
+      reject({
+        stdout: "",
+        stderr: "",
+        code: -1,
+        message: `Command cancelled before it started: ${description}`,
+      });
+      return;
+    }
+
     const proc = spawn(command, args, {
       cwd: cwd || undefined,
       shell,
+      env: buildEnvironment(env, inheritEnv),
       stdio: ["pipe", "pipe", "pipe"],
+      // A process group of its own, so the whole tree can be signalled
+      detached: process.platform !== "win32",
     });
 
-    let stdout = "";
-    let stderr = "";
+    const stdout = createOutputBuffer(maxOutputBytes);
+    const stderr = createOutputBuffer(maxOutputBytes);
+    let timedOut = false;
+    let aborted = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * Send a signal to the process group, or the process itself on Windows
+     * @param {NodeJS.Signals} killSignal - The signal
+     */
+    const killTree = (killSignal: NodeJS.Signals): void => {
+      try {
+        if (proc.pid !== undefined && process.platform !== "win32") {
+          process.kill(-proc.pid, killSignal);
+        } else {
+          proc.kill(killSignal);
+        }
+      } catch (error) {
+        // The group has already exited
+      }
+    };
+
+    /**
+     * Stop the process: SIGTERM first, then SIGKILL if it is still running
+     * after the grace period
+     */
+    const terminate = (): void => {
+      if (killTimer) {
+        return;
+      }
+      killTree("SIGTERM");
+      killTimer = setTimeout(() => {
+        killTree("SIGKILL");
+        // Descendants that left the group may still hold the pipes open
+        proc.stdout.destroy();
+        proc.stderr.destroy();
+      }, killGraceMs);
+    };
+
+    const timeoutTimer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            logger.warn(`Command timed out after ${timeoutMs} ms`, {
+              command,
+              args,
+            });
+            terminate();
+          }, timeoutMs)
+        : undefined;
+
+    const onAbort = (): void => {
+      aborted = true;
+      logger.info(`Command cancelled: ${description}`);
+      terminate();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const cleanUp = (): void => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    // Decoders keep characters split across chunks together for onOutput
+    const decoders = {
+      stdout: new StringDecoder("utf8"),
+      stderr: new StringDecoder("utf8"),
+    };
 
-    proc.stdout.on("data", (data) => {
-      stdout += data.toString();
+    proc.stdout.on("data", (data: Buffer) => {
+      stdout.append(data);
+      onOutput?.("stdout", decoders.stdout.write(data));
     });
 
-    proc.stderr.on("data", (data) => {
-      stderr += data.toString();
+    proc.stderr.on("data", (data: Buffer) => {
+      stderr.append(data);
+      onOutput?.("stderr", decoders.stderr.write(data));
     });
 
+    // Commands waiting for input would otherwise never finish
+    proc.stdin.on("error", () => undefined);
     if (stdinData) {
       proc.stdin.write(stdinData);
+    }
+    if (!keepStdinOpen) {
       proc.stdin.end();
     }
 
-    proc.on("close", (code) => {
+    onSpawn?.({
+      pid: proc.pid,
+      writeStdin: (data: string): boolean => {
+        if (!proc.stdin.writable) {
+          return false;
+        }
+        proc.stdin.write(data);
+        return true;
+      },
+      endStdin: (): void => {
+        proc.stdin.end();
+      },
+    });
+
+    proc.on("close", (code, exitSignal) => {
+      cleanUp();
       logger.debug(`Command completed with exit code: ${code}`, {
         command,
         args,
         cwd,
+        signal: exitSignal,
       });
 
-      if (code === 0 || allowNonZeroExitCode) {
-        resolve({ stdout, stderr, code: code ?? -1 });
+      const result: ProcessResult = {
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        code: code ?? -1,
+        signal: exitSignal,
+        timedOut,
+        aborted,
+        truncated: stdout.truncatedBytes() + stderr.truncatedBytes() > 0,
+      };
+
+      if (timedOut || aborted) {
+        const reason = timedOut
+          ? `Command timed out after ${timeoutMs} ms`
+          : "Command cancelled";
+        if (allowNonZeroExitCode) {
+          resolve(result);
+        } else {
+          reject({ ...result, message: `${reason}: ${description}` });
+        }
+      } else if (code === 0 || allowNonZeroExitCode) {
+        resolve(result);
       } else {
         reject({
-          stdout,
-          stderr,
-          code,
-          message: `Command failed with exit code ${code}: ${command} ${args.join(
-            " "
-          )}`,
+          ...result,
+          message: `Command failed with exit code ${code}: ${description}`,
         });
       }
     });
 
     proc.on("error", (err) => {
+      cleanUp();
       logger.error(`Command failed to execute: ${command}`, {
         error: err.message,
         command,
@@ -83,8 +468,8 @@ export async function runProcess(
 
       reject({
         error: err.message,
-        stdout,
-        stderr,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
         code: -1,
         message: `Failed to execute command: ${err.message}`,
       });
@@ -94,6 +479,9 @@ export async function runProcess(
 
 const processUtils: ProcessUtils = {
   runProcess,
+  splitCommandLine,
+  formatCommandLine,
+  buildEnvironment,
 };
 
 export default processUtils;
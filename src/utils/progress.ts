@@ -0,0 +1,108 @@
+/**
+ * Progress notification utilities for CodeTools MCP
+ *
+ * Streams the output of long-running commands to clients that asked for
+ * progress by sending a progress token with their request. Output is batched
+ * into a few notifications a second, and a quiet command still reports its
+ * elapsed time every few seconds.
+ */
+
+import { OutputProgress, ProgressUtils, ToolExtra } from "../types/index.js";
+import logger from "./logger.js";
+
+// How long output is collected before it is sent
+const FLUSH_INTERVAL_MS = 250;
+
+// How often a command without output reports that it is still running
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+/**
+ * Create a reporter that sends a command's output as progress notifications.
+ * Call finish before returning the tool result, so every notification is
+ * sent before the response.
+ * @param {ToolExtra} extra - The request handler's extra argument
+ * @returns {OutputProgress|undefined} The reporter, or undefined if the client sent no progress token
+ */
+export function createOutputProgress(
+  extra: ToolExtra
+): OutputProgress | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  const started = Date.now();
+  let lastProgress = 0;
+  let pending = { stdout: "", stderr: "" };
+  let flushTimer: NodeJS.Timeout | undefined;
+  let sending = Promise.resolve();
+
+  /**
+   * Send one notification. Progress is the elapsed time in milliseconds,
+   * kept strictly increasing as the protocol requires.
+   * @param {string} message - Text for clients that show the message only
+   * @param {string} stdout - New standard output
+   * @param {string} stderr - New standard error
+   */
+  const send = (message: string, stdout: string, stderr: string): void => {
+    const elapsedMs = Date.now() - started;
+    const progress = Math.max(elapsedMs, lastProgress + 1);
+    lastProgress = progress;
+    sending = sending
+      .then(() =>
+        extra.sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress,
+            message,
+            _meta: { stdout, stderr, elapsedMs },
+          },
+        })
+      )
+      .catch((error) => {
+        logger.debug("Failed to send progress notification", {
+          error: (error as Error).message,
+        });
+      });
+  };
+
+  const flush = (): void => {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    const { stdout, stderr } = pending;
+    if (stdout || stderr) {
+      pending = { stdout: "", stderr: "" };
+      send(stdout + stderr, stdout, stderr);
+    }
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!flushTimer) {
+      const seconds = Math.round((Date.now() - started) / 1000);
+      send(`Still running after ${seconds}s`, "", "");
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  return {
+    onOutput(stream, chunk): void {
+      pending[stream] += chunk;
+      if (!flushTimer) {
+        flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+        flushTimer.unref();
+      }
+    },
+    async finish(): Promise<void> {
+      clearInterval(heartbeat);
+      flush();
+      await sending;
+    },
+  };
+}
+
+const progressUtils: ProgressUtils = {
+  createOutputProgress,
+};
+
+export default progressUtils;
@@ -0,0 +1,334 @@
+/**
+ * Sandbox utility functions for CodeTools MCP
+ *
+ * A sandbox is a throwaway git worktree on its own branch, where an agent
+ * can try changes without touching the developer's checkout. Sandboxes
+ * live in the repository's git directory, and what they were created from
+ * is kept in the branch's git config, so they are found again by any
+ * session. Merging applies the sandbox's changes to the branch it started
+ * from; discarding removes the worktree and its branch.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  CreateSandboxOptions,
+  GitDiffOptions,
+  GitDiffResult,
+  SandboxInfo,
+  SandboxMergeOptions,
+  SandboxMergeResult,
+  SandboxUtils,
+} from "../types/index.js";
+import { checkRevision, getDiff, getStatus, runGit } from "./git.js";
+import logger from "./logger.js";
+
+// Directory inside the git common directory holding the worktrees
+const SANDBOX_DIR_NAME = "code-tools-sandboxes";
+
+// Sandbox branches are named sandbox/<id>
+const BRANCH_PREFIX = "sandbox/";
+
+// Sandbox IDs double as directory and branch names
+const SANDBOX_ID = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Get the directory holding a repository's sandboxes
+ * @param {string} cwd - Directory inside the repository or one of its worktrees
+ * @returns {Promise<string>} The absolute, symlink-free directory
+ */
+async function getSandboxesDir(cwd: string): Promise<string> {
+  const commonDir = (
+    await runGit(["rev-parse", "--git-common-dir"], cwd)
+  ).trim();
+  return path.join(
+    await fs.realpath(path.resolve(cwd, commonDir)),
+    SANDBOX_DIR_NAME
+  );
+}
+
+/**
+ * Get the branch checked out in a directory, or the commit if detached
+ * @param {string} cwd - Directory inside the repository
+ * @returns {Promise<{branch?: string, commit: string}>} The branch and commit
+ */
+async function getHead(
+  cwd: string
+): Promise<{ branch?: string; commit: string }> {
+  const commit = (await runGit(["rev-parse", "HEAD"], cwd)).trim();
+  try {
+    const branch = (
+      await runGit(["symbolic-ref", "--quiet", "--short", "HEAD"], cwd)
+    ).trim();
+    return { branch, commit };
+  } catch {
+    return { commit };
+  }
+}
+
+/**
+ * List a repository's sandboxes
+ * @param {string} cwd - Directory inside the repository or one of its worktrees
+ * @returns {Promise<SandboxInfo[]>} The sandboxes
+ */
+export async function listSandboxes(cwd: string): Promise<SandboxInfo[]> {
+  const sandboxesDir = await getSandboxesDir(cwd);
+  const output = await runGit(["worktree", "list", "--porcelain"], cwd);
+
+  // Bases are recorded as branch.sandbox/<id>.sandboxbase(commit)
+  let config = "";
+  try {
+    config = await runGit(
+      [
+        "config",
+        "--get-regexp",
+        "^branch\\.sandbox/.*\\.sandboxbase(commit)?$",
+      ],
+      cwd
+    );
+  } catch {
+    // No sandbox has been created yet
+  }
+  const bases = new Map<string, string>();
+  for (const line of config.split("\n").filter(Boolean)) {
+    const space = line.indexOf(" ");
+    bases.set(line.slice(0, space), line.slice(space + 1));
+  }
+
+  // The main worktree is always listed first
+  const worktrees = output
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const fields = new Map<string, string>();
+      for (const line of block.split("\n")) {
+        const space = line.indexOf(" ");
+        fields.set(
+          space === -1 ? line : line.slice(0, space),
+          space === -1 ? "" : line.slice(space + 1)
+        );
+      }
+      return fields;
+    });
+  const repoRoot = worktrees[0]?.get("worktree") ?? cwd;
+
+  const sandboxes: SandboxInfo[] = [];
+  for (const worktree of worktrees) {
+    const worktreePath = worktree.get("worktree") ?? "";
+    const branch = (worktree.get("branch") ?? "").replace(/^refs\/heads\//, "");
+    if (
+      path.dirname(worktreePath) !== sandboxesDir ||
+      !branch.startsWith(BRANCH_PREFIX)
+    ) {
+      continue;
+    }
+    const baseCommit = bases.get(`branch.${branch}.sandboxbasecommit`) ?? "";
+    sandboxes.push({
+      id: path.basename(worktreePath),
+      branch,
+      path: worktreePath,
+      repoRoot,
+      baseRef: bases.get(`branch.${branch}.sandboxbase`) ?? baseCommit,
+      baseCommit,
+      head: worktree.get("HEAD") ?? "",
+    });
+  }
+  return sandboxes;
+}
+
+/**
+ * Find a sandbox by its ID
+ * @param {string} cwd - Directory inside the repository or one of its worktrees
+ * @param {string} id - The sandbox ID
+ * @returns {Promise<SandboxInfo>} The sandbox
+ * @throws {Error} If there is no such sandbox
+ */
+export async function getSandbox(
+  cwd: string,
+  id: string
+): Promise<SandboxInfo> {
+  const sandbox = (await listSandboxes(cwd)).find(
+    (candidate) => candidate.id === id
+  );
+  if (!sandbox) {
+    throw new Error(`There is no sandbox '${id}' in this repository`);
+  }
+  return sandbox;
+}
+
+/**
+ * Create a sandbox: a worktree on a new branch sandbox/<id>
+ * @param {string} cwd - Directory inside the repository
+ * @param {CreateSandboxOptions} [options] - Name and starting point
+ * @returns {Promise<SandboxInfo>} The sandbox
+ */
+export async function createSandbox(
+  cwd: string,
+  options: CreateSandboxOptions = {}
+): Promise<SandboxInfo> {
+  const id = options.name ?? randomUUID().slice(0, 8);
+  if (!SANDBOX_ID.test(id)) {
+    throw new Error(
+      `Invalid sandbox name '${id}': use letters, digits, '.', '_' and '-'`
+    );
+  }
+
+  // Start from the current branch so merging goes back to it
+  let baseRef = options.baseRef ? checkRevision(options.baseRef) : undefined;
+  if (!baseRef) {
+    const head = await getHead(cwd);
+    baseRef = head.branch ?? head.commit;
+  }
+  const baseCommit = (
+    await runGit(["rev-parse", "--verify", `${baseRef}^{commit}`], cwd)
+  ).trim();
+
+  const sandboxesDir = await getSandboxesDir(cwd);
+  const sandboxPath = path.join(sandboxesDir, id);
+  const branch = `${BRANCH_PREFIX}${id}`;
+  await fs.mkdir(sandboxesDir, { recursive: true });
+  await runGit(["worktree", "add", "-b", branch, sandboxPath, baseCommit], cwd);
+  await runGit(["config", `branch.${branch}.sandboxBase`, baseRef], cwd);
+  await runGit(
+    ["config", `branch.${branch}.sandboxBaseCommit`, baseCommit],
+    cwd
+  );
+
+  logger.info(`Created sandbox ${id} from ${baseRef}`, { path: sandboxPath });
+  return getSandbox(cwd, id);
+}
+
+/**
+ * Get the commit a sandbox's changes are compared with: where its branch
+ * forked from the base, so later commits on the base are not shown
+ * @param {SandboxInfo} sandbox - The sandbox
+ * @returns {Promise<string>} The commit
+ */
+async function getMergeBase(sandbox: SandboxInfo): Promise<string> {
+  try {
+    return (
+      await runGit(["merge-base", sandbox.baseRef, "HEAD"], sandbox.path)
+    ).trim();
+  } catch {
+    // The base branch may have been deleted since
+    return sandbox.baseCommit;
+  }
+}
+
+/**
+ * Diff a sandbox against its base, including changes not yet committed
+ * and new files. Stages everything in the sandbox to do so.
+ * @param {SandboxInfo} sandbox - The sandbox
+ * @param {GitDiffOptions} [options] - Paths, context lines and whether to include the patch
+ * @returns {Promise<GitDiffResult>} The changes
+ */
+export async function diffSandbox(
+  sandbox: SandboxInfo,
+  options: GitDiffOptions = {}
+): Promise<GitDiffResult> {
+  await runGit(["add", "--all"], sandbox.path);
+  return getDiff(sandbox.path, {
+    ...options,
+    staged: true,
+    range: await getMergeBase(sandbox),
+  });
+}
+
+/**
+ * Merge a sandbox into the branch it was created from, which must be
+ * checked out, without other changes, in the main worktree. Changes not
+ * yet committed in the sandbox are committed first. A merge that fails or
+ * conflicts is undone and the sandbox kept.
+ * @param {SandboxInfo} sandbox - The sandbox
+ * @param {SandboxMergeOptions} [options] - Commit message and whether to squash
+ * @returns {Promise<SandboxMergeResult>} What was merged
+ */
+export async function mergeSandbox(
+  sandbox: SandboxInfo,
+  options: SandboxMergeOptions = {}
+): Promise<SandboxMergeResult> {
+  const { squash = true } = options;
+  const message = options.message ?? `Merge sandbox ${sandbox.id}`;
+  const target = sandbox.baseRef;
+
+  const head = await getHead(sandbox.repoRoot);
+  if (head.branch !== target) {
+    throw new Error(
+      `The sandbox goes back into '${target}', but ${sandbox.repoRoot} has ${
+        head.branch ? `'${head.branch}'` : "a detached HEAD"
+      } checked out`
+    );
+  }
+  const status = await getStatus(sandbox.repoRoot, { untrackedFiles: "no" });
+  if (!status.clean) {
+    throw new Error(
+      `${sandbox.repoRoot} has changes that are not committed; commit or stash them before merging`
+    );
+  }
+
+  await runGit(["add", "--all"], sandbox.path);
+  const pending = await getStatus(sandbox.path, { untrackedFiles: "no" });
+  const committedPending = pending.staged.length > 0;
+  if (committedPending) {
+    await runGit(["commit", "--message", message], sandbox.path);
+  }
+
+  try {
+    if (squash) {
+      await runGit(["merge", "--squash", sandbox.branch], sandbox.repoRoot);
+      await runGit(["commit", "--message", message], sandbox.repoRoot);
+    } else {
+      await runGit(
+        ["merge", "--no-ff", "--message", message, sandbox.branch],
+        sandbox.repoRoot
+      );
+    }
+  } catch (error) {
+    const conflicts = await getStatus(sandbox.repoRoot)
+      .then((after) => after.conflicted.map((entry) => entry.path))
+      .catch(() => []);
+    // The checkout was clean, so this only drops the merge's changes
+    await runGit(["reset", "--merge"], sandbox.repoRoot).catch(() => "");
+    throw new Error(
+      conflicts.length > 0
+        ? `Merging ${
+            sandbox.branch
+          } into '${target}' conflicts in ${conflicts.join(
+            ", "
+          )}; the merge was undone and the sandbox kept`
+        : `${
+            (error as Error).message
+          }; the merge was undone and the sandbox kept`
+    );
+  }
+
+  const commit = (await runGit(["rev-parse", "HEAD"], sandbox.repoRoot)).trim();
+  logger.info(`Merged sandbox ${sandbox.id} into ${target}`, { commit });
+  return { target, commit, squash, committedPending };
+}
+
+/**
+ * Remove a sandbox's worktree and branch, with all changes in it
+ * @param {SandboxInfo} sandbox - The sandbox
+ * @returns {Promise<void>}
+ */
+export async function removeSandbox(sandbox: SandboxInfo): Promise<void> {
+  await runGit(
+    ["worktree", "remove", "--force", sandbox.path],
+    sandbox.repoRoot
+  );
+  await runGit(["branch", "-D", sandbox.branch], sandbox.repoRoot);
+  logger.info(`Removed sandbox ${sandbox.id}`);
+}
+
+const sandboxUtils: SandboxUtils = {
+  listSandboxes,
+  getSandbox,
+  createSandbox,
+  diffSandbox,
+  mergeSandbox,
+  removeSandbox,
+};
+
+export default sandboxUtils;
@@ -0,0 +1,286 @@
+/**
+ * Search utility functions for CodeTools MCP
+ *
+ * Walks a workspace in a stable order, honouring `.gitignore` files and
+ * include/exclude globs, and searches file contents in-process. Symbolic
+ * links are never followed, so a walk cannot leave the directory it started
+ * in, and entries the path policy denies are left out.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  IgnoreRule,
+  SearchMatch,
+  SearchOptions,
+  SearchResult,
+  SearchUtils,
+  WalkEntry,
+  WalkOptions,
+} from "../types/index.js";
+import { decodeContent } from "./file.js";
+import { matchesAnyGlob, toPosixPath } from "./glob.js";
+import {
+  DEFAULT_IGNORED_DIRECTORIES,
+  isIgnored,
+  loadIgnoreFile,
+  loadInheritedRules,
+} from "./ignore.js";
+import { findWorkspaceRoot, isDenied } from "./path-policy.js";
+
+// Files larger than this are skipped rather than read into memory
+const MAX_SEARCH_FILE_BYTES =
+  parseInt(process.env.CODE_TOOLS_MAX_SEARCH_FILE_BYTES || "", 10) ||
+  10 * 1024 * 1024;
+
+/**
+ * Walk a directory tree depth-first, entries sorted by name. Ignored,
+ * excluded and denied directories are not entered, and denied files are
+ * not listed. Include globs only filter files.
+ * @param {string} rootDir - Absolute directory to walk
+ * @param {WalkOptions} [options] - Filtering options
+ * @returns {AsyncGenerator<WalkEntry>} The entries below rootDir
+ */
+export async function* walkTree(
+  rootDir: string,
+  options: WalkOptions = {}
+): AsyncGenerator<WalkEntry> {
+  const {
+    respectGitignore = true,
+    include = [],
+    exclude = [],
+    maxDepth = Infinity,
+  } = options;
+
+  const context = respectGitignore
+    ? await loadInheritedRules(rootDir)
+    : { root: rootDir, rules: [] };
+  const matchPath = (entryPath: string): string =>
+    toPosixPath(path.relative(context.root, entryPath));
+  // Relative deny patterns match from the workspace root, as in resolvePath
+  const denyRoot = (await findWorkspaceRoot(rootDir)) ?? rootDir;
+
+  /**
+   * Walk one directory
+   * @param {string} dirPath - Absolute directory path
+   * @param {number} depth - Depth of the directory's entries, starting at 1
+   * @param {IgnoreRule[]} rules - Ignore rules from the directories above
+   * @returns {AsyncGenerator<WalkEntry>} The entries below dirPath
+   */
+  async function* walkDirectory(
+    dirPath: string,
+    depth: number,
+    rules: IgnoreRule[]
+  ): AsyncGenerator<WalkEntry> {
+    const dirRules = respectGitignore
+      ? [...rules, ...(await loadIgnoreFile(dirPath, matchPath(dirPath)))]
+      : rules;
+
+    let children;
+    try {
+      children = await fs.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      // Unreadable directories are skipped like in `find`
+      return;
+    }
+    children.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const child of children) {
+      const childPath = path.join(dirPath, child.name);
+      const relativePath = toPosixPath(path.relative(rootDir, childPath));
+      const isDirectory = child.isDirectory();
+
+      if (
+        respectGitignore &&
+        ((isDirectory && DEFAULT_IGNORED_DIRECTORIES.includes(child.name)) ||
+          isIgnored(matchPath(childPath), isDirectory, dirRules))
+      ) {
+        continue;
+      }
+      if (
+        matchesAnyGlob(relativePath, exclude) ||
+        isDenied(childPath, denyRoot)
+      ) {
+        continue;
+      }
+      // A link is denied like its target, as resolvePath denies it
+      if (child.isSymbolicLink()) {
+        const target = await fs.realpath(childPath).catch(() => undefined);
+        if (target && isDenied(target, denyRoot)) {
+          continue;
+        }
+      }
+
+      if (isDirectory) {
+        yield { path: childPath, relativePath, type: "directory", depth };
+        if (depth < maxDepth) {
+          yield* walkDirectory(childPath, depth + 1, dirRules);
+        }
+      } else if (
+        include.length === 0 ||
+        matchesAnyGlob(relativePath, include)
+      ) {
+        yield {
+          path: childPath,
+          relativePath,
+          type: child.isFile()
+            ? "file"
+            : child.isSymbolicLink()
+            ? "symlink"
+            : "other",
+          depth,
+        };
+      }
+    }
+  }
+
+  yield* walkDirectory(rootDir, 1, context.rules);
+}
+
+/**
+ * Build the regular expression a search uses
+ * @param {SearchOptions} options - The search options
+ * @returns {RegExp} A global expression matching the pattern
+ * @throws {Error} If a regex pattern is invalid
+ */
+function buildSearchRegExp(options: SearchOptions): RegExp {
+  const { pattern, literal = false, caseSensitive = true, wholeWord } = options;
+  let source = literal
+    ? pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    : pattern;
+  if (wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+
+  try {
+    return new RegExp(source, caseSensitive ? "gu" : "giu");
+  } catch (error) {
+    throw new Error(
+      `Invalid regular expression: ${(error as Error).message.replace(
+        /^Invalid regular expression: /,
+        ""
+      )}`
+    );
+  }
+}
+
+/**
+ * Find the matches in one file's lines
+ * @param {string[]} lines - The file's lines
+ * @param {RegExp} regExp - Global expression to match
+ * @param {string} file - Path reported for the file
+ * @param {SearchOptions} options - Context line options
+ * @returns {SearchMatch[]} The matches, in order
+ */
+function matchLines(
+  lines: string[],
+  regExp: RegExp,
+  file: string,
+  options: SearchOptions
+): SearchMatch[] {
+  const { beforeContext = 0, afterContext = 0 } = options;
+  const matches: SearchMatch[] = [];
+
+  lines.forEach((lineText, index) => {
+    regExp.lastIndex = 0;
+    for (let found = regExp.exec(lineText); found; ) {
+      matches.push({
+        file,
+        line: index + 1,
+        column: found.index + 1,
+        match: found[0],
+        lineText,
+        before: lines.slice(Math.max(0, index - beforeContext), index),
+        after: lines.slice(index + 1, index + 1 + afterContext),
+      });
+      // Step past empty matches so the loop always advances
+      if (found[0] === "") {
+        regExp.lastIndex++;
+      }
+      found = regExp.exec(lineText);
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Search file contents below a directory, or a single file. Matches are
+ * returned in walk order; `offset` and `maxResults` select one page.
+ * @param {string} targetPath - Absolute directory or file path
+ * @param {SearchOptions} options - The pattern and search options
+ * @returns {Promise<SearchResult>} One page of matches
+ */
+export async function searchFiles(
+  targetPath: string,
+  options: SearchOptions
+): Promise<SearchResult> {
+  const { offset = 0, maxResults = 100 } = options;
+  const regExp = buildSearchRegExp(options);
+  const result: SearchResult = {
+    matches: [],
+    filesSearched: 0,
+    filesSkipped: 0,
+    truncated: false,
+  };
+
+  const stats = await fs.stat(targetPath);
+  const rootDir = stats.isDirectory() ? targetPath : path.dirname(targetPath);
+  const files: AsyncIterable<WalkEntry> | WalkEntry[] = stats.isDirectory()
+    ? walkTree(targetPath, options)
+    : [
+        {
+          path: targetPath,
+          relativePath: path.basename(targetPath),
+          type: "file",
+          depth: 1,
+        },
+      ];
+
+  // Matches before the requested page are counted but not kept
+  let skipped = 0;
+  for await (const entry of files) {
+    if (entry.type !== "file") {
+      continue;
+    }
+
+    const size = (await fs.stat(entry.path).catch(() => null))?.size;
+    if (size === undefined || size > MAX_SEARCH_FILE_BYTES) {
+      result.filesSkipped++;
+      continue;
+    }
+    const decoded = decodeContent(await fs.readFile(entry.path));
+    if (!decoded) {
+      result.filesSkipped++;
+      continue;
+    }
+    result.filesSearched++;
+
+    const file = toPosixPath(path.relative(rootDir, entry.path));
+    for (const match of matchLines(
+      decoded.content.split(/\r?\n/),
+      regExp,
+      file,
+      options
+    )) {
+      if (skipped < offset) {
+        skipped++;
+      } else if (result.matches.length < maxResults) {
+        result.matches.push(match);
+      } else {
+        result.truncated = true;
+        result.nextOffset = offset + maxResults;
+        return result;
+      }
+    }
+  }
+
+  return result;
+}
+
+const searchUtils: SearchUtils = {
+  walkTree,
+  searchFiles,
+};
+
+export default searchUtils;
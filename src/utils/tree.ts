@@ -0,0 +1,197 @@
+/**
+ * Directory tree utility functions for CodeTools MCP
+ *
+ * Builds a depth-limited tree of a directory with metadata for every entry,
+ * using the same walk and ignore rules as search, and renders it in the
+ * style of the `tree` command. Directories with very many entries are cut
+ * short with a marker instead of flooding the output.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  DirectoryTreeNode,
+  DirectoryTreeOptions,
+  TreeUtils,
+  WalkEntry,
+} from "../types/index.js";
+import { walkTree } from "./search.js";
+
+/**
+ * Format permission bits like `ls -l`, e.g. `drwxr-xr-x`
+ * @param {number} mode - The file mode
+ * @param {WalkEntry["type"]} type - The entry type
+ * @returns {string} The permission string
+ */
+function formatMode(mode: number, type: WalkEntry["type"]): string {
+  const prefixes: Record<WalkEntry["type"], string> = {
+    directory: "d",
+    symlink: "l",
+    file: "-",
+    other: "?",
+  };
+  let permissions = "";
+  for (let bit = 8; bit >= 0; bit--) {
+    permissions += mode & (1 << bit) ? "rwx"[(8 - bit) % 3] : "-";
+  }
+  return `${prefixes[type]}${permissions}`;
+}
+
+/**
+ * Format a byte count for display, e.g. `1.5K`
+ * @param {number} size - Size in bytes
+ * @returns {string} The human-readable size
+ */
+function formatSize(size: number): string {
+  const units = ["B", "K", "M", "G", "T"];
+  let value = size;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0
+    ? `${size}B`
+    : `${value < 10 ? value.toFixed(1) : Math.round(value)}${units[unit]}`;
+}
+
+/**
+ * Build the tree of a directory. Entries are sorted by name; directories
+ * below maxDepth are not expanded but still report how many files and
+ * directories they contain.
+ * @param {string} rootDir - Absolute directory path
+ * @param {DirectoryTreeOptions} [options] - Depth, ignore and truncation options
+ * @returns {Promise<DirectoryTreeNode>} The root node
+ */
+export async function buildDirectoryTree(
+  rootDir: string,
+  options: DirectoryTreeOptions = {}
+): Promise<DirectoryTreeNode> {
+  const { maxDepth = 3, maxEntriesPerDirectory = 200 } = options;
+
+  // One level more than shown, so the deepest directories can be counted
+  const children = new Map<string, WalkEntry[]>();
+  for await (const entry of walkTree(rootDir, {
+    respectGitignore: options.respectGitignore,
+    exclude: options.exclude,
+    maxDepth: maxDepth + 1,
+  })) {
+    const parent = path.posix.dirname(entry.relativePath).replace(/^\.$/, "");
+    const siblings = children.get(parent);
+    if (siblings) {
+      siblings.push(entry);
+    } else {
+      children.set(parent, [entry]);
+    }
+  }
+
+  /**
+   * Build the node of one entry
+   * @param {string} entryPath - Absolute path
+   * @param {string} relativePath - Path relative to the root, "" for the root
+   * @param {WalkEntry["type"]} type - The entry type
+   * @param {number} depth - Depth of the entry, 0 for the root
+   * @returns {Promise<DirectoryTreeNode>} The node
+   */
+  async function buildNode(
+    entryPath: string,
+    relativePath: string,
+    type: WalkEntry["type"],
+    depth: number
+  ): Promise<DirectoryTreeNode> {
+    const stats = await fs.lstat(entryPath);
+    const node: DirectoryTreeNode = {
+      name: path.basename(entryPath) || entryPath,
+      path: relativePath,
+      type,
+      size: stats.size,
+      mtime: stats.mtime.toISOString(),
+      mode: formatMode(stats.mode, type),
+    };
+
+    if (type === "symlink") {
+      node.target = await fs.readlink(entryPath).catch(() => undefined);
+    }
+    if (type !== "directory") {
+      return node;
+    }
+
+    const entries = children.get(relativePath) ?? [];
+    node.files = entries.filter((entry) => entry.type !== "directory").length;
+    node.directories = entries.length - node.files;
+    if (depth < maxDepth) {
+      node.children = [];
+      for (const entry of entries.slice(0, maxEntriesPerDirectory)) {
+        // Entries removed since the walk are left out
+        const child = await buildNode(
+          entry.path,
+          entry.relativePath,
+          entry.type,
+          depth + 1
+        ).catch(() => null);
+        if (child) {
+          node.children.push(child);
+        }
+      }
+      if (entries.length > maxEntriesPerDirectory) {
+        node.omitted = entries.length - maxEntriesPerDirectory;
+      }
+    }
+    return node;
+  }
+
+  return buildNode(rootDir, "", "directory", 0);
+}
+
+/**
+ * Render a tree like the `tree` command
+ * @param {DirectoryTreeNode} root - The root node
+ * @param {boolean} [details=true] - Show permissions, sizes and mtimes
+ * @returns {string} The rendered tree
+ */
+export function formatDirectoryTree(
+  root: DirectoryTreeNode,
+  details = true
+): string {
+  const describe = (node: DirectoryTreeNode): string => {
+    let label = node.type === "directory" ? `${node.name}/` : node.name;
+    if (node.target !== undefined) {
+      label += ` -> ${node.target}`;
+    }
+    const info: string[] = [];
+    if (details) {
+      info.push(node.mode);
+      if (node.type !== "directory") {
+        info.push(formatSize(node.size));
+      }
+      info.push(node.mtime.slice(0, 16).replace("T", " "));
+    }
+    if (node.type === "directory") {
+      info.push(`${node.files} files, ${node.directories} dirs`);
+    }
+    return info.length > 0 ? `${label}  [${info.join(", ")}]` : label;
+  };
+
+  const lines = [describe(root)];
+  const render = (node: DirectoryTreeNode, indent: string): void => {
+    const items = node.children ?? [];
+    items.forEach((child, index) => {
+      const last = index === items.length - 1 && !node.omitted;
+      lines.push(`${indent}${last ? "└── " : "├── "}${describe(child)}`);
+      render(child, `${indent}${last ? "    " : "│   "}`);
+    });
+    if (node.omitted) {
+      lines.push(`${indent}└── … ${node.omitted} more entries`);
+    }
+  };
+  render(root, "");
+
+  return lines.join("\n");
+}
+
+const treeUtils: TreeUtils = {
+  buildDirectoryTree,
+  formatDirectoryTree,
+};
+
+export default treeUtils;